@@ -0,0 +1,115 @@
+import { assessCancellation, assessNoShow, assessUnservedBooking, CancelledBooking } from '../cancellation';
+import { Actor } from '../../types';
+
+describe('Cancellation', () => {
+  const policy = {
+    freeCancellationMinutes: 2,
+    lateCancellationFee: 5,
+    cabArrivedFee: 10,
+    noShowWaitMinutes: 5,
+    noShowFee: 12
+  };
+  const bookedAt = new Date('2026-03-01T12:00:00Z');
+  const minutesLater = (minutes: number) => new Date(bookedAt.getTime() + minutes * 60000);
+
+  const booking = (requestId: string, overrides: Partial<CancelledBooking> = {}): CancelledBooking => ({
+    requestId,
+    fare: 20,
+    bookedAt,
+    cabArrived: false,
+    ...overrides
+  });
+
+  it('should not charge anyone when the driver or system cancels', () => {
+    for (const cancelledBy of [Actor.DRIVER, Actor.SYSTEM]) {
+      const charges = assessCancellation(policy, cancelledBy, [booking('a', { cabArrived: true }), booking('b')], null, minutesLater(30));
+      expect(charges.map(c => c.fee)).toEqual([0, 0]);
+      expect(charges.map(c => c.refund)).toEqual([20, 20]);
+    }
+  });
+
+  it('should be free within the free cancellation window', () => {
+    const [charge] = assessCancellation(policy, Actor.RIDER, [booking('a')], 'a', minutesLater(1));
+    expect(charge.fee).toBe(0);
+    expect(charge.refund).toBe(20);
+  });
+
+  it('should charge the late fee after the free window', () => {
+    const [charge] = assessCancellation(policy, Actor.RIDER, [booking('a')], 'a', minutesLater(5));
+    expect(charge.fee).toBe(5);
+    expect(charge.refund).toBe(15);
+  });
+
+  it('should charge the cab-arrived fee once the cab has arrived, even inside the free window', () => {
+    const [charge] = assessCancellation(policy, Actor.RIDER, [booking('a', { cabArrived: true })], 'a', minutesLater(1));
+    expect(charge.fee).toBe(10);
+    expect(charge.refund).toBe(10);
+  });
+
+  it('should never charge more than the fare', () => {
+    const [charge] = assessCancellation(policy, Actor.RIDER, [booking('a', { fare: 8, cabArrived: true })], 'a');
+    expect(charge.fee).toBe(8);
+    expect(charge.refund).toBe(0);
+  });
+
+  it('should not penalise the other riders in the pool', () => {
+    const charges = assessCancellation(
+      policy,
+      Actor.RIDER,
+      [booking('a', { cabArrived: true }), booking('b', { cabArrived: true })],
+      'a',
+      minutesLater(10)
+    );
+
+    expect(charges[0].fee).toBe(10);
+    expect(charges[1].fee).toBe(0);
+    expect(charges[1].refund).toBe(20);
+    expect(charges[1].reason).toContain('another rider');
+  });
+
+  describe('assessNoShow', () => {
+    const arrivedAt = minutesLater(10);
+    const waited = (minutes: number) => new Date(arrivedAt.getTime() + minutes * 60000);
+
+    it('should need the cab to have arrived', () => {
+      expect(() => assessNoShow(policy, booking('a'), null, waited(30))).toThrow('has not arrived');
+    });
+
+    it('should not allow a no-show before the wait is over', () => {
+      expect(() => assessNoShow(policy, booking('a'), arrivedAt, waited(4))).toThrow('Wait for the rider');
+    });
+
+    it('should charge the no-show fee once the wait is over', () => {
+      const charge = assessNoShow(policy, booking('a'), arrivedAt, waited(5));
+      expect(charge.cancelledBy).toBe(Actor.DRIVER);
+      expect(charge.fee).toBe(12);
+      expect(charge.refund).toBe(8);
+    });
+
+    it('should never charge more than the fare', () => {
+      const charge = assessNoShow(policy, booking('a', { fare: 7 }), arrivedAt, waited(6));
+      expect(charge.fee).toBe(7);
+      expect(charge.refund).toBe(0);
+    });
+  });
+
+  describe('assessUnservedBooking', () => {
+    const arrivedAt = minutesLater(10);
+    const waited = (minutes: number) => new Date(arrivedAt.getTime() + minutes * 60000);
+
+    it('should refund a rider the cab never reached', () => {
+      const charge = assessUnservedBooking(policy, booking('a'), null, Actor.SYSTEM, waited(60));
+      expect(charge).toMatchObject({ cancelledBy: Actor.SYSTEM, fee: 0, refund: 20 });
+    });
+
+    it('should refund a rider the cab did not wait for', () => {
+      const charge = assessUnservedBooking(policy, booking('a', { cabArrived: true }), arrivedAt, Actor.DRIVER, waited(4));
+      expect(charge).toMatchObject({ fee: 0, refund: 20 });
+    });
+
+    it('should charge the no-show fee once the cab waited it out', () => {
+      const charge = assessUnservedBooking(policy, booking('a', { cabArrived: true }), arrivedAt, Actor.SYSTEM, waited(5));
+      expect(charge).toMatchObject({ cancelledBy: Actor.DRIVER, fee: 12, refund: 8 });
+    });
+  });
+});
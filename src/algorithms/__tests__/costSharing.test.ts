@@ -0,0 +1,101 @@
+import { CostSharingAreas, costShareWeights, routeCoalitionCost, shapleyValues } from '../costSharing';
+import { PricingEngine } from '../pricing';
+import { calculateDistance } from '../distance';
+import { CostSharingStrategy } from '../../types';
+
+describe('Cost sharing', () => {
+  const engine = new PricingEngine();
+
+  // A and B share a corridor; B's pickup is a detour off it for A
+  const route = [
+    { latitude: 28.55, longitude: 77.10 }, // 0: A pickup
+    { latitude: 28.58, longitude: 77.16 }, // 1: B pickup
+    { latitude: 28.62, longitude: 77.20 }, // 2: A dropoff
+    { latitude: 28.63, longitude: 77.22 } // 3: B dropoff
+  ];
+  const stops = [
+    { pickupOrder: 0, dropoffOrder: 2 },
+    { pickupOrder: 1, dropoffOrder: 3 }
+  ];
+  const coalitionCost = routeCoalitionCost(route, stops, calculateDistance);
+
+  describe('shapleyValues', () => {
+    it('should add up to the cost of the whole ride', () => {
+      const values = shapleyValues(2, coalitionCost);
+
+      expect(values[0] + values[1]).toBeCloseTo(coalitionCost([0, 1]), 6);
+    });
+
+    it('should split evenly between identical riders', () => {
+      const values = shapleyValues(3, members => (members.length > 0 ? 12 : 0));
+
+      values.forEach(v => expect(v).toBeCloseTo(4, 6));
+    });
+
+    it('should charge a rider only for the route they add', () => {
+      // Rider 1 rides along a route rider 0 needs anyway
+      const values = shapleyValues(2, members => (members.includes(0) ? 10 : 4));
+
+      expect(values[0]).toBeCloseTo(8, 6);
+      expect(values[1]).toBeCloseTo(2, 6);
+    });
+  });
+
+  describe('costShareWeights', () => {
+    const riders = [
+      { directDistance: 10, riddenDistance: 14, seats: 1 },
+      { directDistance: 10, riddenDistance: 10, seats: 2 }
+    ];
+
+    it('should weight by distance and seats', () => {
+      expect(costShareWeights(CostSharingStrategy.DIRECT_DISTANCE, riders, coalitionCost)).toEqual([10, 20]);
+      expect(costShareWeights(CostSharingStrategy.DISTANCE_RIDDEN, riders, coalitionCost)).toEqual([14, 20]);
+    });
+
+    it('should not charge the detoured rider for the detour under DIRECT_DISTANCE', () => {
+      const [detoured] = costShareWeights(CostSharingStrategy.DIRECT_DISTANCE, riders, coalitionCost);
+      const [detouredRidden] = costShareWeights(CostSharingStrategy.DISTANCE_RIDDEN, riders, coalitionCost);
+
+      expect(detoured).toBeLessThan(detouredRidden);
+    });
+  });
+
+  describe('splitFare with solo caps', () => {
+    it('should move the excess over a solo fare to the other riders', () => {
+      const shares = engine.splitFare(40, [3, 1], [25, 30]);
+
+      expect(shares).toEqual([25, 15]);
+    });
+
+    it('should charge solo fares when they add up to less than the total', () => {
+      const shares = engine.splitFare(40, [1, 1], [15, 18]);
+
+      expect(shares).toEqual([15, 18]);
+    });
+
+    it('should keep the total to the cent', () => {
+      const shares = engine.splitFare(10, [1, 1, 1], [5, 5, 5]);
+
+      expect(shares.reduce((a, b) => a + b, 0)).toBeCloseTo(10, 2);
+      shares.forEach(share => expect(share).toBeLessThanOrEqual(5));
+    });
+  });
+
+  describe('CostSharingAreas', () => {
+    const areas = new CostSharingAreas([{
+      name: 'Airport',
+      strategy: CostSharingStrategy.SHAPLEY,
+      polygon: [
+        { latitude: 28.53, longitude: 77.07 },
+        { latitude: 28.53, longitude: 77.12 },
+        { latitude: 28.58, longitude: 77.12 },
+        { latitude: 28.58, longitude: 77.07 }
+      ]
+    }], CostSharingStrategy.DISTANCE_RIDDEN);
+
+    it('should pick the strategy of the area the ride starts in', () => {
+      expect(areas.strategyAt(route[0])).toBe(CostSharingStrategy.SHAPLEY);
+      expect(areas.strategyAt(route[3])).toBe(CostSharingStrategy.DISTANCE_RIDDEN);
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { RideMatchingEngine } from '../matching';
 import { RideRequest, RideStatus, LuggageSize } from '../../types';
+import { scoringConfig } from '../../config/matching';
 
 describe('RideMatchingEngine', () => {
   let engine: RideMatchingEngine;
@@ -14,6 +15,8 @@ describe('RideMatchingEngine', () => {
     pickup: { latitude: 40.7128, longitude: -74.0060 },
     dropoff: { latitude: 40.7580, longitude: -73.9855 },
     requestedAt: new Date(),
+    earliestPickupAt: new Date(),
+    latestPickupAt: new Date(Date.now() + 20 * 60000),
     passengers: 2,
     luggage: [LuggageSize.SMALL, LuggageSize.MEDIUM],
     maxDetourMinutes: 15,
@@ -61,6 +64,71 @@ describe('RideMatchingEngine', () => {
       expect(matches.length).toBe(0);
     });
 
+    it('should pool larger groups when a van is available', async () => {
+      const request1 = createMockRequest({ passengers: 3 });
+      const request2 = createMockRequest({ passengers: 3 });
+      const van = { maxPassengers: 8, maxLuggage: 12 };
+
+      const matches = await engine.findMatches(request1, [request2], [van]);
+      const pooled = matches.find(m => m.ride.passengers.length === 2);
+
+      expect(pooled).toBeDefined();
+      expect(pooled!.ride.vehicle).toEqual(van);
+    });
+
+    it('should pick the smallest vehicle that fits the group', async () => {
+      const request1 = createMockRequest({ passengers: 1, luggage: [LuggageSize.SMALL] });
+      const request2 = createMockRequest({ passengers: 1, luggage: [LuggageSize.SMALL] });
+      const sedan = { maxPassengers: 4, maxLuggage: 6 };
+      const van = { maxPassengers: 8, maxLuggage: 12 };
+
+      const matches = await engine.findMatches(request1, [request2], [van, sedan]);
+
+      matches.forEach(m => expect(m.ride.vehicle).toEqual(sedan));
+    });
+
+    it('should offer no ride when no vehicle fits the party', async () => {
+      const party = createMockRequest({ passengers: 6, luggage: [LuggageSize.SMALL] });
+      const sedan = { maxPassengers: 4, maxLuggage: 6 };
+
+      const matches = await engine.findMatches(party, [], [sedan]);
+
+      expect(matches).toEqual([]);
+    });
+
+    it('should not pool riders heading in opposite directions', async () => {
+      const north = createMockRequest({ passengers: 1, luggage: [LuggageSize.SMALL] });
+      const south = createMockRequest({
+        pickup: { latitude: 40.7130, longitude: -74.0062 },
+        dropoff: { latitude: 40.6500, longitude: -74.0300 },
+        passengers: 1,
+        luggage: [LuggageSize.SMALL]
+      });
+
+      const matches = await engine.findMatches(north, [south]);
+
+      expect(matches.every(m => m.ride.passengers.length === 1)).toBe(true);
+    });
+
+    it('should not pool riders whose pickup windows cannot both be met', async () => {
+      const now = createMockRequest({
+        passengers: 1,
+        luggage: [LuggageSize.SMALL],
+        latestPickupAt: new Date(Date.now() + 5 * 60000)
+      });
+      const later = createMockRequest({
+        pickup: { latitude: 40.7130, longitude: -74.0062 },
+        passengers: 1,
+        luggage: [LuggageSize.SMALL],
+        earliestPickupAt: new Date(Date.now() + 60 * 60000),
+        latestPickupAt: new Date(Date.now() + 80 * 60000)
+      });
+
+      const matches = await engine.findMatches(now, [later]);
+
+      expect(matches.every(m => m.ride.passengers.length === 1)).toBe(true);
+    });
+
     it('should filter by search radius', async () => {
       const request1 = createMockRequest();
       const farRequest = createMockRequest({
@@ -72,4 +140,287 @@ describe('RideMatchingEngine', () => {
       expect(matches.length).toBe(0);
     });
   });
+
+  describe('match scoring', () => {
+    const weights = { ...scoringConfig.weights };
+
+    afterEach(() => {
+      Object.assign(scoringConfig.weights, weights);
+    });
+
+    const createPair = () => [
+      createMockRequest({ passengers: 1, luggage: [LuggageSize.SMALL] }),
+      createMockRequest({ pickup: { latitude: 40.7130, longitude: -74.0062 }, passengers: 1, luggage: [LuggageSize.SMALL] })
+    ];
+
+    it('should explain every score with a breakdown that sums to it', async () => {
+      const [request1, request2] = createPair();
+
+      const matches = await engine.findMatches(request1, [request2]);
+
+      expect(matches.length).toBeGreaterThan(0);
+      for (const match of matches) {
+        expect(match.scoreBreakdown.map(f => f.factor).sort()).toEqual(
+          ['coRiders', 'detour', 'efficiency', 'pickupWait', 'savings']
+        );
+        const points = match.scoreBreakdown.reduce((sum, f) => sum + f.points, 0);
+        expect(points).toBeCloseTo(match.score, 9);
+      }
+    });
+
+    it('should score the solo ride from its factors', async () => {
+      const [request1, request2] = createPair();
+
+      const matches = await engine.findMatches(request1, [request2]);
+      const solo = matches.find(m => m.ride.passengers.length === 1)!;
+      const savings = solo.scoreBreakdown.find(f => f.factor === 'savings')!;
+
+      expect(savings.value).toBe(0);
+      expect(solo.score).not.toBe(50);
+    });
+
+    it('should rank by the configured weights', async () => {
+      const [request1, request2] = createPair();
+
+      scoringConfig.weights.coRiders = 100;
+      const pooledFirst = await engine.findMatches(request1, [request2]);
+      expect(pooledFirst[0].ride.passengers.length).toBe(2);
+
+      Object.assign(scoringConfig.weights, { efficiency: 0, savings: 0, coRiders: 0, detour: 100 });
+      const soloFirst = await engine.findMatches(request1, [request2]);
+      expect(soloFirst[0].ride.passengers.length).toBe(1);
+    });
+  });
+
+  describe('findInsertions', () => {
+    const activeRideFor = (booked: RideRequest, vehicle = { maxPassengers: 4, maxLuggage: 6 }) => ({
+      id: 'ride-1',
+      cabId: 'cab-1',
+      status: RideStatus.CONFIRMED,
+      requests: [booked],
+      waypoints: [
+        { type: 'pickup' as const, location: booked.pickup, requestId: booked.id, passengers: booked.passengers },
+        { type: 'dropoff' as const, location: booked.dropoff, requestId: booked.id, passengers: booked.passengers }
+      ],
+      start: booked.pickup,
+      vehicle
+    });
+
+    it('should insert a request heading the same way', async () => {
+      const booked = createMockRequest({ passengers: 1, luggage: [LuggageSize.SMALL] });
+      const request = createMockRequest({
+        pickup: { latitude: 40.7130, longitude: -74.0062 },
+        passengers: 1,
+        luggage: [LuggageSize.SMALL]
+      });
+
+      const matches = await engine.findInsertions(request, [activeRideFor(booked)]);
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0].ride.id).toBe('ride-1');
+      expect(matches[0].ride.passengers).toHaveLength(2);
+      expect(matches[0].ride.route).toHaveLength(4);
+    });
+
+    it('should not exceed the seats left in the cab', async () => {
+      const booked = createMockRequest({ passengers: 3, luggage: [] });
+      const request = createMockRequest({ passengers: 2, luggage: [] });
+
+      const matches = await engine.findInsertions(request, [activeRideFor(booked)]);
+      const [bookedInfo, newInfo] = matches[0].ride.passengers;
+
+      // Both parties cannot be on board together, so the trips must not overlap
+      const sequential = newInfo.pickupOrder > bookedInfo.dropoffOrder ||
+        newInfo.dropoffOrder < bookedInfo.pickupOrder;
+      expect(sequential).toBe(true);
+    });
+
+    it('should keep served stops first and insert after them', async () => {
+      const a = createMockRequest({ id: 'a', passengers: 1, luggage: [] });
+      const b = createMockRequest({
+        id: 'b',
+        pickup: { latitude: 40.7130, longitude: -74.0062 },
+        passengers: 1,
+        luggage: []
+      });
+      // Picked up next to the cab, so inserting it first would be cheapest
+      const request = createMockRequest({
+        id: 'new',
+        pickup: { latitude: 40.7129, longitude: -74.0061 },
+        passengers: 1,
+        luggage: []
+      });
+
+      const [match] = await engine.findInsertions(request, [{
+        id: 'ride-1',
+        cabId: 'cab-1',
+        status: RideStatus.IN_PROGRESS,
+        requests: [a, b],
+        waypoints: [
+          { type: 'pickup', location: a.pickup, requestId: 'a', passengers: 1 },
+          { type: 'pickup', location: b.pickup, requestId: 'b', passengers: 1 },
+          { type: 'dropoff', location: a.dropoff, requestId: 'a', passengers: 1 },
+          { type: 'dropoff', location: b.dropoff, requestId: 'b', passengers: 1 }
+        ],
+        start: b.pickup,
+        vehicle: { maxPassengers: 4, maxLuggage: 6 },
+        pickedUp: new Set(['a', 'b'])
+      }]);
+
+      const [infoA, infoB, infoNew] = match.ride.passengers;
+      expect(match.ride.route).toHaveLength(6);
+      expect([infoA.pickupOrder, infoB.pickupOrder]).toEqual([0, 1]);
+      expect(infoNew.pickupOrder).toBeGreaterThan(1);
+      expect(infoNew.dropoffOrder).toBeGreaterThan(infoNew.pickupOrder);
+    });
+
+    it('should count detours from the original pickup across inserts in a row', async () => {
+      const a = createMockRequest({ id: 'a', passengers: 1, luggage: [], maxDetourMinutes: 3 });
+      const b = createMockRequest({ id: 'b', pickup: { latitude: 40.7250, longitude: -74.0080 }, passengers: 1, luggage: [] });
+      const c = createMockRequest({ id: 'c', pickup: { latitude: 40.7420, longitude: -73.9990 }, passengers: 1, luggage: [] });
+      const vehicle = { maxPassengers: 4, maxLuggage: 6 };
+
+      const [first] = await engine.findInsertions(b, [{
+        ...activeRideFor(a, vehicle),
+        status: RideStatus.IN_PROGRESS,
+        pickedUp: new Set(['a']),
+        pickedUpAt: new Map([['a', new Date()]])
+      }]);
+      const [infoA] = first.ride.passengers;
+      expect(infoA.detourMinutes).toBeGreaterThan(0);
+      expect(infoA.detourMinutes).toBeLessThanOrEqual(3);
+
+      // The cab has since driven to b's pickup, taking 3 minutes
+      const moved = {
+        id: 'ride-1',
+        cabId: 'cab-1',
+        status: RideStatus.IN_PROGRESS,
+        requests: [a, b],
+        waypoints: first.ride.schedule!.map(w => ({ ...w, passengers: 1 })),
+        start: b.pickup,
+        vehicle,
+        pickedUp: new Set(['a', 'b'])
+      };
+      const threeMinutesAgo = new Date(Date.now() - 3 * 60000);
+
+      // From where the cab is, c costs a only a small detour...
+      expect(await engine.findInsertions(c, [moved])).toHaveLength(1);
+      // ...but on top of the first insert it is more than a accepts
+      expect(await engine.findInsertions(c, [{
+        ...moved,
+        pickedUpAt: new Map([['a', threeMinutesAgo], ['b', new Date()]])
+      }])).toHaveLength(0);
+    });
+  });
+
+  describe('replanRide', () => {
+    it('should route only the riders left on the ride', () => {
+      const a = createMockRequest({ id: 'a', passengers: 1, luggage: [] });
+      const b = createMockRequest({
+        id: 'b',
+        pickup: { latitude: 40.7130, longitude: -74.0062 },
+        passengers: 1,
+        luggage: []
+      });
+
+      const ride = engine.replanRide({
+        id: 'ride-1',
+        cabId: 'cab-1',
+        status: RideStatus.CONFIRMED,
+        requests: [a, b],
+        waypoints: [],
+        start: a.pickup,
+        vehicle: { maxPassengers: 4, maxLuggage: 6 }
+      });
+
+      expect(ride.id).toBe('ride-1');
+      expect(ride.passengers.map((p: any) => p.requestId)).toEqual(['a', 'b']);
+      expect(ride.route).toHaveLength(4);
+      for (const passenger of ride.passengers) {
+        expect(passenger.pickupOrder).toBeLessThan(passenger.dropoffOrder);
+      }
+    });
+
+    it('should keep served stops first and only plan what is ahead', () => {
+      const a = createMockRequest({ id: 'a', passengers: 1, luggage: [] });
+      const b = createMockRequest({
+        id: 'b',
+        pickup: { latitude: 40.7130, longitude: -74.0062 },
+        passengers: 1,
+        luggage: []
+      });
+
+      const ride = engine.replanRide({
+        id: 'ride-1',
+        cabId: 'cab-1',
+        status: RideStatus.IN_PROGRESS,
+        requests: [a, b],
+        waypoints: [
+          { type: 'pickup', location: a.pickup, requestId: 'a', passengers: 1 },
+          { type: 'pickup', location: b.pickup, requestId: 'b', passengers: 1 },
+          { type: 'dropoff', location: a.dropoff, requestId: 'a', passengers: 1 },
+          { type: 'dropoff', location: b.dropoff, requestId: 'b', passengers: 1 }
+        ],
+        start: b.pickup,
+        vehicle: { maxPassengers: 4, maxLuggage: 6 }
+      }, new Set(['a', 'b']));
+
+      const [infoA, infoB] = ride.passengers;
+      expect(ride.route).toHaveLength(4);
+      expect([infoA.pickupOrder, infoB.pickupOrder]).toEqual([0, 1]);
+      expect(ride.route[1]).toEqual(b.pickup);
+      expect(infoA.dropoffOrder).toBeGreaterThan(1);
+      expect(infoB.dropoffOrder).toBeGreaterThan(1);
+    });
+  });
+
+  describe('findBatchMatches', () => {
+    it('should pool compatible requests and leave the rest solo', async () => {
+      const a = createMockRequest({ id: 'a', passengers: 1, luggage: [LuggageSize.SMALL] });
+      const b = createMockRequest({
+        id: 'b',
+        pickup: { latitude: 40.7130, longitude: -74.0062 },
+        passengers: 1,
+        luggage: [LuggageSize.SMALL]
+      });
+      const far = createMockRequest({
+        id: 'far',
+        pickup: { latitude: 41.0, longitude: -75.0 },
+        passengers: 1,
+        luggage: [LuggageSize.SMALL]
+      });
+
+      const result = await engine.findBatchMatches([a, b, far]);
+
+      expect(result.size).toBe(3);
+      expect(result.get('a')).toBe(result.get('b'));
+      expect(result.get('a')!.ride.passengers).toHaveLength(2);
+      expect(result.get('far')!.ride.passengers).toHaveLength(1);
+    });
+
+    it('should put every request in exactly one ride', async () => {
+      const requests = Array.from({ length: 6 }, (_, i) => createMockRequest({
+        id: `r${i}`,
+        pickup: { latitude: 40.7128 + i * 0.0005, longitude: -74.0060 },
+        passengers: 1,
+        luggage: [LuggageSize.SMALL]
+      }));
+
+      const result = await engine.findBatchMatches(requests);
+      const rides = new Set(result.values());
+      const seated = [...rides].flatMap(m => m.ride.passengers.map((p: { requestId: string }) => p.requestId));
+
+      expect(seated.sort()).toEqual(requests.map(r => r.id).sort());
+    });
+
+    it('should leave out requests no vehicle can carry', async () => {
+      const a = createMockRequest({ id: 'a', passengers: 1, luggage: [LuggageSize.SMALL] });
+      const party = createMockRequest({ id: 'party', passengers: 6, luggage: [LuggageSize.SMALL] });
+
+      const result = await engine.findBatchMatches([a, party], [{ maxPassengers: 4, maxLuggage: 6 }]);
+
+      expect([...result.keys()]).toEqual(['a']);
+      expect(result.get('a')!.ride.passengers).toHaveLength(1);
+    });
+  });
 });
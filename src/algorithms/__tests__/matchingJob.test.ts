@@ -0,0 +1,78 @@
+import { advanceMatchingJob, quotesExpired } from '../matchingJob';
+import { MatchResult, MatchingJob, MatchingJobStatus } from '../../types';
+
+describe('Matching job', () => {
+  const at = new Date('2026-03-01T12:00:00Z');
+  const queued = advanceMatchingJob(null, 'req-1', { type: 'QUEUED' }, at);
+  const started = (job: MatchingJob, attempt: number) =>
+    advanceMatchingJob(job, 'req-1', { type: 'STARTED', attempt }, at);
+  const failed = (job: MatchingJob, attemptsMade: number) =>
+    advanceMatchingJob(job, 'req-1', { type: 'ATTEMPT_FAILED', attemptsMade, maxAttempts: 3, error: 'Redis down' }, at);
+
+  it('should go from queued through active to completed', () => {
+    expect(queued).toEqual({ requestId: 'req-1', status: MatchingJobStatus.QUEUED, progress: 0, attempts: 0, updatedAt: at });
+
+    const active = started(queued, 1);
+    expect(active.status).toBe(MatchingJobStatus.ACTIVE);
+    expect(active.progress).toBe(10);
+
+    const completed = advanceMatchingJob(active, 'req-1', { type: 'COMPLETED', attempt: 1, matches: [] }, at);
+    expect(completed).toMatchObject({ status: MatchingJobStatus.COMPLETED, progress: 100, attempts: 1, matches: [] });
+  });
+
+  it('should queue a failed attempt again while attempts are left', () => {
+    const retry = failed(started(queued, 1), 1);
+
+    expect(retry).toMatchObject({ status: MatchingJobStatus.QUEUED, progress: 0, attempts: 1, error: 'Redis down' });
+    expect(started(retry, 2).status).toBe(MatchingJobStatus.ACTIVE);
+  });
+
+  it('should fail the job for the dead-letter queue after the last attempt', () => {
+    const dead = failed(started(queued, 3), 3);
+
+    expect(dead).toMatchObject({ status: MatchingJobStatus.FAILED, progress: 100, attempts: 3, error: 'Redis down' });
+    // Retrying a dead letter queues it afresh
+    expect(advanceMatchingJob(dead, 'req-1', { type: 'QUEUED' }, at).attempts).toBe(0);
+  });
+
+  it('should fail a job that could not be queued, and queue it again later', () => {
+    const notQueued = advanceMatchingJob(queued, 'req-1', { type: 'ENQUEUE_FAILED', error: 'Redis down' }, at);
+
+    expect(notQueued).toMatchObject({ status: MatchingJobStatus.FAILED, progress: 100, attempts: 0, error: 'Redis down' });
+    expect(advanceMatchingJob(notQueued, 'req-1', { type: 'QUEUED' }, at).status).toBe(MatchingJobStatus.QUEUED);
+  });
+
+  it('should reject a late result for an attempt that already failed', () => {
+    const retry = failed(started(queued, 1), 1);
+
+    expect(() => advanceMatchingJob(retry, 'req-1', { type: 'COMPLETED', attempt: 1, matches: [] }, at))
+      .toThrow('Cannot move matching job from QUEUED to COMPLETED');
+  });
+
+  it('should carry on a job whose record has expired', () => {
+    expect(advanceMatchingJob(null, 'req-1', { type: 'STARTED', attempt: 2 }, at).status).toBe(MatchingJobStatus.ACTIVE);
+  });
+
+  it('should keep the promo code through every attempt', () => {
+    const withPromo = advanceMatchingJob(null, 'req-1', { type: 'QUEUED', promoCode: 'SAVE10' }, at);
+
+    expect(failed(started(withPromo, 1), 1).promoCode).toBe('SAVE10');
+  });
+
+  describe('quotesExpired', () => {
+    const quoted = (expiresAt: Date) => ({ quote: { expiresAt } } as MatchResult);
+    const completed = (matches: MatchResult[]) =>
+      advanceMatchingJob(started(queued, 1), 'req-1', { type: 'COMPLETED', attempt: 1, matches }, at);
+    const later = new Date(at.getTime() + 5 * 60000);
+
+    it('should hold once every quote has expired', () => {
+      expect(quotesExpired(completed([quoted(at), quoted(at)]), later)).toBe(true);
+      expect(quotesExpired(completed([quoted(at), quoted(new Date(later.getTime() + 1))]), later)).toBe(false);
+    });
+
+    it('should not hold for a job without rides to book', () => {
+      expect(quotesExpired(completed([]), later)).toBe(false);
+      expect(quotesExpired(queued, later)).toBe(false);
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { PricingEngine } from '../pricing';
+import { defaultTariff } from '../../config/pricing';
 
 describe('PricingEngine', () => {
   let engine: PricingEngine;
@@ -15,7 +16,7 @@ describe('PricingEngine', () => {
         passengers: 1,
         surgeFactor: 1.0,
         timeOfDay: 12
-      });
+      }).finalFare;
 
       expect(fare).toBeGreaterThan(0);
       expect(fare).toBeGreaterThanOrEqual(8.0); // Minimum fare
@@ -28,7 +29,7 @@ describe('PricingEngine', () => {
         passengers: 1,
         surgeFactor: 1.0,
         timeOfDay: 12
-      });
+      }).finalFare;
 
       const surgeFare = engine.calculateFare({
         baseDistance: 10,
@@ -36,7 +37,7 @@ describe('PricingEngine', () => {
         passengers: 1,
         surgeFactor: 2.0,
         timeOfDay: 12
-      });
+      }).finalFare;
 
       expect(surgeFare).toBeGreaterThan(normalFare);
       expect(surgeFare).toBeCloseTo(normalFare * 2, 0);
@@ -49,7 +50,7 @@ describe('PricingEngine', () => {
         passengers: 1,
         surgeFactor: 1.0,
         timeOfDay: 12
-      });
+      }).finalFare;
 
       const pooledFare = engine.calculateFare({
         baseDistance: 10,
@@ -57,7 +58,7 @@ describe('PricingEngine', () => {
         passengers: 4,
         surgeFactor: 1.0,
         timeOfDay: 12
-      });
+      }).finalFare;
 
       expect(pooledFare).toBeLessThan(soloFare);
     });
@@ -69,7 +70,7 @@ describe('PricingEngine', () => {
         passengers: 1,
         surgeFactor: 1.0,
         timeOfDay: 12
-      });
+      }).finalFare;
 
       const peakFare = engine.calculateFare({
         baseDistance: 10,
@@ -77,7 +78,7 @@ describe('PricingEngine', () => {
         passengers: 1,
         surgeFactor: 1.0,
         timeOfDay: 8 // Peak morning hour
-      });
+      }).finalFare;
 
       expect(peakFare).toBeGreaterThan(normalFare);
     });
@@ -89,10 +90,131 @@ describe('PricingEngine', () => {
         passengers: 4,
         surgeFactor: 1.0,
         timeOfDay: 12
-      });
+      }).finalFare;
 
       expect(fare).toBeGreaterThanOrEqual(8.0);
     });
+
+    it('should itemise every step so the items add up to the fare', () => {
+      const breakdown = engine.calculateFare({
+        baseDistance: 10,
+        actualDistance: 10,
+        passengers: 2,
+        surgeFactor: 1.5,
+        timeOfDay: 8,
+        totalPassengersInRide: 3
+      });
+
+      expect(breakdown.baseFare).toBe(10);
+      expect(breakdown.distanceFare).toBe(50);
+      expect(breakdown.surgeCharge).toBe(30);
+      expect(breakdown.timeMultiplier).toBe(1.5);
+      expect(breakdown.timeCharge).toBe(45);
+      expect(breakdown.poolingDiscountRate).toBe(0.3);
+      expect(breakdown.poolingDiscount).toBe(40.5);
+      expect(breakdown.minimumFareAdjustment).toBe(0);
+      expect(breakdown.finalFare).toBeCloseTo(
+        breakdown.baseFare + breakdown.distanceFare + breakdown.surgeCharge +
+        breakdown.timeCharge - breakdown.poolingDiscount + breakdown.minimumFareAdjustment,
+        2
+      );
+    });
+
+    it('should show the minimum fare top-up as its own item', () => {
+      const breakdown = engine.calculateFare({
+        baseDistance: 0.1,
+        actualDistance: 0.1,
+        passengers: 1,
+        surgeFactor: 1.0,
+        timeOfDay: 12
+      });
+
+      expect(breakdown.minimumFareAdjustment).toBeCloseTo(8 - 5.25, 2);
+      expect(breakdown.finalFare).toBe(8);
+    });
+
+    it('should price with the rates of the tariff passed in', () => {
+      const tariff = {
+        version: '2026-11',
+        effectiveFrom: new Date('2026-11-01T00:00:00Z'),
+        baseFare: 4,
+        ratePerKm: 3,
+        minFare: 10,
+        timeMultipliers: [{ startHour: 22, endHour: 6, multiplier: 1.2 }],
+        poolingDiscounts: [0, 0.25]
+      };
+      const fare = (timeOfDay: number, totalPassengersInRide: number) => engine.calculateFare({
+        baseDistance: 10,
+        actualDistance: 10,
+        passengers: 1,
+        surgeFactor: 1.0,
+        timeOfDay,
+        totalPassengersInRide,
+        tariff
+      });
+
+      const daytime = fare(12, 1);
+      expect(daytime.tariffVersion).toBe('2026-11');
+      expect(daytime.baseFare).toBe(4);
+      expect(daytime.distanceFare).toBe(30);
+      expect(daytime.timeMultiplier).toBe(1.0);
+
+      // Window wraps past midnight; the last discount covers larger rides
+      expect(fare(2, 1).timeMultiplier).toBe(1.2);
+      expect(fare(12, 4).poolingDiscountRate).toBe(0.25);
+    });
+  });
+
+  describe('rediscountFare', () => {
+    const booked = () => engine.calculateFare({
+      baseDistance: 10,
+      actualDistance: 10,
+      passengers: 1,
+      surgeFactor: 1.5,
+      timeOfDay: 8,
+      totalPassengersInRide: 2
+    });
+
+    it('should only recompute the pooling discount for the new ride size', () => {
+      const original = booked();
+
+      const rediscounted = engine.rediscountFare(original, 3, defaultTariff);
+      const repriced = engine.calculateFare({
+        baseDistance: 10,
+        actualDistance: 10,
+        passengers: 1,
+        surgeFactor: 1.5,
+        timeOfDay: 8,
+        totalPassengersInRide: 3
+      });
+
+      expect(rediscounted.surgeCharge).toBe(original.surgeCharge);
+      expect(rediscounted.timeCharge).toBe(original.timeCharge);
+      expect(rediscounted.finalFare).toBe(repriced.finalFare);
+      expect(rediscounted.finalFare).toBeLessThan(original.finalFare);
+    });
+
+    it('should keep the booked charges under a different tariff', () => {
+      const original = booked();
+      const tariff = {
+        version: '2026-11',
+        effectiveFrom: new Date('2026-11-01T00:00:00Z'),
+        baseFare: 40,
+        ratePerKm: 30,
+        minFare: 0,
+        timeMultipliers: [],
+        poolingDiscounts: [0, 0.2]
+      };
+
+      const rediscounted = engine.rediscountFare({ ...original, promoCode: 'SAVE', promoDiscount: 2 }, 2, tariff);
+
+      expect(rediscounted.baseFare).toBe(original.baseFare);
+      expect(rediscounted.distanceFare).toBe(original.distanceFare);
+      expect(rediscounted.promoDiscount).toBe(0);
+      expect(rediscounted.finalFare).toBeCloseTo(
+        (original.baseFare + original.distanceFare + original.surgeCharge + original.timeCharge) * 0.8, 2
+      );
+    });
   });
 
   describe('calculateSurgeFactor', () => {
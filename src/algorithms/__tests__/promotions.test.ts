@@ -0,0 +1,95 @@
+import { checkEligible, checkRedeemable, calculatePromoDiscount, withPromoDiscount } from '../promotions';
+import { PricingEngine } from '../pricing';
+import { DiscountType, Promotion } from '../../types';
+
+describe('Promotions', () => {
+  const promotion = (overrides: Partial<Promotion> = {}): Promotion => ({
+    code: 'FIRSTRIDE',
+    description: null,
+    discountType: DiscountType.PERCENTAGE,
+    amount: 50,
+    maxDiscount: null,
+    perUserLimit: null,
+    globalLimit: null,
+    redemptionCount: 0,
+    validFrom: new Date('2026-01-01T00:00:00Z'),
+    validTo: null,
+    pooledOnly: false,
+    area: null,
+    ...overrides
+  });
+
+  const at = new Date('2026-03-01T12:00:00Z');
+  const airport = { latitude: 28.55, longitude: 77.10 };
+  const downtown = { latitude: 28.63, longitude: 77.22 };
+  const trip = { pickup: downtown, dropoff: downtown, pooled: false };
+
+  describe('checkRedeemable', () => {
+    it('should enforce the validity window', () => {
+      expect(checkRedeemable(promotion(), 0, at)).toBeNull();
+      expect(checkRedeemable(promotion({ validFrom: new Date('2026-04-01T00:00:00Z') }), 0, at)).toContain('not valid until');
+      expect(checkRedeemable(promotion({ validTo: at }), 0, at)).toContain('expired');
+    });
+
+    it('should enforce global and per-user limits', () => {
+      expect(checkRedeemable(promotion({ globalLimit: 100, redemptionCount: 100 }), 0, at)).toContain('fully redeemed');
+      expect(checkRedeemable(promotion({ perUserLimit: 1 }), 1, at)).toContain('maximum number of times');
+      expect(checkRedeemable(promotion({ perUserLimit: 2 }), 1, at)).toBeNull();
+    });
+  });
+
+  describe('checkEligible', () => {
+    it('should restrict pooled-only codes to shared rides', () => {
+      const pooledOnly = promotion({ pooledOnly: true });
+
+      expect(checkEligible(pooledOnly, trip, 0, at)).toContain('shared rides');
+      expect(checkEligible(pooledOnly, { ...trip, pooled: true }, 0, at)).toBeNull();
+    });
+
+    it('should apply area codes to trips starting or ending in the area', () => {
+      const airportOnly = promotion({
+        area: [
+          { latitude: 28.53, longitude: 77.07 },
+          { latitude: 28.53, longitude: 77.12 },
+          { latitude: 28.58, longitude: 77.12 },
+          { latitude: 28.58, longitude: 77.07 }
+        ]
+      });
+
+      expect(checkEligible(airportOnly, trip, 0, at)).toContain('area');
+      expect(checkEligible(airportOnly, { ...trip, pickup: airport }, 0, at)).toBeNull();
+      expect(checkEligible(airportOnly, { ...trip, dropoff: airport }, 0, at)).toBeNull();
+    });
+  });
+
+  describe('calculatePromoDiscount', () => {
+    it('should cap percentage discounts at maxDiscount', () => {
+      expect(calculatePromoDiscount(promotion(), 30)).toBe(15);
+      expect(calculatePromoDiscount(promotion({ maxDiscount: 10 }), 30)).toBe(10);
+    });
+
+    it('should never discount more than the fare', () => {
+      expect(calculatePromoDiscount(promotion({ discountType: DiscountType.FIXED, amount: 20 }), 12.5)).toBe(12.5);
+    });
+  });
+
+  describe('withPromoDiscount', () => {
+    it('should deduct the discount as its own item', () => {
+      const breakdown = new PricingEngine().calculateFare({
+        baseDistance: 10,
+        actualDistance: 10,
+        passengers: 1,
+        surgeFactor: 1.0,
+        timeOfDay: 12
+      });
+      const discounted = withPromoDiscount(breakdown, 'FIRSTRIDE', 7.5);
+
+      expect(discounted.promoCode).toBe('FIRSTRIDE');
+      expect(discounted.promoDiscount).toBe(7.5);
+      expect(discounted.finalFare).toBe(breakdown.finalFare - 7.5);
+
+      // Reapplying replaces the earlier discount instead of stacking
+      expect(withPromoDiscount(discounted, 'FIRSTRIDE', 5).finalFare).toBe(breakdown.finalFare - 5);
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { allowedTransitions, assertTransition, canTransition } from '../rideState';
+import { RideStatus } from '../../types';
+
+describe('Ride state machine', () => {
+  it('should follow the ride lifecycle', () => {
+    expect(canTransition('RIDE', RideStatus.CONFIRMED, RideStatus.IN_PROGRESS)).toBe(true);
+    expect(canTransition('RIDE', RideStatus.IN_PROGRESS, RideStatus.COMPLETED)).toBe(true);
+    expect(canTransition('RIDE', RideStatus.CONFIRMED, RideStatus.CANCELLED)).toBe(true);
+  });
+
+  it('should not complete a ride that never started', () => {
+    expect(canTransition('RIDE', RideStatus.CONFIRMED, RideStatus.COMPLETED)).toBe(false);
+    expect(() => assertTransition('RIDE', RideStatus.CONFIRMED, RideStatus.COMPLETED))
+      .toThrow('Cannot move ride from CONFIRMED to COMPLETED');
+  });
+
+  it('should not cancel a ride in progress', () => {
+    expect(canTransition('RIDE', RideStatus.IN_PROGRESS, RideStatus.CANCELLED)).toBe(false);
+  });
+
+  it('should treat completed and cancelled as final', () => {
+    for (const entity of ['RIDE', 'REQUEST'] as const) {
+      expect(allowedTransitions(entity, RideStatus.COMPLETED)).toEqual([]);
+      expect(allowedTransitions(entity, RideStatus.CANCELLED)).toEqual([]);
+    }
+  });
+
+  it('should send requests of a cancelled ride back to PENDING', () => {
+    expect(canTransition('REQUEST', RideStatus.CONFIRMED, RideStatus.PENDING)).toBe(true);
+    expect(canTransition('RIDE', RideStatus.CONFIRMED, RideStatus.PENDING)).toBe(false);
+    expect(() => assertTransition('REQUEST', RideStatus.PENDING, RideStatus.COMPLETED))
+      .toThrow('Cannot move request from PENDING to COMPLETED');
+  });
+});
@@ -0,0 +1,252 @@
+import { optimizeRoute, optimizeRouteDynamic, optimizeRouteExhaustive, optimizeRouteHeuristic, computeSchedule } from '../routing';
+import { calculateRouteDistance } from '../distance';
+import { setTravelTimeModel, SpeedProfileModel, TravelTimeModel } from '../travelTime';
+import { RideRequest, RideStatus, LuggageSize } from '../../types';
+
+describe('Route optimization', () => {
+  // Deterministic pseudo-random generator so failures are reproducible
+  const createRandom = (seed: number) => () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+
+  const createRequests = (count: number, seed: number, passengers = 1): RideRequest[] => {
+    const random = createRandom(seed);
+    return Array.from({ length: count }, (_, i) => ({
+      id: `req-${i}`,
+      userId: `user-${i}`,
+      pickup: { latitude: 40.64 + random() * 0.05, longitude: -73.78 + random() * 0.05 },
+      dropoff: { latitude: 40.70 + random() * 0.1, longitude: -74.0 + random() * 0.1 },
+      requestedAt: new Date(),
+      earliestPickupAt: new Date(),
+      latestPickupAt: new Date(Date.now() + 60 * 60000),
+      passengers,
+      luggage: [LuggageSize.SMALL],
+      maxDetourMinutes: 15,
+      status: RideStatus.PENDING,
+      version: 1
+    }));
+  };
+
+  const expectPickupsBeforeDropoffs = (requests: RideRequest[], waypoints: { type: string; requestId: string }[]) => {
+    expect(waypoints).toHaveLength(requests.length * 2);
+    for (const request of requests) {
+      const pickupIdx = waypoints.findIndex(w => w.type === 'pickup' && w.requestId === request.id);
+      const dropoffIdx = waypoints.findIndex(w => w.type === 'dropoff' && w.requestId === request.id);
+      expect(pickupIdx).toBeGreaterThanOrEqual(0);
+      expect(dropoffIdx).toBeGreaterThan(pickupIdx);
+    }
+  };
+
+  const maxLoad = (waypoints: { type: string; passengers: number }[]) => {
+    let load = 0;
+    let max = 0;
+    for (const wp of waypoints) {
+      load += wp.type === 'pickup' ? wp.passengers : -wp.passengers;
+      max = Math.max(max, load);
+    }
+    return max;
+  };
+
+  describe('optimizeRouteDynamic', () => {
+    it('should match exhaustive search on small groups', () => {
+      for (let count = 2; count <= 4; count++) {
+        for (let seed = 1; seed <= 5; seed++) {
+          const requests = createRequests(count, seed * 31 + count);
+
+          const dp = optimizeRouteDynamic(requests);
+          const exhaustive = optimizeRouteExhaustive(requests);
+
+          expect(dp.totalDistance).toBeCloseTo(exhaustive.totalDistance, 9);
+        }
+      }
+    });
+
+    it('should keep each pickup before its dropoff', () => {
+      const requests = createRequests(5, 7);
+      const route = optimizeRouteDynamic(requests);
+
+      expectPickupsBeforeDropoffs(requests, route.waypoints);
+    });
+
+    it('should report the distance of the returned sequence', () => {
+      const requests = createRequests(3, 11);
+      const route = optimizeRouteDynamic(requests);
+
+      expect(route.totalDistance).toBeCloseTo(calculateRouteDistance(route.waypoints.map(w => w.location)), 9);
+    });
+  });
+
+  describe('optimizeRouteDynamic with capacity', () => {
+    it('should never carry more passengers than the cab holds', () => {
+      const requests = createRequests(4, 5, 2);
+      const route = optimizeRouteDynamic(requests, { capacity: 4 });
+
+      expectPickupsBeforeDropoffs(requests, route.waypoints);
+      expect(maxLoad(route.waypoints)).toBeLessThanOrEqual(4);
+    });
+  });
+
+  describe('optimizeRouteHeuristic', () => {
+    it('should keep precedence and capacity on large groups', () => {
+      const requests = createRequests(12, 17, 2);
+      const route = optimizeRouteHeuristic(requests, { capacity: 8 });
+
+      expectPickupsBeforeDropoffs(requests, route.waypoints);
+      expect(maxLoad(route.waypoints)).toBeLessThanOrEqual(8);
+    });
+
+    it('should stay close to the exact optimum', () => {
+      for (let seed = 1; seed <= 5; seed++) {
+        const requests = createRequests(5, seed * 13);
+
+        const heuristic = optimizeRouteHeuristic(requests);
+        const exact = optimizeRouteDynamic(requests);
+
+        expect(heuristic.totalDistance).toBeGreaterThanOrEqual(exact.totalDistance - 1e-9);
+        expect(heuristic.totalDistance).toBeLessThanOrEqual(exact.totalDistance * 1.2);
+      }
+    });
+
+    it('should start from the pickup nearest the cab', () => {
+      const requests = createRequests(8, 23);
+      const start = requests[5].pickup;
+
+      const route = optimizeRouteHeuristic(requests, { start });
+
+      expect(route.waypoints[0].requestId).toBe('req-5');
+      expect(route.waypoints[0].type).toBe('pickup');
+    });
+  });
+
+  describe('optimizeRoute', () => {
+    it('should solve seven requests exactly', () => {
+      const requests = createRequests(7, 3);
+      const route = optimizeRoute(requests);
+
+      expectPickupsBeforeDropoffs(requests, route.waypoints);
+      expect(route.totalDistance).toBeCloseTo(optimizeRouteDynamic(requests).totalDistance, 9);
+    });
+  });
+
+  describe('pickup time windows', () => {
+    const departureTime = new Date('2026-01-01T10:00:00Z');
+    const at = (minutes: number) => new Date(departureTime.getTime() + minutes * 60000);
+
+    it('should wait for a rider whose window has not opened', () => {
+      const [now, later] = createRequests(2, 41);
+      later.earliestPickupAt = at(30);
+      later.latestPickupAt = at(45);
+      now.earliestPickupAt = at(0);
+      now.latestPickupAt = at(60);
+
+      const route = optimizeRoute([now, later], { departureTime });
+      const laterPickup = route.waypoints.find(w => w.type === 'pickup' && w.requestId === later.id)!;
+
+      expect(laterPickup.scheduledAt!.getTime()).toBeGreaterThanOrEqual(at(30).getTime());
+      route.waypoints.forEach(w => expect(w.scheduledAt).toBeDefined());
+    });
+
+    it('should order pickups so every window is met', () => {
+      const [first, second] = createRequests(2, 43);
+      first.earliestPickupAt = at(0);
+      first.latestPickupAt = at(5);
+      second.earliestPickupAt = at(0);
+      second.latestPickupAt = at(120);
+
+      const route = optimizeRouteDynamic([second, first], { departureTime });
+
+      expect(route.waypoints[0].requestId).toBe(first.id);
+      expect(computeSchedule(route.waypoints, { departureTime })).not.toBeNull();
+    });
+
+    it('should keep a longer path that arrives in time for a later window', () => {
+      // Stops are numbered by latitude; every leg is 1 km and 100 minutes unless listed
+      const [S, PA, DA, PB, DB, PC, DC] = [0, 1, 2, 3, 4, 5, 6];
+      const legs: Record<string, { km: number; minutes: number }> = {
+        [`${S}-${PA}`]: { km: 1, minutes: 1 },
+        [`${S}-${PB}`]: { km: 1, minutes: 1 },
+        [`${PA}-${PB}`]: { km: 1, minutes: 1 },
+        [`${PB}-${PA}`]: { km: 1, minutes: 1 },
+        [`${PA}-${DA}`]: { km: 1, minutes: 20 }, // Short but slow
+        [`${PB}-${DA}`]: { km: 5, minutes: 2 }, // Long but fast
+        [`${DA}-${PC}`]: { km: 1, minutes: 1 }
+      };
+      const leg = (from: { latitude: number }, to: { latitude: number }) =>
+        legs[`${from.latitude}-${to.latitude}`] ?? { km: 1, minutes: 100 };
+      const model: TravelTimeModel = {
+        name: 'constant',
+        distance: (from, to) => leg(from, to).km,
+        travelTime: (from, to) => leg(from, to).minutes
+      };
+
+      const stop = (index: number) => ({ latitude: index, longitude: 0 });
+      const [a, b, c] = createRequests(3, 53);
+      a.pickup = stop(PA);
+      a.dropoff = stop(DA);
+      b.pickup = stop(PB);
+      b.dropoff = stop(DB);
+      c.pickup = stop(PC);
+      c.dropoff = stop(DC);
+      a.earliestPickupAt = b.earliestPickupAt = c.earliestPickupAt = at(0);
+      a.latestPickupAt = at(5);
+      b.latestPickupAt = at(5);
+      c.latestPickupAt = at(10);
+
+      setTravelTimeModel(model);
+      try {
+        const options = { departureTime, start: stop(S) };
+        const route = optimizeRouteDynamic([a, b, c], options);
+
+        // Shortest into (A, B, A's dropoff) is B, A, A's dropoff, which misses C's window
+        expect(route.waypoints.slice(0, 4).map(w => w.location.latitude)).toEqual([PA, PB, DA, PC]);
+        expect(computeSchedule(route.waypoints, options)).not.toBeNull();
+      } finally {
+        setTravelTimeModel(null);
+      }
+    });
+
+    it('should time each leg by when it starts, not by the departure', () => {
+      // Free-flowing at 60 km/h until 11:00, then a jam at 10 km/h
+      const hourlySpeedsKmh = Array.from({ length: 24 }, (_, hour) => (hour === 11 ? 10 : 60));
+      const model = new SpeedProfileModel({ defaultHourlySpeedsKmh: hourlySpeedsKmh, zones: [] });
+      const departure = new Date(2026, 0, 1, 10, 58);
+      const minutesAfter = (minutes: number) => new Date(departure.getTime() + minutes * 60000);
+
+      // Stops on a line north of the cab, placed by km
+      const km = (distance: number) => ({ latitude: 40 + distance / 111.195, longitude: -74 });
+      const [a, b] = createRequests(2, 59);
+      a.pickup = km(3);
+      a.dropoff = km(20);
+      b.pickup = km(8);
+      b.dropoff = km(21);
+      a.earliestPickupAt = b.earliestPickupAt = departure;
+      a.latestPickupAt = minutesAfter(60);
+      // Going to b first meets it at 11:06. Going to a first reaches a at 11:01,
+      // in the jam, so b's 5 km take 30 min; at the departure's speed they would take 5
+      b.latestPickupAt = minutesAfter(12);
+
+      setTravelTimeModel(model);
+      try {
+        const options = { departureTime: departure, start: km(0) };
+        const route = optimizeRouteDynamic([a, b], options);
+
+        expect(route.waypoints[0].requestId).toBe(b.id);
+        expect(computeSchedule(route.waypoints, options)).not.toBeNull();
+      } finally {
+        setTravelTimeModel(null);
+      }
+    });
+
+    it('should report a missed window as infeasible', () => {
+      const [request] = createRequests(1, 47);
+      request.earliestPickupAt = at(0);
+      request.latestPickupAt = at(5);
+
+      const route = optimizeRoute([request], { departureTime });
+      const start = { latitude: request.pickup.latitude + 0.5, longitude: request.pickup.longitude };
+
+      expect(computeSchedule(route.waypoints, { departureTime, start })).toBeNull();
+    });
+  });
+});
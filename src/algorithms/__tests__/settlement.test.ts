@@ -0,0 +1,72 @@
+import { measureBookingTrip, plannedBookingTrip, settleFare } from '../settlement';
+import { calculateDistance } from '../distance';
+
+describe('Fare settlement', () => {
+  const policy = { tolerance: 0.2, distanceWeight: 0.7 };
+  const estimated = { distanceKm: 10, durationMinutes: 20 };
+  const quote = { fare: 30, baseFare: 5, promoDiscount: 0, flatFare: false };
+
+  it('should keep the quote when the trip matches the estimate', () => {
+    expect(settleFare(quote, estimated, { distanceKm: 10, durationMinutes: 20 }, policy))
+      .toEqual({ finalFare: 30, capped: false });
+  });
+
+  it('should keep the quote when nothing was measured', () => {
+    expect(settleFare(quote, estimated, { distanceKm: null, durationMinutes: null }, policy).finalFare).toBe(30);
+  });
+
+  it('should scale the metered part by the weighted distance and duration ratios', () => {
+    // factor = 0.7 × 1.1 + 0.3 × 1.0 = 1.07; 25 metered × 0.07 = 1.75
+    const settled = settleFare(quote, estimated, { distanceKm: 11, durationMinutes: 20 }, policy);
+    expect(settled.finalFare).toBe(31.75);
+    expect(settled.capped).toBe(false);
+
+    // Shorter and quicker trips pay less
+    expect(settleFare(quote, estimated, { distanceKm: 9, durationMinutes: 18 }, policy).finalFare).toBe(27.5);
+  });
+
+  it('should bound the adjustment by the tolerance', () => {
+    expect(settleFare(quote, estimated, { distanceKm: 30, durationMinutes: 60 }, policy))
+      .toEqual({ finalFare: 36, capped: true });
+    expect(settleFare(quote, estimated, { distanceKm: 1, durationMinutes: 2 }, policy))
+      .toEqual({ finalFare: 24, capped: true });
+  });
+
+  it('should not settle flat fares', () => {
+    expect(settleFare({ ...quote, flatFare: true }, estimated, { distanceKm: 20, durationMinutes: 40 }, policy).finalFare)
+      .toBe(30);
+  });
+
+  it('should deduct the redeemed promo discount from the settled fare', () => {
+    // Fare before promo 35, metered 30, factor 1.07 → 37.10 less the 5 discount
+    const settled = settleFare({ ...quote, promoDiscount: 5 }, estimated, { distanceKm: 11, durationMinutes: 20 }, policy);
+    expect(settled.finalFare).toBe(32.1);
+  });
+
+  describe('per-booking measurement', () => {
+    const at = (minutes: number) => new Date(Date.UTC(2026, 0, 1, 10, minutes));
+    const point = (latitude: number, minutes: number) => ({ location: { latitude, longitude: 0 }, recordedAt: at(minutes) });
+    // The cab drives north 0.01° a minute, first to the pickup at 40.05
+    const trail = Array.from({ length: 16 }, (_, i) => point(40 + i * 0.01, i));
+
+    it('should measure only the locations reported while the rider was on board', () => {
+      const measured = measureBookingTrip(trail, at(5), at(10));
+
+      const onBoard = calculateDistance({ latitude: 40.05, longitude: 0 }, { latitude: 40.1, longitude: 0 });
+      expect(measured.distanceKm).toBeCloseTo(onBoard, 3);
+      expect(measured.durationMinutes).toBe(5);
+    });
+
+    it('should measure nothing before the pickup is recorded', () => {
+      expect(measureBookingTrip(trail, null, at(10))).toEqual({ distanceKm: null, durationMinutes: null });
+    });
+
+    it('should plan only the legs between the booking\'s stops', () => {
+      const route = [40, 40.01, 40.03, 40.06].map(latitude => ({ latitude, longitude: 0 }));
+
+      const planned = plannedBookingTrip(route, 1, 3);
+
+      expect(planned.distanceKm).toBeCloseTo(calculateDistance(route[1], route[3]), 6);
+    });
+  });
+});
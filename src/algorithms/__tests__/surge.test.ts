@@ -0,0 +1,54 @@
+import { buildSurgeMap, zoneIdOf } from '../surge';
+import { PricingEngine } from '../pricing';
+
+describe('Zone-based surge', () => {
+  const engine = new PricingEngine();
+  const calculateSurge = (demand: number, supply: number) => engine.calculateSurgeFactor(demand, supply);
+  const options = { cellSizeKm: 2, neighbourWeight: 0.5 };
+
+  // Two terminals ~20km apart
+  const terminal1 = { latitude: 28.5562, longitude: 77.1000 };
+  const terminal2 = { latitude: 28.7041, longitude: 77.1025 };
+
+  const repeat = <T>(item: T, count: number): T[] => Array.from({ length: count }, () => item);
+
+  it('should keep a spike at one terminal from raising prices at another', () => {
+    const surgeMap = buildSurgeMap(
+      [...repeat(terminal1, 20), ...repeat(terminal2, 2)],
+      [...repeat(terminal1, 2), ...repeat(terminal2, 5)],
+      calculateSurge,
+      options
+    );
+    const terminal2Only = buildSurgeMap(repeat(terminal2, 2), repeat(terminal2, 5), calculateSurge, options);
+
+    expect(surgeMap.factorAt(terminal1)).toBeGreaterThan(surgeMap.factorAt(terminal2));
+    expect(surgeMap.factorAt(terminal2)).toBe(terminal2Only.factorAt(terminal2));
+  });
+
+  it('should price zones far from any demand at 1.0', () => {
+    const surgeMap = buildSurgeMap(repeat(terminal1, 20), [], calculateSurge, options);
+
+    expect(surgeMap.factorAt({ latitude: 28.9, longitude: 77.5 })).toBe(1.0);
+  });
+
+  it('should count supply in neighbouring zones', () => {
+    const cellDegrees = options.cellSizeKm / 111;
+    const nextDoor = { latitude: terminal1.latitude + cellDegrees, longitude: terminal1.longitude };
+    expect(zoneIdOf(nextDoor, options.cellSizeKm)).not.toBe(zoneIdOf(terminal1, options.cellSizeKm));
+
+    const alone = buildSurgeMap(repeat(terminal1, 4), [], calculateSurge, options);
+    const helped = buildSurgeMap(repeat(terminal1, 4), repeat(nextDoor, 8), calculateSurge, options);
+
+    expect(helped.factorAt(terminal1)).toBeLessThan(alone.factorAt(terminal1));
+  });
+
+  it('should list the demand and supply of each zone', () => {
+    const surgeMap = buildSurgeMap(repeat(terminal1, 3), repeat(terminal1, 1), calculateSurge, options);
+    const zone = surgeMap.zones.find(z => z.zoneId === zoneIdOf(terminal1, options.cellSizeKm))!;
+
+    expect(zone.demand).toBe(3);
+    expect(zone.supply).toBe(1);
+    expect(terminal1.latitude).toBeGreaterThanOrEqual(zone.bounds.minLat);
+    expect(terminal1.latitude).toBeLessThan(zone.bounds.maxLat);
+  });
+});
@@ -0,0 +1,103 @@
+import { TariffRuleBook, TariffRuleSet } from '../tariff';
+import { PricingEngine } from '../pricing';
+
+describe('Geofenced tariff rules', () => {
+  const square = (lat: number, lng: number, size: number) => [
+    { latitude: lat, longitude: lng },
+    { latitude: lat, longitude: lng + size },
+    { latitude: lat + size, longitude: lng + size },
+    { latitude: lat + size, longitude: lng }
+  ];
+
+  const airport = { latitude: 28.55, longitude: 77.10 };
+  const downtown = { latitude: 28.63, longitude: 77.22 };
+  const suburb = { latitude: 28.70, longitude: 77.40 };
+
+  const ruleSet: TariffRuleSet = {
+    version: '2026-01',
+    effectiveFrom: '2026-01-01T00:00:00Z',
+    zones: {
+      airport: square(28.53, 77.07, 0.05),
+      downtown: square(28.61, 77.19, 0.05)
+    },
+    rules: [
+      { name: 'Airport flat fare', type: 'flatFare', pickupZone: 'airport', dropoffZone: 'downtown', bidirectional: true, amount: 45 },
+      { name: 'Airport pickup fee', type: 'surcharge', pickupZone: 'airport', amount: 3.5 },
+      { name: 'Airport cap', type: 'cap', pickupZone: 'airport', amount: 30 }
+    ]
+  };
+
+  const quotedAt = new Date('2026-03-01T12:00:00Z');
+  const ruleBook = new TariffRuleBook([ruleSet]);
+
+  const fare = (pickup: typeof airport, dropoff: typeof airport, actualDistance: number) =>
+    new PricingEngine(ruleBook).calculateFare({
+      baseDistance: actualDistance,
+      actualDistance,
+      passengers: 1,
+      surgeFactor: 1.0,
+      timeOfDay: 12,
+      pickup,
+      dropoff,
+      quotedAt
+    });
+
+  it('should replace the metered fare with a flat fare in both directions', () => {
+    const toDowntown = ruleBook.match(airport, downtown, quotedAt)!;
+    const toAirport = ruleBook.match(downtown, airport, quotedAt)!;
+
+    expect(toDowntown.flatFare?.name).toBe('Airport flat fare');
+    expect(toAirport.flatFare?.name).toBe('Airport flat fare');
+    expect(toAirport.surcharges).toHaveLength(0);
+  });
+
+  it('should only apply rules whose zones contain the trip', () => {
+    const match = ruleBook.match(suburb, downtown, quotedAt)!;
+
+    expect(match.flatFare).toBeNull();
+    expect(match.surcharges).toHaveLength(0);
+    expect(match.cap).toBeNull();
+  });
+
+  it('should apply the rule set in effect at quote time', () => {
+    const book = new TariffRuleBook([
+      ruleSet,
+      { ...ruleSet, version: '2026-06', effectiveFrom: '2026-06-01T00:00:00Z', rules: [] }
+    ]);
+
+    expect(book.match(airport, downtown, quotedAt)!.version).toBe('2026-01');
+    expect(book.match(airport, downtown, new Date('2026-07-01T00:00:00Z'))!.version).toBe('2026-06');
+    expect(book.match(airport, downtown, new Date('2025-12-31T00:00:00Z'))).toBeNull();
+  });
+
+  it('should itemise flat fare, cap and surcharge so they add up', () => {
+    const flat = fare(airport, downtown, 20); // Metered 55, flat 45, cap 30
+    expect(flat.tariffRulesVersion).toBe('2026-01');
+    expect(flat.flatFareAdjustment).toBe(-10);
+    expect(flat.capAdjustment).toBe(-15);
+    expect(flat.surcharges).toEqual([{ name: 'Airport pickup fee', amount: 3.5 }]);
+    expect(flat.finalFare).toBe(33.5);
+
+    const itemised = flat.baseFare + flat.distanceFare + flat.surgeCharge + flat.timeCharge +
+      flat.flatFareAdjustment + flat.capAdjustment +
+      flat.surcharges.reduce((sum, s) => sum + s.amount, 0) -
+      flat.poolingDiscount + flat.minimumFareAdjustment;
+    expect(itemised).toBeCloseTo(flat.finalFare, 2);
+  });
+
+  it('should leave trips outside every zone metered', () => {
+    const metered = fare(suburb, downtown, 10);
+
+    expect(metered.flatFareAdjustment).toBe(0);
+    expect(metered.capAdjustment).toBe(0);
+    expect(metered.surcharges).toEqual([]);
+    expect(metered.finalFare).toBe(30);
+  });
+
+  it('should reject rules that reference unknown zones', () => {
+    expect(() => new TariffRuleBook([{
+      ...ruleSet,
+      rules: [{ name: 'Bad', type: 'surcharge', pickupZone: 'stadium', amount: 2 }]
+    }])).toThrow('unknown zone');
+  });
+});
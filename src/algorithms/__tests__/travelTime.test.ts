@@ -0,0 +1,155 @@
+import { ConstantSpeedModel, SpeedProfileModel, createTravelTimeModel, getTravelTimeModel, setTravelTimeModel } from '../travelTime';
+import { RoadNetworkModel } from '../roadNetwork';
+import { optimizeRoute } from '../routing';
+import { calculateDistance } from '../distance';
+import { RideRequest, RideStatus, LuggageSize } from '../../types';
+
+describe('Travel-time models', () => {
+  const origin = { latitude: 40.70, longitude: -74.00 };
+  const destination = { latitude: 40.70, longitude: -73.90 };
+
+  const hourly = (offPeak: number, rushHour: number) =>
+    Array.from({ length: 24 }, (_, hour) => (hour >= 7 && hour <= 9) || (hour >= 17 && hour <= 19) ? rushHour : offPeak);
+
+  const at = (hour: number) => new Date(2024, 0, 15, hour, 0, 0);
+
+  afterEach(() => {
+    setTravelTimeModel(null);
+  });
+
+  describe('ConstantSpeedModel', () => {
+    it('should use straight-line distance at a fixed speed', () => {
+      const model = new ConstantSpeedModel(40);
+      const distance = calculateDistance(origin, destination);
+
+      expect(model.distance(origin, destination)).toBeCloseTo(distance, 9);
+      expect(model.travelTime(origin, destination)).toBe(Math.ceil((distance / 40) * 60));
+    });
+
+    it('should be the default model', () => {
+      expect(getTravelTimeModel().name).toBe('constant');
+    });
+  });
+
+  describe('SpeedProfileModel', () => {
+    const model = new SpeedProfileModel({
+      defaultHourlySpeedsKmh: hourly(50, 25),
+      circuityFactor: 1.3,
+      zones: [{
+        name: 'midtown',
+        bounds: { minLat: 40.65, maxLat: 40.75, minLng: -74.05, maxLng: -73.95 },
+        hourlySpeedsKmh: hourly(30, 10)
+      }]
+    });
+
+    it('should be slower at rush hour than off-peak', () => {
+      expect(model.travelTime(origin, destination, at(8))).toBeGreaterThan(model.travelTime(origin, destination, at(13)));
+    });
+
+    it('should use the speed of the zone the leg starts in', () => {
+      const outside = { latitude: 40.80, longitude: -74.00 };
+      expect(model.speedAt(origin, 13)).toBe(30);
+      expect(model.speedAt(outside, 13)).toBe(50);
+    });
+
+    it('should scale straight-line distance by the circuity factor', () => {
+      expect(model.distance(origin, destination)).toBeCloseTo(calculateDistance(origin, destination) * 1.3, 9);
+    });
+
+    it('should reject profiles without 24 hourly speeds', () => {
+      expect(() => new SpeedProfileModel({ defaultHourlySpeedsKmh: [40], zones: [] })).toThrow();
+    });
+  });
+
+  describe('RoadNetworkModel', () => {
+    // Square A-B-C-D: a slow residential road straight from A to C and a
+    // motorway around through B; B-C is one-way from B to C
+    const xml = `<?xml version="1.0"?>
+      <osm>
+        <node id="1" lat="40.700" lon="-74.000"/>
+        <node id="2" lat="40.700" lon="-73.980"/>
+        <node id="3" lat="40.710" lon="-73.980"/>
+        <node id="4" lat="40.710" lon="-74.000"/>
+        <way id="10"><nd ref="1"/><nd ref="3"/><tag k="highway" v="residential"/></way>
+        <way id="11"><nd ref="1"/><nd ref="2"/><tag k="highway" v="motorway"/></way>
+        <way id="12"><nd ref="2"/><nd ref="3"/><tag k="highway" v="motorway"/><tag k="oneway" v="yes"/></way>
+        <way id="13"><nd ref="3"/><nd ref="4"/><tag k="footway" v="yes"/><tag k="highway" v="footway"/></way>
+      </osm>`;
+
+    const fallback = new ConstantSpeedModel(40);
+    const model = RoadNetworkModel.fromOsmXml(xml, fallback, { maxSnapDistanceKm: 0.5, pathCacheSize: 100 });
+    const a = { latitude: 40.700, longitude: -74.000 };
+    const c = { latitude: 40.710, longitude: -73.980 };
+
+    it('should take the fastest path even when it is longer', () => {
+      const direct = calculateDistance(a, c);
+      expect(model.distance(a, c)).toBeGreaterThan(direct);
+      expect(model.travelTime(a, c)).toBeLessThan(Math.ceil((direct / 25) * 60));
+    });
+
+    it('should respect one-way streets', () => {
+      // C to A cannot use the motorway, so it takes the direct residential road
+      expect(model.distance(c, a)).toBeCloseTo(calculateDistance(c, a), 6);
+    });
+
+    it('should fall back when a point is off the network', () => {
+      const farAway = { latitude: 41.5, longitude: -73.0 };
+      expect(model.travelTime(a, farAway)).toBe(fallback.travelTime(a, farAway));
+    });
+
+    it('should ignore ways cars cannot use', () => {
+      expect(() => RoadNetworkModel.fromOsmXml(
+        '<osm><node id="1" lat="0" lon="0"/><node id="2" lat="0" lon="0.01"/>' +
+        '<way id="1"><nd ref="1"/><nd ref="2"/><tag k="highway" v="footway"/></way></osm>',
+        fallback,
+        { maxSnapDistanceKm: 0.5, pathCacheSize: 100 }
+      )).toThrow('no drivable roads');
+    });
+  });
+
+  describe('Selection by configuration', () => {
+    const config = {
+      model: 'constant' as const,
+      constantSpeedKmh: 30,
+      speedProfilesPath: '',
+      osmExtractPath: '',
+      maxSnapDistanceKm: 1,
+      pathCacheSize: 100
+    };
+
+    it('should build the configured model', () => {
+      expect(createTravelTimeModel(config).name).toBe('constant');
+    });
+
+    it('should require a data file for profile and road models', () => {
+      expect(() => createTravelTimeModel({ ...config, model: 'profile' })).toThrow('SPEED_PROFILES_PATH');
+      expect(() => createTravelTimeModel({ ...config, model: 'road' })).toThrow('OSM_EXTRACT_PATH');
+    });
+  });
+
+  describe('Routing with a time-of-day model', () => {
+    it('should schedule longer trips at rush hour', () => {
+      setTravelTimeModel(new SpeedProfileModel({ defaultHourlySpeedsKmh: hourly(50, 20), zones: [] }));
+
+      const request: RideRequest = {
+        id: 'req-1',
+        userId: 'user-1',
+        pickup: origin,
+        dropoff: destination,
+        requestedAt: new Date(),
+        earliestPickupAt: at(8),
+        latestPickupAt: at(20),
+        passengers: 1,
+        luggage: [LuggageSize.SMALL],
+        maxDetourMinutes: 15,
+        status: RideStatus.PENDING,
+        version: 1
+      };
+
+      const rushHour = optimizeRoute([request], { departureTime: at(8) });
+      const offPeak = optimizeRoute([{ ...request, earliestPickupAt: at(13) }], { departureTime: at(13) });
+
+      expect(rushHour.estimatedDuration).toBeGreaterThan(offPeak.estimatedDuration);
+    });
+  });
+});
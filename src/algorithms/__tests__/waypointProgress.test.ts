@@ -0,0 +1,40 @@
+import { applyWaypointEvent, PassengerProgress } from '../waypointProgress';
+import { WaypointEvent } from '../../types';
+
+describe('Waypoint progress', () => {
+  const start: PassengerProgress = { pickupArrivedAt: null, pickedUpAt: null, dropoffArrivedAt: null, droppedOffAt: null };
+  const t1 = new Date('2026-03-01T12:00:00Z');
+  const t2 = new Date('2026-03-01T12:05:00Z');
+  const t3 = new Date('2026-03-01T12:20:00Z');
+
+  it('should record arrivals and keep the first time', () => {
+    const arrived = applyWaypointEvent(start, 'pickup', WaypointEvent.ARRIVED, t1);
+    expect(arrived.pickupArrivedAt).toEqual(t1);
+    expect(arrived.pickedUpAt).toBeNull();
+
+    expect(applyWaypointEvent(arrived, 'pickup', WaypointEvent.ARRIVED, t2).pickupArrivedAt).toEqual(t1);
+  });
+
+  it('should record the arrival when a stop is marked done without one', () => {
+    const pickedUp = applyWaypointEvent(start, 'pickup', WaypointEvent.DONE, t2);
+    expect(pickedUp.pickupArrivedAt).toEqual(t2);
+    expect(pickedUp.pickedUpAt).toEqual(t2);
+
+    const droppedOff = applyWaypointEvent(pickedUp, 'dropoff', WaypointEvent.DONE, t3);
+    expect(droppedOff.dropoffArrivedAt).toEqual(t3);
+    expect(droppedOff.droppedOffAt).toEqual(t3);
+  });
+
+  it('should not record a dropoff before the pickup', () => {
+    expect(() => applyWaypointEvent(start, 'dropoff', WaypointEvent.ARRIVED, t1)).toThrow('not been picked up');
+    expect(() => applyWaypointEvent(start, 'dropoff', WaypointEvent.DONE, t1)).toThrow('not been picked up');
+  });
+
+  it('should not pick up or drop off the same rider twice', () => {
+    const pickedUp = applyWaypointEvent(start, 'pickup', WaypointEvent.DONE, t1);
+    expect(() => applyWaypointEvent(pickedUp, 'pickup', WaypointEvent.DONE, t2)).toThrow('already been picked up');
+
+    const droppedOff = applyWaypointEvent(pickedUp, 'dropoff', WaypointEvent.DONE, t3);
+    expect(() => applyWaypointEvent(droppedOff, 'dropoff', WaypointEvent.DONE, t3)).toThrow('already been dropped off');
+  });
+});
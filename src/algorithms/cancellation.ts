@@ -0,0 +1,124 @@
+import { Actor, CancellationCharge } from '../types';
+import { CancellationPolicy } from '../config/cancellation';
+
+/**
+ * A booking on the ride being cancelled
+ */
+export interface CancelledBooking {
+  requestId: string;
+  fare: number; // Quoted fare
+  bookedAt: Date;
+  cabArrived: boolean; // Cab reached this rider's pickup
+}
+
+/**
+ * Fee and refund for every booking on a cancelled ride
+ * Only the rider who cancels can be charged; everyone else is refunded in full
+ * Fees never exceed the booking's fare
+ * @param cancellingRequestId - The rider's request when cancelledBy is RIDER
+ */
+export function assessCancellation(
+  policy: CancellationPolicy,
+  cancelledBy: Actor,
+  bookings: CancelledBooking[],
+  cancellingRequestId: string | null,
+  cancelledAt: Date = new Date()
+): CancellationCharge[] {
+  return bookings.map(booking => {
+    const charge = (fee: number, reason: string) => chargeBooking(booking, cancelledBy, fee, reason);
+
+    if (cancelledBy === Actor.DRIVER) {
+      return charge(0, 'Cancelled by the driver');
+    }
+
+    if (cancelledBy === Actor.SYSTEM) {
+      return charge(0, 'Cancelled by the system');
+    }
+
+    if (booking.requestId !== cancellingRequestId) {
+      return charge(0, 'Cancelled by another rider in the pool');
+    }
+
+    if (booking.cabArrived) {
+      return charge(policy.cabArrivedFee, 'Cancelled after the cab arrived');
+    }
+
+    const minutesSinceBooking = (cancelledAt.getTime() - booking.bookedAt.getTime()) / 60000;
+    if (minutesSinceBooking > policy.freeCancellationMinutes) {
+      return charge(
+        policy.lateCancellationFee,
+        `Cancelled ${Math.floor(minutesSinceBooking)} minutes after booking ` +
+        `(free within ${policy.freeCancellationMinutes})`
+      );
+    }
+
+    return charge(0, 'Cancelled within the free cancellation window');
+  });
+}
+
+/**
+ * Charge for a rider who did not come to the pickup
+ * The driver can only mark a no-show once the wait has run out after the
+ * cab arrived at the rider's pickup
+ * @param arrivedAt - When the cab arrived at the pickup; null if it has not
+ * @throws if the cab has not arrived or the wait is not over yet
+ */
+export function assessNoShow(
+  policy: CancellationPolicy,
+  booking: CancelledBooking,
+  arrivedAt: Date | null,
+  markedAt: Date = new Date()
+): CancellationCharge {
+  if (!arrivedAt) {
+    throw new Error('The cab has not arrived at the rider\'s pickup');
+  }
+
+  const waitUntil = new Date(arrivedAt.getTime() + policy.noShowWaitMinutes * 60000);
+  if (markedAt < waitUntil) {
+    throw new Error(`Wait for the rider until ${waitUntil.toISOString()}`);
+  }
+
+  return chargeBooking(
+    booking,
+    Actor.DRIVER,
+    policy.noShowFee,
+    `Rider did not show up within ${policy.noShowWaitMinutes} minutes of the cab arriving`
+  );
+}
+
+/**
+ * Charge for a rider the ride ended without picking up
+ * A no-show once the cab had waited out the no-show time at their pickup;
+ * otherwise the rider was never served and is refunded in full
+ * @param arrivedAt - When the cab arrived at the pickup; null if it has not
+ */
+export function assessUnservedBooking(
+  policy: CancellationPolicy,
+  booking: CancelledBooking,
+  arrivedAt: Date | null,
+  endedBy: Actor,
+  endedAt: Date = new Date()
+): CancellationCharge {
+  if (arrivedAt && endedAt.getTime() >= arrivedAt.getTime() + policy.noShowWaitMinutes * 60000) {
+    return assessNoShow(policy, booking, arrivedAt, endedAt);
+  }
+
+  return chargeBooking(booking, endedBy, 0, 'Ride ended before the rider was picked up');
+}
+
+function chargeBooking(
+  booking: CancelledBooking,
+  cancelledBy: Actor,
+  fee: number,
+  reason: string
+): CancellationCharge {
+  const kept = Math.round(Math.min(fee, booking.fare) * 100) / 100;
+  return {
+    requestId: booking.requestId,
+    cancelledBy,
+    fare: booking.fare,
+    fee: kept,
+    refund: Math.round((booking.fare - kept) * 100) / 100,
+    reason
+  };
+}
@@ -0,0 +1,158 @@
+import fs from 'fs';
+import { CostSharingStrategy, Location } from '../types';
+import { isPointInPolygon } from './distance';
+import { costSharingConfig } from '../config/pricing';
+
+/**
+ * One booking in a shared ride, as seen by the split
+ */
+export interface CostShareRider {
+  directDistance: number; // Pickup to dropoff alone (km)
+  riddenDistance: number; // Along the shared route, detours included (km)
+  seats: number; // Passengers in the booking
+}
+
+/**
+ * Relative weight of each booking under a strategy
+ * Every strategy scales by seats, since fares are per passenger
+ * @param coalitionCost - Route cost of serving only some bookings (SHAPLEY)
+ */
+export function costShareWeights(
+  strategy: CostSharingStrategy,
+  riders: CostShareRider[],
+  coalitionCost: (members: number[]) => number
+): number[] {
+  switch (strategy) {
+    case CostSharingStrategy.DIRECT_DISTANCE:
+      return riders.map(r => r.directDistance * r.seats);
+    case CostSharingStrategy.DISTANCE_RIDDEN:
+      return riders.map(r => r.riddenDistance * r.seats);
+    case CostSharingStrategy.SHAPLEY:
+      return shapleyValues(riders.length, coalitionCost).map((v, i) => Math.max(0, v) * riders[i].seats);
+  }
+}
+
+/**
+ * Shapley value of each player: its marginal cost averaged over every
+ * order the players could join in. A rider whose trip mostly overlaps
+ * the others' adds little route, so pays little, while a rider who is
+ * detoured for others is not charged for that detour
+ * Time Complexity: O(2^n × n) coalition evaluations; rides hold a few bookings
+ */
+export function shapleyValues(count: number, coalitionCost: (members: number[]) => number): number[] {
+  const costs = new Map<number, number>();
+  const costOf = (mask: number): number => {
+    if (!costs.has(mask)) {
+      const members: number[] = [];
+      for (let i = 0; i < count; i++) {
+        if (mask & (1 << i)) members.push(i);
+      }
+      costs.set(mask, members.length === 0 ? 0 : coalitionCost(members));
+    }
+    return costs.get(mask)!;
+  };
+
+  const factorial = (n: number): number => (n <= 1 ? 1 : n * factorial(n - 1));
+  const values = new Array(count).fill(0);
+
+  for (let mask = 0; mask < 1 << count; mask++) {
+    const size = bitCount(mask);
+    // Orders in which exactly this coalition precedes the joining player
+    const orders = factorial(size) * factorial(count - size - 1) / factorial(count);
+
+    for (let i = 0; i < count; i++) {
+      if (mask & (1 << i)) continue;
+      values[i] += orders * (costOf(mask | (1 << i)) - costOf(mask));
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Cost of a coalition as the shared route with everyone else's stops skipped
+ * @param stops - Route index of each booking's pickup and dropoff
+ */
+export function routeCoalitionCost(
+  route: Location[],
+  stops: { pickupOrder: number; dropoffOrder: number }[],
+  distance: (from: Location, to: Location) => number
+): (members: number[]) => number {
+  return (members: number[]) => {
+    const kept = members
+      .flatMap(m => [stops[m].pickupOrder, stops[m].dropoffOrder])
+      .sort((a, b) => a - b);
+
+    let cost = 0;
+    for (let i = 1; i < kept.length; i++) {
+      cost += distance(route[kept[i - 1]], route[kept[i]]);
+    }
+    return cost;
+  };
+}
+
+function bitCount(mask: number): number {
+  let count = 0;
+  for (let m = mask; m; m &= m - 1) count++;
+  return count;
+}
+
+export interface CostSharingArea {
+  name: string;
+  polygon: Location[];
+  strategy: CostSharingStrategy;
+}
+
+/**
+ * Cost-sharing strategy per service area
+ * A ride is split with the strategy of the area its first pickup is in
+ * (first listed area wins), or the default outside every area
+ */
+export class CostSharingAreas {
+  constructor(
+    private readonly areas: CostSharingArea[],
+    private readonly defaultStrategy: CostSharingStrategy
+  ) {
+    if (!Object.values(CostSharingStrategy).includes(defaultStrategy)) {
+      throw new Error(`Unknown cost-sharing strategy "${defaultStrategy}"`);
+    }
+    for (const area of areas) {
+      if (!Object.values(CostSharingStrategy).includes(area.strategy)) {
+        throw new Error(`Cost-sharing area "${area.name}" has unknown strategy "${area.strategy}"`);
+      }
+      if (!Array.isArray(area.polygon) || area.polygon.length < 3) {
+        throw new Error(`Cost-sharing area "${area.name}" needs at least 3 points`);
+      }
+    }
+  }
+
+  static fromFile(path: string, defaultStrategy: CostSharingStrategy): CostSharingAreas {
+    return new CostSharingAreas(JSON.parse(fs.readFileSync(path, 'utf8')).areas, defaultStrategy);
+  }
+
+  strategyAt(location: Location): CostSharingStrategy {
+    const area = this.areas.find(a => isPointInPolygon(location, a.polygon));
+    return area ? area.strategy : this.defaultStrategy;
+  }
+}
+
+let activeAreas: CostSharingAreas | null = null;
+
+/**
+ * Process-wide areas, loaded from COST_SHARING_AREAS_PATH on first use
+ */
+export function getCostSharingAreas(): CostSharingAreas {
+  if (!activeAreas) {
+    activeAreas = costSharingConfig.areasPath
+      ? CostSharingAreas.fromFile(costSharingConfig.areasPath, costSharingConfig.defaultStrategy)
+      : new CostSharingAreas([], costSharingConfig.defaultStrategy);
+  }
+  return activeAreas;
+}
+
+/**
+ * Swap the process-wide areas (tests)
+ */
+export function setCostSharingAreas(areas: CostSharingAreas | null): void {
+  activeAreas = areas;
+}
@@ -23,6 +23,30 @@ function toRad(degrees: number): number {
   return degrees * (Math.PI / 180);
 }
 
+/**
+ * Calculate initial bearing from one point to another
+ * Returns degrees clockwise from north (0-360)
+ * Time Complexity: O(1)
+ */
+export function calculateBearing(from: Location, to: Location): number {
+  const lat1 = toRad(from.latitude);
+  const lat2 = toRad(to.latitude);
+  const dLon = toRad(to.longitude - from.longitude);
+  
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+/**
+ * Smallest angle between two bearings (0-180 degrees)
+ */
+export function bearingDifference(bearing1: number, bearing2: number): number {
+  const diff = Math.abs(bearing1 - bearing2) % 360;
+  return diff > 180 ? 360 - diff : diff;
+}
+
 /**
  * Calculate total route distance
  * Time Complexity: O(n) where n = number of waypoints
@@ -44,3 +68,27 @@ export function estimateTravelTime(distanceKm: number): number {
   const avgSpeedKmh = 40;
   return Math.ceil((distanceKm / avgSpeedKmh) * 60);
 }
+
+/**
+ * Point-in-polygon test (ray casting) on raw coordinates
+ * Adequate for city-scale polygons that do not cross the antimeridian
+ * Time Complexity: O(v) where v = polygon vertices
+ */
+export function isPointInPolygon(point: Location, polygon: Location[]): boolean {
+  let inside = false;
+  
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    
+    const crosses = (a.latitude > point.latitude) !== (b.latitude > point.latitude) &&
+      point.longitude < ((b.longitude - a.longitude) * (point.latitude - a.latitude)) /
+        (b.latitude - a.latitude) + a.longitude;
+    
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+  
+  return inside;
+}
@@ -1,6 +1,32 @@
-import { RideRequest, Ride, MatchResult, PassengerInfo, LuggageSize } from '../types';
-import { calculateDistance, calculateRouteDistance, estimateTravelTime } from './distance';
-import { optimizeRoute } from './routing';
+import { RideRequest, Ride, MatchResult, PassengerInfo, LuggageSize, VehicleCapacity, RideStatus, Location, ScoreFactor, ScoreFactorName } from '../types';
+import { calculateDistance, calculateBearing, bearingDifference } from './distance';
+import { getTravelTimeModel, withLegCache } from './travelTime';
+import { optimizeRoute, insertRequest, computeSchedule, finalizeRoute, Waypoint, RouteOptions, RouteResult } from './routing';
+import { directionConfig, scoringConfig } from '../config/matching';
+
+/**
+ * A ride that is already CONFIRMED or IN_PROGRESS and may take more riders
+ */
+export interface ActiveRide {
+  id: string;
+  cabId: string;
+  status: RideStatus;
+  requests: RideRequest[]; // Riders already booked on the ride
+  waypoints: Waypoint[]; // Remaining stops in order
+  start: Location; // Cab's current position
+  vehicle: VehicleCapacity;
+  pickedUp?: Set<string>; // Riders on board or already dropped off
+  pickedUpAt?: Map<string, Date>; // When each rider on board was picked up
+  droppedOff?: Set<string>; // Riders already dropped off
+}
+
+/**
+ * Candidate pooled group in batch matching (members are indexes into the batch)
+ */
+interface BatchGroup {
+  members: number[];
+  match: MatchResult;
+}
 
 /**
  * Match passengers into shared rides
@@ -9,8 +35,8 @@ import { optimizeRoute } from './routing';
  * 
  * Algorithm:
  * 1. Sort requests by pickup location (spatial clustering)
- * 2. For each request, find compatible nearby requests
- * 3. Check constraints (seats, luggage, detour)
+ * 2. For each request, find nearby requests heading the same way
+ * 3. Check constraints (seats and luggage of the available vehicles, detour)
  * 4. Calculate optimal route and score
  * 5. Return best matches
  */
@@ -19,88 +45,511 @@ export class RideMatchingEngine {
   private readonly MAX_LUGGAGE = parseInt(process.env.MAX_LUGGAGE_CAPACITY || '6');
   private readonly MAX_DETOUR_PCT = parseInt(process.env.MAX_DETOUR_PERCENTAGE || '20');
   private readonly SEARCH_RADIUS_KM = 5; // Search within 5km radius
+  private readonly BATCH_MAX_GROUP_SIZE = 4; // Same as request + triple in findMatches
+  private readonly BATCH_PARTNERS_PER_REQUEST = 5; // Best pair partners extended into larger groups
+  private readonly BATCH_EXACT_COMPONENT_SIZE = 12; // Components up to this size are solved exactly
 
   /**
    * Find compatible ride matches for a request
+   * @param vehicles - Capacities of the cabs available nearby. Groups are only
+   *                   formed if at least one of them can carry the group.
+   *                   Falls back to the configured default cab when empty.
    */
-  async findMatches(request: RideRequest, activeRequests: RideRequest[]): Promise<MatchResult[]> {
+  async findMatches(
+    request: RideRequest,
+    activeRequests: RideRequest[],
+    vehicles: VehicleCapacity[] = []
+  ): Promise<MatchResult[]> {
     const matches: MatchResult[] = [];
+    const fleet = vehicles.length > 0 ? vehicles : [this.defaultVehicle()];
     
     // Filter nearby requests within search radius
     const nearbyRequests = this.filterNearbyRequests(request, activeRequests);
     
-    // ALWAYS offer a solo ride option first
-    const soloRoute = optimizeRoute([request]);
-    const soloRide = this.createRide([request], soloRoute);
-    matches.push({
-      score: 50, // Base score for solo ride
-      ride: soloRide,
-      savings: 0, // No savings for solo ride
-      detourTime: 0 // No detour for solo ride
-    });
+    // Offer a solo ride first, unless no cab can carry the party at all
+    const solo = this.createSoloMatch(request, fleet);
+    if (solo) {
+      matches.push(solo);
+    }
     
     // Try to match with existing groups for pooling options
-    const groups = this.createRequestGroups(nearbyRequests);
+    const groups = this.createRequestGroups(nearbyRequests, fleet);
     
     for (const group of groups) {
       // Check if request can be added to this group
-      if (!this.canAddToGroup(request, group)) {
+      if (!this.canAddToGroup(request, group, fleet)) {
         continue;
       }
       
-      const combinedGroup = [...group, request];
-      
-      // Check constraints
-      if (!this.checkConstraints(combinedGroup)) {
-        continue;
+      const match = this.evaluateGroup([...group, request], fleet);
+      if (match) {
+        matches.push(match);
+      }
+    }
+    
+    // Sort by score (higher is better)
+    matches.sort((a, b) => b.score - a.score);
+    
+    return matches.slice(0, 5); // Return top 5 matches
+  }
+
+  /**
+   * Solve the grouping of a whole batch of pending requests at once
+   * Maximises total pooling savings; every request ends up in exactly one ride
+   * 
+   * Algorithm:
+   * 1. Evaluate compatible pairs (same constraints as findMatches)
+   * 2. Extend each request's best pairs into groups up to BATCH_MAX_GROUP_SIZE
+   * 3. Split requests into connected components of the pair graph
+   * 4. Exact set packing for small components, greedy by savings for large ones
+   * 
+   * @returns Match for every request, keyed by request id (solo when unpooled);
+   *          requests no cab can carry are left out
+   */
+  async findBatchMatches(
+    requests: RideRequest[],
+    vehicles: VehicleCapacity[] = []
+  ): Promise<Map<string, MatchResult>> {
+    const fleet = vehicles.length > 0 ? vehicles : [this.defaultVehicle()];
+    const candidates = this.createBatchGroups(requests, fleet);
+    
+    // Connected components over pooled groups (union-find)
+    const parent = requests.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+    for (const candidate of candidates) {
+      for (const member of candidate.members) {
+        parent[find(member)] = find(candidate.members[0]);
       }
+    }
+    
+    const components = new Map<number, number[]>();
+    requests.forEach((_, i) => {
+      const root = find(i);
+      components.set(root, [...(components.get(root) || []), i]);
+    });
+    
+    const chosen: BatchGroup[] = [];
+    for (const members of components.values()) {
+      if (members.length === 1) continue;
       
-      // Calculate optimal route
-      const route = optimizeRoute(combinedGroup);
+      const memberSet = new Set(members);
+      const componentGroups = candidates.filter(c => memberSet.has(c.members[0]));
+      chosen.push(
+        ...(members.length <= this.BATCH_EXACT_COMPONENT_SIZE
+          ? this.packGroupsExact(members, componentGroups)
+          : this.packGroupsGreedy(componentGroups))
+      );
+    }
+    
+    const result = new Map<string, MatchResult>();
+    for (const group of chosen) {
+      for (const member of group.members) {
+        result.set(requests[member].id, group.match);
+      }
+    }
+    
+    // Everyone left over rides solo, if a cab fits them
+    for (const request of requests) {
+      const solo = result.has(request.id) ? null : this.createSoloMatch(request, fleet);
+      if (solo) {
+        result.set(request.id, solo);
+      }
+    }
+    
+    return result;
+  }
+
+  /**
+   * Build candidate pooled groups for a batch
+   * Only groups where every pair is compatible are evaluated
+   * Time Complexity: O(n² + n × p^(g-1)) where p = partners per request, g = max group size
+   */
+  private createBatchGroups(requests: RideRequest[], fleet: VehicleCapacity[]): BatchGroup[] {
+    const groups: BatchGroup[] = [];
+    const partners: { index: number; savings: number }[][] = requests.map(() => []);
+    const compatible = new Set<string>();
+    
+    for (let i = 0; i < requests.length; i++) {
+      for (let j = i + 1; j < requests.length; j++) {
+        if (
+          calculateDistance(requests[i].pickup, requests[j].pickup) > this.SEARCH_RADIUS_KM ||
+          !this.isDirectionCompatible(requests[i], requests[j])
+        ) {
+          continue;
+        }
+        
+        const match = this.evaluateGroup([requests[i], requests[j]], fleet);
+        if (!match || match.savings <= 0) {
+          continue;
+        }
+        
+        groups.push({ members: [i, j], match });
+        compatible.add(`${i}:${j}`);
+        partners[i].push({ index: j, savings: match.savings });
+        partners[j].push({ index: i, savings: match.savings });
+      }
+    }
+    
+    const isCompatible = (a: number, b: number) => compatible.has(a < b ? `${a}:${b}` : `${b}:${a}`);
+    const topPartners = partners.map(list =>
+      list.sort((a, b) => b.savings - a.savings)
+        .slice(0, this.BATCH_PARTNERS_PER_REQUEST)
+        .map(p => p.index)
+    );
+    
+    // Grow groups from each request's best partners, keeping members sorted to avoid duplicates
+    const seen = new Set<string>();
+    let frontier = groups.map(g => g.members);
+    
+    for (let size = 3; size <= this.BATCH_MAX_GROUP_SIZE; size++) {
+      const next: number[][] = [];
       
-      // Validate detour tolerance for all passengers
-      const detours = this.calculateDetours(combinedGroup, route);
-      if (!this.validateDetours(combinedGroup, detours)) {
-        continue;
+      for (const members of frontier) {
+        const extensions = new Set<number>();
+        for (const member of members) {
+          topPartners[member].forEach(p => extensions.add(p));
+        }
+        
+        for (const candidate of extensions) {
+          if (candidate <= members[members.length - 1]) continue;
+          if (!members.every(m => isCompatible(m, candidate))) continue;
+          
+          const grown = [...members, candidate];
+          const key = grown.join(':');
+          if (seen.has(key)) continue;
+          seen.add(key);
+          
+          const match = this.evaluateGroup(grown.map(m => requests[m]), fleet);
+          if (match && match.savings > 0) {
+            groups.push({ members: grown, match });
+            next.push(grown);
+          }
+        }
       }
       
-      // Calculate match score
-      const score = this.calculateMatchScore(combinedGroup, route, detours);
+      frontier = next;
+    }
+    
+    return groups;
+  }
+
+  /**
+   * Exact weighted set packing over one component
+   * Memoised recursion on the set of unassigned requests; the lowest unassigned
+   * request either rides solo or joins one of the groups it belongs to
+   * Time Complexity: O(2^c × g) where c = component size, g = groups
+   */
+  private packGroupsExact(members: number[], groups: BatchGroup[]): BatchGroup[] {
+    const local = new Map(members.map((m, i) => [m, i]));
+    const masks = groups.map(g => g.members.reduce((mask, m) => mask | (1 << local.get(m)!), 0));
+    const memo = new Map<number, { savings: number; picks: number[] }>();
+    
+    const solve = (remaining: number): { savings: number; picks: number[] } => {
+      if (remaining === 0) return { savings: 0, picks: [] };
+      const cached = memo.get(remaining);
+      if (cached) return cached;
+      
+      const lowest = remaining & -remaining;
       
-      // Create ride object
-      const ride = this.createRide(combinedGroup, route);
+      // Lowest request rides solo
+      let best = solve(remaining & ~lowest);
       
-      matches.push({
-        score,
-        ride,
-        savings: this.calculateSavings(combinedGroup, route),
-        detourTime: Math.max(...detours)
+      // ...or joins a group that fits in what is left
+      masks.forEach((mask, idx) => {
+        if (!(mask & lowest) || (mask & remaining) !== mask) return;
+        const rest = solve(remaining & ~mask);
+        const savings = rest.savings + groups[idx].match.savings;
+        if (savings > best.savings) {
+          best = { savings, picks: [idx, ...rest.picks] };
+        }
       });
+      
+      memo.set(remaining, best);
+      return best;
+    };
+    
+    return solve((1 << members.length) - 1).picks.map(idx => groups[idx]);
+  }
+
+  /**
+   * Greedy weighted set packing: take the highest-savings group whose members are free
+   * Time Complexity: O(g log g)
+   */
+  private packGroupsGreedy(groups: BatchGroup[]): BatchGroup[] {
+    const assigned = new Set<number>();
+    const chosen: BatchGroup[] = [];
+    
+    for (const group of [...groups].sort((a, b) => b.match.savings - a.match.savings)) {
+      if (group.members.some(m => assigned.has(m))) continue;
+      group.members.forEach(m => assigned.add(m));
+      chosen.push(group);
     }
     
-    // Sort by score (higher is better)
-    matches.sort((a, b) => b.score - a.score);
+    return chosen;
+  }
+
+  /**
+   * Find rides already under way that can take this request
+   * Existing stops keep their order so onboard riders are never reshuffled,
+   * and every booked rider's detour limit is re-checked on the new route
+   * Time Complexity: O(r × n³) where r = rides, n = remaining stops
+   */
+  async findInsertions(request: RideRequest, activeRides: ActiveRide[]): Promise<MatchResult[]> {
+    const matches: MatchResult[] = [];
     
-    return matches.slice(0, 5); // Return top 5 matches
+    for (const active of activeRides) {
+      if (active.requests.some(r => r.id === request.id)) {
+        continue;
+      }
+      
+      const match = withLegCache(() => this.evaluateInsertion(request, active));
+      if (match) {
+        matches.push(match);
+      }
+    }
+    
+    return matches;
   }
 
   /**
-   * Filter requests within search radius
-   * Time Complexity: O(n)
+   * Cheapest feasible insertion of a request into one active ride
+   * Stops already served stay first and the new stops go after them. Riders
+   * on board get a pickup where the cab is, so their seats count from here
+   * on; their detours still count from when they were picked up, so every
+   * insertion is checked against the whole detour of the trip
+   */
+  private evaluateInsertion(request: RideRequest, active: ActiveRide): MatchResult | null {
+    const pickedUp = active.pickedUp ?? new Set<string>();
+    const droppedOff = active.droppedOff ?? new Set<string>();
+    const served = active.waypoints.filter(w => isServed(w, pickedUp, droppedOff));
+    
+    const riders = active.requests
+      .filter(r => !droppedOff.has(r.id))
+      .map(r => pickedUp.has(r.id) ? { ...r, pickup: active.start } : r);
+    const onBoard: Waypoint[] = riders
+      .filter(r => pickedUp.has(r.id))
+      .map(r => ({ type: 'pickup', location: active.start, requestId: r.id, passengers: r.passengers }));
+    const ahead = [...onBoard, ...active.waypoints.filter(w => !isServed(w, pickedUp, droppedOff))];
+    
+    const group = [...riders, request];
+    const options = { start: active.start };
+    const pickedUpAt = active.pickedUpAt ?? new Map<string, Date>();
+    
+    const route = insertRequest(ahead, request, active.start, waypoints =>
+      this.fitsAlongRoute(waypoints, group, active.vehicle) &&
+      this.validateDetours(group, this.calculateDetours(group, { waypoints }, options, pickedUpAt)),
+      onBoard.length
+    );
+    
+    if (!route) {
+      return null;
+    }
+    
+    const detours = this.calculateDetours(group, route, options, pickedUpAt);
+    const savings = this.calculateSavings(group, route);
+    
+    // Served stops have no schedule; distance and duration cover the whole trip
+    let ride = route;
+    if (served.length > 0 || onBoard.length > 0) {
+      const waypoints = [...served, ...route.waypoints.slice(onBoard.length)];
+      ride = { ...finalizeRoute(waypoints, {}), waypoints };
+    }
+    
+    const detourById = new Map(group.map((r, idx) => [r.id, detours[idx]]));
+    
+    return {
+      ...this.scoreMatch(group, route, detours, savings, options),
+      ride: {
+        ...this.createRide([...active.requests, request], ride, active.vehicle, detourById),
+        id: active.id,
+        cabId: active.cabId
+      },
+      savings,
+      detourTime: Math.max(...detours)
+    };
+  }
+
+  /**
+   * Re-plan an active ride after a rider left it
+   * The stops still ahead are re-optimised from the cab's position; stops
+   * already served stay first, in their planned order. The riders already
+   * accepted this ride, so detour limits are not re-checked
+   * @param pickedUp - Riders on board or already dropped off (default: the ride's)
+   * @param droppedOff - Riders already dropped off (default: the ride's)
+   */
+  replanRide(
+    active: ActiveRide,
+    pickedUp: Set<string> = active.pickedUp ?? new Set(),
+    droppedOff: Set<string> = active.droppedOff ?? new Set()
+  ): any {
+    const served = active.waypoints.filter(w => isServed(w, pickedUp, droppedOff));
+    
+    // Riders on board get a pickup where the cab is, due at departure, which
+    // pins it to the front of the plan; only their dropoff is optimised
+    const departureTime = new Date();
+    const ahead = active.requests
+      .filter(r => !droppedOff.has(r.id))
+      .map(r => pickedUp.has(r.id)
+        ? { ...r, pickup: active.start, earliestPickupAt: departureTime, latestPickupAt: departureTime }
+        : r);
+    
+    const options = { start: active.start, capacity: active.vehicle.maxPassengers, departureTime };
+    let route = ahead.length > 0 ? optimizeRoute(ahead, options) : finalizeRoute([], options);
+    
+    // Served stops have no schedule; distance and duration cover the whole trip
+    if (served.length > 0) {
+      const waypoints = [
+        ...served,
+        ...route.waypoints.filter(w => !(w.type === 'pickup' && pickedUp.has(w.requestId)))
+      ];
+      route = { ...finalizeRoute(waypoints, {}), waypoints };
+    }
+    
+    return {
+      ...this.createRide(active.requests, route, active.vehicle),
+      id: active.id,
+      cabId: active.cabId
+    };
+  }
+
+  /**
+   * Build a pooled match for a group, or null if it breaks any constraint
+   * Checks vehicle capacity, then detour tolerance on the optimal route
+   * Each leg between the group's stops is computed once
+   */
+  private evaluateGroup(group: RideRequest[], fleet: VehicleCapacity[]): MatchResult | null {
+    return withLegCache(() => this.buildGroupMatch(group, fleet));
+  }
+
+  private buildGroupMatch(group: RideRequest[], fleet: VehicleCapacity[]): MatchResult | null {
+    // Check constraints
+    const vehicle = this.selectVehicle(group, fleet);
+    if (!vehicle) {
+      return null;
+    }
+    
+    // Calculate optimal route
+    const route = optimizeRoute(group, { capacity: vehicle.maxPassengers });
+    
+    // Validate detour tolerance for all passengers
+    const detours = this.calculateDetours(group, route);
+    if (!this.validateDetours(group, detours)) {
+      return null;
+    }
+    
+    const savings = this.calculateSavings(group, route);
+    
+    return {
+      ...this.scoreMatch(group, route, detours, savings),
+      ride: this.createRide(group, route, vehicle, new Map(group.map((r, idx) => [r.id, detours[idx]]))),
+      savings,
+      detourTime: Math.max(...detours)
+    };
+  }
+
+  /**
+   * Solo ride option for a single request
+   * @returns null if no vehicle in the fleet can carry the party and its luggage
+   */
+  private createSoloMatch(request: RideRequest, fleet: VehicleCapacity[]): MatchResult | null {
+    const vehicle = this.selectVehicle([request], fleet);
+    if (!vehicle) {
+      return null;
+    }
+    
+    const soloRoute = optimizeRoute([request]);
+    return {
+      // Scored like any other option, so it can outrank poor pools
+      ...this.scoreMatch([request], soloRoute, [0], 0),
+      ride: this.createRide([request], soloRoute, vehicle),
+      savings: 0, // No savings for solo ride
+      detourTime: 0 // No detour for solo ride
+    };
+  }
+
+  /**
+   * Check seats and luggage on board never exceed the vehicle at any stop
+   * Time Complexity: O(m) where m = waypoints
+   */
+  private fitsAlongRoute(waypoints: Waypoint[], group: RideRequest[], vehicle: VehicleCapacity): boolean {
+    const byId = new Map(group.map(r => [r.id, r]));
+    let seats = 0;
+    let luggage = 0;
+    
+    for (const wp of waypoints) {
+      const request = byId.get(wp.requestId);
+      if (!request) continue;
+      
+      const sign = wp.type === 'pickup' ? 1 : -1;
+      seats += sign * request.passengers;
+      luggage += sign * request.luggage.reduce((sum, l) => sum + l, 0);
+      
+      if (seats > vehicle.maxPassengers || luggage > vehicle.maxLuggage) {
+        return false;
+      }
+    }
+    
+    return true;
+  }
+
+  /**
+   * Filter requests within search radius and heading the same way
+   * Candidates are ordered by direction score, most compatible first
+   * Time Complexity: O(n log n)
    */
   private filterNearbyRequests(request: RideRequest, requests: RideRequest[]): RideRequest[] {
-    return requests.filter(r => {
-      if (r.id === request.id) return false;
-      const distance = calculateDistance(request.pickup, r.pickup);
-      return distance <= this.SEARCH_RADIUS_KM;
-    });
+    return requests
+      .filter(r => {
+        if (r.id === request.id) return false;
+        const distance = calculateDistance(request.pickup, r.pickup);
+        return distance <= this.SEARCH_RADIUS_KM && this.isDirectionCompatible(request, r);
+      })
+      .map(r => ({ request: r, score: this.directionScore(request, r) }))
+      .sort((a, b) => b.score - a.score)
+      .map(c => c.request);
+  }
+
+  /**
+   * Check two requests travel toward nearby destinations on similar headings
+   */
+  private isDirectionCompatible(a: RideRequest, b: RideRequest): boolean {
+    if (calculateDistance(a.dropoff, b.dropoff) > directionConfig.maxDropoffDistanceKm) {
+      return false;
+    }
+    
+    // Skip the heading check when either trip is too short for a meaningful bearing
+    if (
+      calculateDistance(a.pickup, a.dropoff) < directionConfig.minTripKmForBearing ||
+      calculateDistance(b.pickup, b.dropoff) < directionConfig.minTripKmForBearing
+    ) {
+      return true;
+    }
+    
+    const diff = bearingDifference(
+      calculateBearing(a.pickup, a.dropoff),
+      calculateBearing(b.pickup, b.dropoff)
+    );
+    return diff <= directionConfig.maxBearingDiffDegrees;
+  }
+
+  /**
+   * Direction score (0-1): equal weight on dropoff proximity and heading similarity
+   */
+  private directionScore(a: RideRequest, b: RideRequest): number {
+    const dropoffScore = 1 - calculateDistance(a.dropoff, b.dropoff) / directionConfig.maxDropoffDistanceKm;
+    const headingScore = 1 - bearingDifference(
+      calculateBearing(a.pickup, a.dropoff),
+      calculateBearing(b.pickup, b.dropoff)
+    ) / 180;
+    
+    return Math.max(0, (dropoffScore + headingScore) / 2);
   }
 
   /**
    * Create groups of compatible requests
-   * Time Complexity: O(n²) but limited by MAX_PASSENGERS
+   * Time Complexity: O(n³) but limited by vehicle capacity
    */
-  private createRequestGroups(requests: RideRequest[]): RideRequest[][] {
+  private createRequestGroups(requests: RideRequest[], fleet: VehicleCapacity[]): RideRequest[][] {
     const groups: RideRequest[][] = [];
     
     // Single requests
@@ -111,7 +560,10 @@ export class RideMatchingEngine {
     // Pairs
     for (let i = 0; i < requests.length; i++) {
       for (let j = i + 1; j < requests.length; j++) {
-        if (this.checkConstraints([requests[i], requests[j]])) {
+        if (
+          this.isDirectionCompatible(requests[i], requests[j]) &&
+          this.checkConstraints([requests[i], requests[j]], fleet)
+        ) {
           groups.push([requests[i], requests[j]]);
         }
       }
@@ -122,7 +574,12 @@ export class RideMatchingEngine {
       for (let j = i + 1; j < requests.length; j++) {
         for (let k = j + 1; k < requests.length; k++) {
           const group = [requests[i], requests[j], requests[k]];
-          if (this.checkConstraints(group)) {
+          if (
+            this.isDirectionCompatible(requests[i], requests[j]) &&
+            this.isDirectionCompatible(requests[i], requests[k]) &&
+            this.isDirectionCompatible(requests[j], requests[k]) &&
+            this.checkConstraints(group, fleet)
+          ) {
             groups.push(group);
           }
         }
@@ -134,34 +591,78 @@ export class RideMatchingEngine {
 
   /**
    * Check if request can be added to existing group
+   * Only seats are checked here; luggage is checked against the chosen vehicle
    */
-  private canAddToGroup(request: RideRequest, group: RideRequest[]): boolean {
+  private canAddToGroup(request: RideRequest, group: RideRequest[], fleet: VehicleCapacity[]): boolean {
     const totalPassengers = group.reduce((sum, r) => sum + r.passengers, 0) + request.passengers;
-    return totalPassengers <= this.MAX_PASSENGERS;
+    return fleet.some(v => totalPassengers <= v.maxPassengers);
   }
 
   /**
-   * Check seat and luggage constraints
-   * Time Complexity: O(k) where k = group size
+   * Check seat and luggage constraints against the available vehicles
+   * Time Complexity: O(k + v) where k = group size, v = vehicle classes
    */
-  private checkConstraints(group: RideRequest[]): boolean {
+  private checkConstraints(group: RideRequest[], fleet: VehicleCapacity[]): boolean {
+    return this.selectVehicle(group, fleet) !== null;
+  }
+
+  /**
+   * Pick the smallest vehicle that can carry the whole group
+   * Keeps larger vans free for groups that need them
+   */
+  private selectVehicle(group: RideRequest[], fleet: VehicleCapacity[]): VehicleCapacity | null {
     const totalPassengers = group.reduce((sum, r) => sum + r.passengers, 0);
     const totalLuggage = group.reduce((sum, r) => 
       sum + r.luggage.reduce((lsum, l) => lsum + l, 0), 0
     );
     
-    return totalPassengers <= this.MAX_PASSENGERS && 
-           totalLuggage <= this.MAX_LUGGAGE;
+    let best: VehicleCapacity | null = null;
+    for (const vehicle of fleet) {
+      if (totalPassengers > vehicle.maxPassengers || totalLuggage > vehicle.maxLuggage) {
+        continue;
+      }
+      if (
+        !best ||
+        vehicle.maxPassengers < best.maxPassengers ||
+        (vehicle.maxPassengers === best.maxPassengers && vehicle.maxLuggage < best.maxLuggage)
+      ) {
+        best = vehicle;
+      }
+    }
+    
+    return best;
+  }
+
+  /**
+   * Capacity used when no cab capacities are supplied
+   */
+  private defaultVehicle(): VehicleCapacity {
+    return { maxPassengers: this.MAX_PASSENGERS, maxLuggage: this.MAX_LUGGAGE };
   }
 
   /**
    * Calculate detour time for each passenger
-   * Time Complexity: O(k) where k = group size
+   * Infinity for everyone when the route misses a pickup window
+   * Time Complexity: O(k × m) where k = group size, m = waypoints
+   * @param pickedUpAt - Pickup times of riders already on board; their time
+   *                     in the cab counts from there rather than from the route
    */
-  private calculateDetours(group: RideRequest[], route: any): number[] {
+  private calculateDetours(
+    group: RideRequest[],
+    route: any,
+    options: RouteOptions = {},
+    pickedUpAt: Map<string, Date> = new Map()
+  ): number[] {
+    // In-vehicle time comes from the schedule, so waits for later pickups count as detour
+    const schedule = computeSchedule(route.waypoints, options);
+    
     return group.map(request => {
-      const directDistance = calculateDistance(request.pickup, request.dropoff);
-      const directTime = estimateTravelTime(directDistance);
+      // A missed pickup window rules the group out
+      if (!schedule) {
+        return Infinity;
+      }
+      
+      const directTime = this.directTravelTime(request);
       
       // Find actual travel time in shared route
       const pickupIdx = route.waypoints.findIndex((w: any) => 
@@ -171,53 +672,127 @@ export class RideMatchingEngine {
         w.type === 'dropoff' && w.requestId === request.id
       );
       
-      let actualDistance = 0;
-      for (let i = pickupIdx; i < dropoffIdx; i++) {
-        actualDistance += calculateDistance(
-          route.waypoints[i].location,
-          route.waypoints[i + 1].location
-        );
-      }
-      
-      const actualTime = estimateTravelTime(actualDistance);
+      const boardedAt = pickedUpAt.get(request.id) ?? schedule[pickupIdx];
+      const actualTime = (schedule[dropoffIdx].getTime() - boardedAt.getTime()) / 60000;
       return actualTime - directTime;
     });
   }
 
+  /**
+   * Solo driving time for a request, leaving at the start of its pickup window
+   */
+  private directTravelTime(request: RideRequest): number {
+    return getTravelTimeModel().travelTime(
+      request.pickup,
+      request.dropoff,
+      new Date(request.earliestPickupAt)
+    );
+  }
+
   /**
    * Validate all passengers meet detour tolerance
    */
   private validateDetours(group: RideRequest[], detours: number[]): boolean {
     return group.every((request, idx) => {
-      const directTime = estimateTravelTime(
-        calculateDistance(request.pickup, request.dropoff)
-      );
+      const directTime = this.directTravelTime(request);
       const maxDetour = (directTime * this.MAX_DETOUR_PCT) / 100;
       return detours[idx] <= Math.max(maxDetour, request.maxDetourMinutes);
     });
   }
 
   /**
-   * Calculate match score (0-100)
+   * Calculate match score (0-100) from the configured weights
    * Higher score = better match
-   * Factors: route efficiency, detour minimization, passenger count
+   * Factors: route efficiency, detour, fare savings, pickup wait, co-riders
+   * @returns Score and its per-factor breakdown (points sum to the score)
    */
-  private calculateMatchScore(group: RideRequest[], route: any, detours: number[]): number {
+  private scoreMatch(
+    group: RideRequest[],
+    route: RouteResult,
+    detours: number[],
+    savings: number,
+    options: RouteOptions = {}
+  ): Pick<MatchResult, 'score' | 'scoreBreakdown'> {
     const groupSize = group.length;
-    const avgDetour = detours.reduce((a, b) => a + b, 0) / detours.length;
+    const avgDetour = Math.max(0, detours.reduce((a, b) => a + b, 0) / detours.length);
     
-    // Calculate route efficiency
+    // Direct km served per km driven (1 for a solo ride)
     const directDistances = group.reduce((sum, r) => 
-      sum + calculateDistance(r.pickup, r.dropoff), 0
+      sum + getTravelTimeModel().distance(r.pickup, r.dropoff), 0
     );
-    const efficiency = directDistances / route.totalDistance;
+    const efficiency = route.totalDistance > 0 ? directDistances / route.totalDistance : 1;
+    
+    const savingsPerRider = savings / groupSize;
+    const avgWait = this.averagePickupWait(group, route, options);
+    const coRiders = groupSize - 1;
+    
+    const factors: { factor: ScoreFactorName; value: number; detail: string }[] = [
+      {
+        factor: 'efficiency',
+        value: efficiency / scoringConfig.efficiencyTarget,
+        detail: `Serves ${efficiency.toFixed(2)} km of direct trips per km driven`
+      },
+      {
+        factor: 'detour',
+        value: 1 - avgDetour / scoringConfig.maxDetourMinutes,
+        detail: `Average detour of ${avgDetour.toFixed(1)} min`
+      },
+      {
+        factor: 'savings',
+        value: savingsPerRider / scoringConfig.savingsTarget,
+        detail: `Saves ${savingsPerRider.toFixed(2)} per rider`
+      },
+      {
+        factor: 'pickupWait',
+        value: 1 - avgWait / scoringConfig.maxPickupWaitMinutes,
+        detail: `Average pickup ${avgWait.toFixed(1)} min after the rider is ready`
+      },
+      {
+        factor: 'coRiders',
+        value: coRiders / Math.max(1, this.MAX_PASSENGERS - 1),
+        detail: coRiders === 0 ? 'Solo ride' : `Shared with ${coRiders} other booking${coRiders > 1 ? 's' : ''}`
+      }
+    ];
+    
+    const weights = scoringConfig.weights;
+    const totalWeight = factors.reduce((sum, f) => sum + weights[f.factor], 0);
+    
+    const scoreBreakdown: ScoreFactor[] = factors.map(f => {
+      const value = Math.min(1, Math.max(0, f.value));
+      const weight = weights[f.factor];
+      return {
+        factor: f.factor,
+        value,
+        weight,
+        points: totalWeight > 0 ? (100 * weight * value) / totalWeight : 0,
+        detail: f.detail
+      };
+    });
+    
+    return {
+      score: scoreBreakdown.reduce((sum, f) => sum + f.points, 0),
+      scoreBreakdown
+    };
+  }
+
+  /**
+   * Average minutes riders wait past their ready time for the cab
+   * A route that misses a pickup window counts as the maximum wait
+   */
+  private averagePickupWait(group: RideRequest[], route: RouteResult, options: RouteOptions): number {
+    const schedule = computeSchedule(route.waypoints, options);
+    if (!schedule) {
+      return scoringConfig.maxPickupWaitMinutes;
+    }
     
-    // Weighted scoring
-    const sizeScore = (groupSize / this.MAX_PASSENGERS) * 40;
-    const efficiencyScore = efficiency * 40;
-    const detourScore = Math.max(0, 20 - avgDetour);
+    const departure = (options.departureTime ?? new Date()).getTime();
+    const waits = group.map(request => {
+      const pickupIdx = route.waypoints.findIndex(w => w.type === 'pickup' && w.requestId === request.id);
+      const ready = Math.max(departure, new Date(request.earliestPickupAt).getTime());
+      return Math.max(0, (schedule[pickupIdx].getTime() - ready) / 60000);
+    });
     
-    return Math.min(100, sizeScore + efficiencyScore + detourScore);
+    return waits.reduce((a, b) => a + b, 0) / waits.length;
   }
 
   /**
@@ -225,7 +800,7 @@ export class RideMatchingEngine {
    */
   private calculateSavings(group: RideRequest[], route: any): number {
     const individualCosts = group.reduce((sum, r) => {
-      const distance = calculateDistance(r.pickup, r.dropoff);
+      const distance = getTravelTimeModel().distance(r.pickup, r.dropoff);
       return sum + (distance * 2.5); // $2.5 per km base rate
     }, 0);
     
@@ -235,8 +810,14 @@ export class RideMatchingEngine {
 
   /**
    * Create ride object from matched group
+   * @param detours - Planned detour of each rider, by request id (default: none)
    */
-  private createRide(group: RideRequest[], route: any): any {
+  private createRide(
+    group: RideRequest[],
+    route: any,
+    vehicle: VehicleCapacity,
+    detours: Map<string, number> = new Map()
+  ): any {
     return {
       passengers: group.map((r, idx) => ({
         requestId: r.id,
@@ -252,11 +833,25 @@ export class RideMatchingEngine {
           w.type === 'dropoff' && w.requestId === r.id
         ),
         fare: 0, // Calculated by pricing engine
-        detourMinutes: 0
+        detourMinutes: Math.max(0, Math.round(detours.get(r.id) ?? 0))
       })),
       route: route.waypoints.map((w: any) => w.location),
+      schedule: route.waypoints.map((w: Waypoint) => ({
+        type: w.type,
+        requestId: w.requestId,
+        location: w.location,
+        scheduledAt: w.scheduledAt
+      })),
       totalDistance: route.totalDistance,
-      estimatedDuration: route.estimatedDuration
+      estimatedDuration: route.estimatedDuration,
+      vehicle
     };
   }
 }
+
+/**
+ * Whether the cab has already been to a stop
+ */
+function isServed(waypoint: Waypoint, pickedUp: Set<string>, droppedOff: Set<string>): boolean {
+  return waypoint.type === 'pickup' ? pickedUp.has(waypoint.requestId) : droppedOff.has(waypoint.requestId);
+}
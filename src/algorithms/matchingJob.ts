@@ -0,0 +1,95 @@
+import { MatchResult, MatchingJob, MatchingJobStatus } from '../types';
+
+/**
+ * What happened to a request's matching job
+ */
+export type MatchingJobEvent =
+  | { type: 'QUEUED'; promoCode?: string }
+  | { type: 'STARTED'; attempt: number }
+  | { type: 'COMPLETED'; attempt: number; matches: MatchResult[] }
+  | { type: 'ATTEMPT_FAILED'; attemptsMade: number; maxAttempts: number; error: string }
+  | { type: 'ENQUEUE_FAILED'; error: string };
+
+/**
+ * Statuses a job can move to from each status
+ * An attempt can fail before it is recorded as started, and an active job
+ * starts again when Bull recovers it from a stalled worker; a finished job
+ * is only queued again
+ */
+const JOB_TRANSITIONS: Record<MatchingJobStatus, MatchingJobStatus[]> = {
+  [MatchingJobStatus.QUEUED]: [MatchingJobStatus.ACTIVE, MatchingJobStatus.QUEUED, MatchingJobStatus.FAILED],
+  [MatchingJobStatus.ACTIVE]: [
+    MatchingJobStatus.ACTIVE,
+    MatchingJobStatus.COMPLETED,
+    MatchingJobStatus.QUEUED,
+    MatchingJobStatus.FAILED
+  ],
+  [MatchingJobStatus.COMPLETED]: [MatchingJobStatus.QUEUED],
+  [MatchingJobStatus.FAILED]: [MatchingJobStatus.QUEUED]
+};
+
+/**
+ * Next state of a request's matching job
+ * A failed attempt goes back to QUEUED while Bull has attempts left, and to
+ * FAILED, for the dead-letter queue, after the last one. A job that could
+ * not be added to the queue is FAILED straight away
+ * @param job - Current state, null for a new job or one whose record expired
+ * @throws if the job cannot move to the resulting status
+ */
+export function advanceMatchingJob(
+  job: MatchingJob | null,
+  requestId: string,
+  event: MatchingJobEvent,
+  at: Date = new Date()
+): MatchingJob {
+  const next = nextState(requestId, event, at);
+
+  if (job && !JOB_TRANSITIONS[job.status].includes(next.status)) {
+    throw new Error(`Cannot move matching job from ${job.status} to ${next.status}`);
+  }
+
+  const promoCode = event.type === 'QUEUED' ? event.promoCode : job?.promoCode;
+  return promoCode ? { ...next, promoCode } : next;
+}
+
+/**
+ * Whether a completed job found rides but every quote has since expired,
+ * so the rider can only book after matching again
+ */
+export function quotesExpired(job: MatchingJob, now: Date = new Date()): boolean {
+  if (job.status !== MatchingJobStatus.COMPLETED || !job.matches || job.matches.length === 0) {
+    return false;
+  }
+  return job.matches.every(m => !m.quote || new Date(m.quote.expiresAt) <= now);
+}
+
+function nextState(requestId: string, event: MatchingJobEvent, updatedAt: Date): MatchingJob {
+  switch (event.type) {
+    case 'QUEUED':
+      return { requestId, status: MatchingJobStatus.QUEUED, progress: 0, attempts: 0, updatedAt };
+    case 'STARTED':
+      return { requestId, status: MatchingJobStatus.ACTIVE, progress: 10, attempts: event.attempt, updatedAt };
+    case 'COMPLETED':
+      return {
+        requestId,
+        status: MatchingJobStatus.COMPLETED,
+        progress: 100,
+        attempts: event.attempt,
+        matches: event.matches,
+        updatedAt
+      };
+    case 'ATTEMPT_FAILED': {
+      const retrying = event.attemptsMade < event.maxAttempts;
+      return {
+        requestId,
+        status: retrying ? MatchingJobStatus.QUEUED : MatchingJobStatus.FAILED,
+        progress: retrying ? 0 : 100,
+        attempts: event.attemptsMade,
+        error: event.error,
+        updatedAt
+      };
+    }
+    case 'ENQUEUE_FAILED':
+      return { requestId, status: MatchingJobStatus.FAILED, progress: 100, attempts: 0, error: event.error, updatedAt };
+  }
+}
@@ -1,10 +1,12 @@
-import { PricingParams } from '../types';
+import { PricingParams, FareBreakdown, Tariff } from '../types';
+import { TariffRuleBook, getTariffRuleBook } from './tariff';
+import { defaultTariff } from '../config/pricing';
 
 /**
  * Dynamic Pricing Engine
  * Time Complexity: O(1)
  * 
- * Formula:
+ * Formula (rates come from the active Tariff; defaults shown):
  * Base Fare = $5
  * Distance Rate = $2.5/km
  * Surge Multiplier = 1.0 - 3.0 (based on demand)
@@ -12,11 +14,13 @@ import { PricingParams } from '../types';
  * Pooling Discount = 20% - 40% (based on group size)
  * 
  * Final Fare = (Base + Distance × Rate) × Surge × Time × (1 - Discount)
+ * 
+ * Geofenced tariff rules apply before the pooling discount:
+ * a flat fare replaces the metered fare, a cap limits it, surcharges are added
+ * Each step is itemised in the returned FareBreakdown
  */
 export class PricingEngine {
-  private readonly BASE_FARE = 5.0;
-  private readonly RATE_PER_KM = 2.5;
-  private readonly MIN_FARE = 8.0;
+  constructor(private readonly tariffRules: TariffRuleBook = getTariffRuleBook()) {}
 
   /**
    * Calculate fare for a passenger in a ride
@@ -26,29 +30,92 @@ export class PricingEngine {
    * @param params.surgeFactor - Current surge multiplier
    * @param params.timeOfDay - Hour of day (0-23)
    * @param params.totalPassengersInRide - Total passengers in the shared ride (for discount)
+   * @param params.pickup, params.dropoff - This booking's trip, matched against tariff zones
+   * @param params.quotedAt - Picks the tariff rule set in effect (default now)
+   * @param params.tariff - Tariff in effect at quote time (default: defaultTariff)
+   * @returns Itemised fare for the booking; finalFare is the amount charged
    */
-  calculateFare(params: PricingParams & { totalPassengersInRide?: number }): number {
-    const { baseDistance, actualDistance, passengers, surgeFactor, timeOfDay, totalPassengersInRide } = params;
-    
-    // Base calculation PER PASSENGER
-    const baseFarePerPassenger = this.BASE_FARE;
-    const distanceFarePerPassenger = actualDistance * this.RATE_PER_KM;
+  calculateFare(params: PricingParams & { totalPassengersInRide?: number }): FareBreakdown {
+    const { baseDistance, actualDistance, passengers, surgeFactor, timeOfDay, totalPassengersInRide, pickup, dropoff, quotedAt } = params;
+    const tariff = params.tariff || defaultTariff;
     
-    // Time-based multiplier (peak hours: 7-9 AM, 5-7 PM)
-    const timeMultiplier = this.getTimeMultiplier(timeOfDay);
+    // Time-based multiplier (peak hours)
+    const timeMultiplier = this.getTimeMultiplier(timeOfDay, tariff);
     
     // Pooling discount based on total passengers in the ride
-    const poolingDiscount = this.getPoolingDiscount(totalPassengersInRide || passengers);
+    const poolingDiscountRate = this.getPoolingDiscount(totalPassengersInRide || passengers, tariff);
+    
+    // Every step is for the whole booking: per-passenger fare × passengers
+    const baseFare = round(tariff.baseFare * passengers);
+    const distanceFare = round(actualDistance * tariff.ratePerKm * passengers);
+    const surgeCharge = round((baseFare + distanceFare) * (surgeFactor - 1));
+    const timeCharge = round((baseFare + distanceFare + surgeCharge) * (timeMultiplier - 1));
+    const meteredFare = round(baseFare + distanceFare + surgeCharge + timeCharge);
+    
+    // Geofenced rules, before the pooling discount
+    const rules = pickup && dropoff ? this.tariffRules.match(pickup, dropoff, quotedAt) : null;
+    
+    const flatFareAdjustment = rules?.flatFare ? round(rules.flatFare.amount - meteredFare) : 0;
+    const tripFare = round(meteredFare + flatFareAdjustment);
+    
+    const capAdjustment = rules?.cap && tripFare > rules.cap.amount ? round(rules.cap.amount - tripFare) : 0;
+    
+    const surcharges = (rules?.surcharges || []).map(r => ({ name: r.name, amount: round(r.amount) }));
+    const surchargeTotal = surcharges.reduce((sum, r) => sum + r.amount, 0);
     
-    // Calculate fare for ONE passenger
-    let farePerPassenger = (baseFarePerPassenger + distanceFarePerPassenger) * surgeFactor * timeMultiplier;
-    farePerPassenger = farePerPassenger * (1 - poolingDiscount);
+    const discountable = round(tripFare + capAdjustment + surchargeTotal);
+    const { poolingDiscount, minimumFareAdjustment, finalFare } = this.discount(discountable, poolingDiscountRate, tariff);
     
-    // Multiply by number of passengers in THIS booking
-    let totalFare = farePerPassenger * passengers;
+    return {
+      passengers,
+      distanceKm: actualDistance,
+      baseFare,
+      distanceFare,
+      surgeMultiplier: surgeFactor,
+      surgeCharge,
+      timeMultiplier,
+      timeCharge,
+      tariffVersion: tariff.version,
+      tariffRulesVersion: rules ? rules.version : null,
+      flatFareAdjustment,
+      capAdjustment,
+      surcharges,
+      poolingDiscountRate,
+      poolingDiscount,
+      minimumFareAdjustment,
+      costSharingStrategy: null, // Shared rides are split afterwards, see costSharing.ts
+      costShareAdjustment: 0,
+      soloFare: null,
+      promoCode: null, // Promotions are applied to the quoted fare, see promotions.ts
+      promoDiscount: 0,
+      finalFare
+    };
+  }
+
+  /**
+   * Booked fare for a new number of passengers in the ride
+   * Everything before the pooling discount stays as booked; the discount
+   * and minimum fare are recomputed under the booking's tariff. Cost share
+   * and promo are cleared for the caller to apply again
+   */
+  rediscountFare(booked: FareBreakdown, totalPassengersInRide: number, tariff: Tariff): FareBreakdown {
+    const meteredFare = round(booked.baseFare + booked.distanceFare + booked.surgeCharge + booked.timeCharge);
+    const tripFare = round(meteredFare + booked.flatFareAdjustment);
+    const surchargeTotal = booked.surcharges.reduce((sum, r) => sum + r.amount, 0);
+    const discountable = round(tripFare + booked.capAdjustment + surchargeTotal);
     
-    // Apply minimum fare (per booking, not per passenger)
-    return Math.max(this.MIN_FARE, Math.round(totalFare * 100) / 100);
+    const poolingDiscountRate = this.getPoolingDiscount(totalPassengersInRide, tariff);
+    
+    return {
+      ...booked,
+      poolingDiscountRate,
+      ...this.discount(discountable, poolingDiscountRate, tariff),
+      costSharingStrategy: null,
+      costShareAdjustment: 0,
+      soloFare: null,
+      promoCode: null,
+      promoDiscount: 0
+    };
   }
 
   /**
@@ -65,50 +132,72 @@ export class PricingEngine {
   }
 
   /**
-   * Time-based multiplier
-   * Peak hours: 1.5x
-   * Normal hours: 1.0x
+   * Time-based multiplier from the tariff's windows
+   * Default: 1.5x at peak hours, 1.3x late night, 1.0x otherwise
    */
-  private getTimeMultiplier(hour: number): number {
-    // Peak morning: 7-9 AM
-    if (hour >= 7 && hour < 9) return 1.5;
-    
-    // Peak evening: 5-7 PM
-    if (hour >= 17 && hour < 19) return 1.5;
+  private getTimeMultiplier(hour: number, tariff: Tariff): number {
+    const window = tariff.timeMultipliers.find(w =>
+      w.startHour <= w.endHour
+        ? hour >= w.startHour && hour < w.endHour
+        : hour >= w.startHour || hour < w.endHour // Wraps past midnight
+    );
     
-    // Late night: 11 PM - 5 AM
-    if (hour >= 23 || hour < 5) return 1.3;
+    return window ? window.multiplier : 1.0;
+  }
+
+  /**
+   * Pooling discount, then the minimum fare (per booking, not per passenger)
+   */
+  private discount(discountable: number, rate: number, tariff: Tariff) {
+    const poolingDiscount = round(discountable * rate);
+    const subtotal = round(discountable - poolingDiscount);
+    const minimumFareAdjustment = round(Math.max(0, tariff.minFare - subtotal));
     
-    return 1.0;
+    return { poolingDiscount, minimumFareAdjustment, finalFare: round(subtotal + minimumFareAdjustment) };
   }
 
   /**
    * Pooling discount based on group size
-   * 2 passengers: 20% discount
-   * 3 passengers: 30% discount
-   * 4 passengers: 40% discount
+   * Default: 20% for 2 passengers, 30% for 3, 40% for 4 or more
    */
-  private getPoolingDiscount(passengers: number): number {
-    switch (passengers) {
-      case 1: return 0;
-      case 2: return 0.20;
-      case 3: return 0.30;
-      case 4: return 0.40;
-      default: return 0.40;
-    }
+  private getPoolingDiscount(passengers: number, tariff: Tariff): number {
+    const discounts = tariff.poolingDiscounts;
+    return discounts[Math.max(0, Math.min(passengers, discounts.length) - 1)] || 0;
   }
 
   /**
    * Calculate fare split for shared ride
-   * Each passenger pays proportional to their distance
+   * Each passenger pays proportional to their weight (e.g. distance), but
+   * never more than their cap; the excess moves to the others. If the caps
+   * add up to less than the total, everyone pays their cap
+   * Shares are in cents and add up to the amount split
+   * @param caps - Most each passenger may pay, e.g. their solo fare
    */
-  splitFare(totalFare: number, distances: number[]): number[] {
-    const totalDistance = distances.reduce((a, b) => a + b, 0);
+  splitFare(totalFare: number, weights: number[], caps?: number[]): number[] {
+    const shares = weights.map(() => 0);
+    let active = weights.map((_, i) => i);
+    let remaining = totalFare;
     
-    return distances.map(d => {
-      const proportion = d / totalDistance;
-      return Math.round(totalFare * proportion * 100) / 100;
-    });
+    while (active.length > 0) {
+      const totalWeight = active.reduce((sum, i) => sum + weights[i], 0);
+      const proportion = (i: number) => (totalWeight > 0 ? weights[i] / totalWeight : 1 / active.length);
+      
+      const over = caps ? active.filter(i => remaining * proportion(i) > caps[i]) : [];
+      if (over.length === 0) {
+        for (const i of active) {
+          shares[i] = remaining * proportion(i);
+        }
+        break;
+      }
+      
+      for (const i of over) {
+        shares[i] = caps![i];
+        remaining -= caps![i];
+      }
+      active = active.filter(i => !over.includes(i));
+    }
+    
+    return roundShares(shares, caps);
   }
 
   /**
@@ -118,3 +207,29 @@ export class PricingEngine {
     return Math.round((soloFare - pooledFare) * 100) / 100;
   }
 }
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Round shares to cents keeping their sum (largest remainder first)
+ * A share is only rounded up if that keeps it within its cap
+ */
+function roundShares(shares: number[], caps?: number[]): number[] {
+  const cents = shares.map(s => Math.floor(Math.round(s * 1e6) / 1e4));
+  let leftover = Math.round(shares.reduce((a, b) => a + b, 0) * 100) - cents.reduce((a, b) => a + b, 0);
+  
+  const byRemainder = shares
+    .map((s, i) => ({ i, remainder: s * 100 - cents[i] }))
+    .sort((a, b) => b.remainder - a.remainder);
+  
+  for (const { i } of byRemainder) {
+    if (leftover <= 0) break;
+    if (caps && (cents[i] + 1) / 100 > caps[i]) continue;
+    cents[i]++;
+    leftover--;
+  }
+  
+  return cents.map(c => c / 100);
+}
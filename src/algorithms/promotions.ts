@@ -0,0 +1,90 @@
+import { DiscountType, FareBreakdown, Location, Promotion } from '../types';
+import { isPointInPolygon } from './distance';
+
+/**
+ * The booking a promo code is quoted for
+ */
+export interface PromotionTrip {
+  pickup: Location;
+  dropoff: Location;
+  pooled: boolean; // Shares the ride with another booking
+}
+
+/**
+ * Whether a promotion can still be redeemed, ignoring the trip
+ * @param userRedemptions - Times this user has already redeemed the promotion
+ * @returns Why not, or null if it can
+ */
+export function checkRedeemable(promotion: Promotion, userRedemptions: number, at: Date = new Date()): string | null {
+  if (at.getTime() < promotion.validFrom.getTime()) {
+    return `Promo code ${promotion.code} is not valid until ${promotion.validFrom.toISOString()}`;
+  }
+
+  if (promotion.validTo && at.getTime() >= promotion.validTo.getTime()) {
+    return `Promo code ${promotion.code} expired at ${promotion.validTo.toISOString()}`;
+  }
+
+  if (promotion.globalLimit !== null && promotion.redemptionCount >= promotion.globalLimit) {
+    return `Promo code ${promotion.code} has been fully redeemed`;
+  }
+
+  if (promotion.perUserLimit !== null && userRedemptions >= promotion.perUserLimit) {
+    return `You have already used promo code ${promotion.code} the maximum number of times`;
+  }
+
+  return null;
+}
+
+/**
+ * Whether a promotion applies to a trip
+ * @returns Why not, or null if it applies
+ */
+export function checkEligible(
+  promotion: Promotion,
+  trip: PromotionTrip,
+  userRedemptions: number,
+  at: Date = new Date()
+): string | null {
+  const notRedeemable = checkRedeemable(promotion, userRedemptions, at);
+  if (notRedeemable) {
+    return notRedeemable;
+  }
+
+  if (promotion.pooledOnly && !trip.pooled) {
+    return `Promo code ${promotion.code} only applies to shared rides`;
+  }
+
+  if (promotion.area && !isPointInPolygon(trip.pickup, promotion.area) && !isPointInPolygon(trip.dropoff, promotion.area)) {
+    return `Promo code ${promotion.code} does not apply to trips in this area`;
+  }
+
+  return null;
+}
+
+/**
+ * Discount a promotion gives on a fare, capped at maxDiscount and the fare itself
+ */
+export function calculatePromoDiscount(promotion: Promotion, fare: number): number {
+  const discount = promotion.discountType === DiscountType.PERCENTAGE
+    ? fare * (promotion.amount / 100)
+    : promotion.amount;
+
+  const capped = Math.min(discount, promotion.maxDiscount ?? Infinity, fare);
+  return Math.round(Math.max(0, capped) * 100) / 100;
+}
+
+/**
+ * Fare breakdown with a promo discount deducted from the final fare
+ * The discount is limited to the fare so the booking never goes negative
+ */
+export function withPromoDiscount(breakdown: FareBreakdown, code: string, discount: number): FareBreakdown {
+  const fareBeforePromo = breakdown.finalFare + breakdown.promoDiscount;
+  const promoDiscount = Math.round(Math.min(discount, fareBeforePromo) * 100) / 100;
+
+  return {
+    ...breakdown,
+    promoCode: code,
+    promoDiscount,
+    finalFare: Math.round((fareBeforePromo - promoDiscount) * 100) / 100
+  };
+}
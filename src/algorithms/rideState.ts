@@ -0,0 +1,46 @@
+import { RideStatus, StatusEntity } from '../types';
+
+/**
+ * Statuses a ride can move to from each status
+ * Rides are created CONFIRMED; only a ride that has started can complete,
+ * and a ride that has started can no longer be cancelled
+ */
+const RIDE_TRANSITIONS: Record<RideStatus, RideStatus[]> = {
+  [RideStatus.PENDING]: [RideStatus.CONFIRMED, RideStatus.CANCELLED],
+  [RideStatus.MATCHED]: [RideStatus.CONFIRMED, RideStatus.CANCELLED],
+  [RideStatus.CONFIRMED]: [RideStatus.IN_PROGRESS, RideStatus.CANCELLED],
+  [RideStatus.IN_PROGRESS]: [RideStatus.COMPLETED],
+  [RideStatus.COMPLETED]: [],
+  [RideStatus.CANCELLED]: []
+};
+
+/**
+ * Statuses a request can move to from each status
+ * A confirmed request goes back to PENDING when its ride is cancelled
+ */
+const REQUEST_TRANSITIONS: Record<RideStatus, RideStatus[]> = {
+  [RideStatus.PENDING]: [RideStatus.MATCHED, RideStatus.CONFIRMED, RideStatus.CANCELLED],
+  [RideStatus.MATCHED]: [RideStatus.PENDING, RideStatus.CONFIRMED, RideStatus.CANCELLED],
+  [RideStatus.CONFIRMED]: [RideStatus.IN_PROGRESS, RideStatus.PENDING, RideStatus.CANCELLED],
+  [RideStatus.IN_PROGRESS]: [RideStatus.COMPLETED],
+  [RideStatus.COMPLETED]: [],
+  [RideStatus.CANCELLED]: []
+};
+
+export function allowedTransitions(entity: StatusEntity, from: RideStatus): RideStatus[] {
+  return (entity === 'RIDE' ? RIDE_TRANSITIONS : REQUEST_TRANSITIONS)[from] || [];
+}
+
+export function canTransition(entity: StatusEntity, from: RideStatus, to: RideStatus): boolean {
+  return allowedTransitions(entity, from).includes(to);
+}
+
+/**
+ * @throws if the state machine does not allow the change
+ */
+export function assertTransition(entity: StatusEntity, from: RideStatus, to: RideStatus): void {
+  if (!canTransition(entity, from, to)) {
+    const name = entity === 'RIDE' ? 'ride' : 'request';
+    throw new Error(`Cannot move ${name} from ${from} to ${to}`);
+  }
+}
@@ -0,0 +1,332 @@
+import fs from 'fs';
+import { Location } from '../types';
+import { calculateDistance } from './distance';
+import type { TravelTimeModel } from './travelTime';
+
+/**
+ * Free-flow speeds by OSM highway class (km/h), used when a way has no maxspeed
+ */
+const HIGHWAY_SPEEDS_KMH: Record<string, number> = {
+  motorway: 100,
+  motorway_link: 60,
+  trunk: 80,
+  trunk_link: 50,
+  primary: 60,
+  primary_link: 40,
+  secondary: 50,
+  secondary_link: 35,
+  tertiary: 40,
+  tertiary_link: 30,
+  unclassified: 30,
+  residential: 25,
+  living_street: 10,
+  service: 15
+};
+
+// Snapping index cell size in degrees (~1km)
+const GRID_CELL_DEGREES = 0.01;
+
+interface Edge {
+  to: number;
+  distanceKm: number;
+  minutes: number;
+}
+
+interface PathCost {
+  distanceKm: number;
+  minutes: number;
+}
+
+export interface RoadNetworkOptions {
+  maxSnapDistanceKm: number;
+  pathCacheSize: number;
+}
+
+/**
+ * Directed road graph with Dijkstra shortest paths on travel time
+ * Points are snapped to the nearest graph node; legs that cannot be snapped
+ * or routed use the fallback model instead of failing the match
+ */
+export class RoadNetworkModel implements TravelTimeModel {
+  readonly name = 'road' as const;
+  private readonly grid = new Map<string, number[]>();
+  private readonly cache = new Map<string, PathCost | null>();
+  // Dijkstra scratch space shared by every search; an entry only counts
+  // when its stamp matches the current search
+  private readonly minutes: Float64Array;
+  private readonly distances: Float64Array;
+  private readonly stamps: Uint32Array;
+  private search = 0;
+
+  constructor(
+    private readonly nodes: Location[],
+    private readonly adjacency: Edge[][],
+    private readonly fallback: TravelTimeModel,
+    private readonly options: RoadNetworkOptions
+  ) {
+    this.minutes = new Float64Array(nodes.length);
+    this.distances = new Float64Array(nodes.length);
+    this.stamps = new Uint32Array(nodes.length);
+
+    nodes.forEach((node, index) => {
+      const key = cellKey(cellOf(node.latitude), cellOf(node.longitude));
+      const cell = this.grid.get(key);
+      if (cell) {
+        cell.push(index);
+      } else {
+        this.grid.set(key, [index]);
+      }
+    });
+  }
+
+  /**
+   * Load drivable ways from an OSM XML extract (.osm)
+   */
+  static fromOsmFile(path: string, fallback: TravelTimeModel, options: RoadNetworkOptions): RoadNetworkModel {
+    return RoadNetworkModel.fromOsmXml(fs.readFileSync(path, 'utf8'), fallback, options);
+  }
+
+  static fromOsmXml(xml: string, fallback: TravelTimeModel, options: RoadNetworkOptions): RoadNetworkModel {
+    const osmNodes = new Map<string, Location>();
+    for (const match of xml.matchAll(/<node\b([^>]*)>/g)) {
+      const attrs = parseAttributes(match[1]);
+      if (attrs.id && attrs.lat && attrs.lon) {
+        osmNodes.set(attrs.id, { latitude: parseFloat(attrs.lat), longitude: parseFloat(attrs.lon) });
+      }
+    }
+
+    const nodes: Location[] = [];
+    const adjacency: Edge[][] = [];
+    const indexOf = new Map<string, number>();
+    const nodeIndex = (id: string): number => {
+      let index = indexOf.get(id);
+      if (index === undefined) {
+        index = nodes.length;
+        indexOf.set(id, index);
+        nodes.push(osmNodes.get(id)!);
+        adjacency.push([]);
+      }
+      return index;
+    };
+
+    for (const match of xml.matchAll(/<way\b[^>]*>([\s\S]*?)<\/way>/g)) {
+      const tags: Record<string, string> = {};
+      for (const tag of match[1].matchAll(/<tag\b([^>]*)\/?>/g)) {
+        const attrs = parseAttributes(tag[1]);
+        tags[attrs.k] = attrs.v;
+      }
+
+      const speed = waySpeed(tags);
+      if (speed === null) continue;
+
+      const refs = [...match[1].matchAll(/<nd\b[^>]*\bref="([^"]+)"/g)]
+        .map(nd => nd[1])
+        .filter(ref => osmNodes.has(ref));
+      const oneway = tags.oneway === 'yes' || tags.oneway === '1' || tags.junction === 'roundabout';
+      const reverse = tags.oneway === '-1';
+
+      for (let i = 0; i < refs.length - 1; i++) {
+        const a = nodeIndex(refs[i]);
+        const b = nodeIndex(refs[i + 1]);
+        const distanceKm = calculateDistance(nodes[a], nodes[b]);
+        const minutes = (distanceKm / speed) * 60;
+
+        if (!reverse) adjacency[a].push({ to: b, distanceKm, minutes });
+        if (!oneway || reverse) adjacency[b].push({ to: a, distanceKm, minutes });
+      }
+    }
+
+    if (nodes.length === 0) {
+      throw new Error('OSM extract contains no drivable roads');
+    }
+
+    return new RoadNetworkModel(nodes, adjacency, fallback, options);
+  }
+
+  distance(from: Location, to: Location): number {
+    const path = this.shortestPath(from, to);
+    return path ? path.distanceKm : this.fallback.distance(from, to);
+  }
+
+  travelTime(from: Location, to: Location, departAt?: Date): number {
+    const path = this.shortestPath(from, to);
+    return path ? Math.ceil(path.minutes) : this.fallback.travelTime(from, to, departAt);
+  }
+
+  /**
+   * Fastest path between the nodes nearest each point, plus the off-road
+   * snapping legs; null when either point is off the network or unreachable
+   */
+  private shortestPath(from: Location, to: Location): PathCost | null {
+    const source = this.snap(from);
+    const target = this.snap(to);
+    if (!source || !target) return null;
+
+    const path = this.cachedPath(source.node, target.node);
+    if (!path) return null;
+
+    const snapKm = source.distanceKm + target.distanceKm;
+    return {
+      distanceKm: path.distanceKm + snapKm,
+      minutes: path.minutes + (snapKm / HIGHWAY_SPEEDS_KMH.residential) * 60
+    };
+  }
+
+  private cachedPath(source: number, target: number): PathCost | null {
+    const key = `${source}:${target}`;
+    if (this.cache.has(key)) {
+      return this.cache.get(key)!;
+    }
+
+    const path = this.dijkstra(source, target);
+    if (this.cache.size >= this.options.pathCacheSize) {
+      // Evict the oldest entry (Map keeps insertion order)
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    this.cache.set(key, path);
+    return path;
+  }
+
+  private dijkstra(source: number, target: number): PathCost | null {
+    if (source === target) return { distanceKm: 0, minutes: 0 };
+
+    const { minutes, distances, stamps } = this;
+    const search = ++this.search;
+    const best = (node: number) => (stamps[node] === search ? minutes[node] : Infinity);
+
+    const heap = new MinHeap();
+    stamps[source] = search;
+    minutes[source] = 0;
+    distances[source] = 0;
+    heap.push(source, 0);
+
+    while (heap.size > 0) {
+      const { node, cost } = heap.pop();
+      if (cost > best(node)) continue;
+      if (node === target) {
+        return { distanceKm: distances[node], minutes: cost };
+      }
+
+      for (const edge of this.adjacency[node]) {
+        const next = cost + edge.minutes;
+        if (next < best(edge.to)) {
+          stamps[edge.to] = search;
+          minutes[edge.to] = next;
+          distances[edge.to] = distances[node] + edge.distanceKm;
+          heap.push(edge.to, next);
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Nearest graph node within maxSnapDistanceKm, searching outward ring by ring
+   */
+  private snap(location: Location): { node: number; distanceKm: number } | null {
+    const row = cellOf(location.latitude);
+    const col = cellOf(location.longitude);
+    // Longitude cells are the narrower side away from the equator
+    const cellKm = GRID_CELL_DEGREES * 111 * Math.cos((location.latitude * Math.PI) / 180);
+    const maxRing = Math.max(1, Math.ceil(this.options.maxSnapDistanceKm / cellKm));
+    let bestNode = -1;
+    let bestKm = Infinity;
+
+    for (let ring = 0; ring <= maxRing; ring++) {
+      for (let r = row - ring; r <= row + ring; r++) {
+        for (let c = col - ring; c <= col + ring; c++) {
+          if (Math.max(Math.abs(r - row), Math.abs(c - col)) !== ring) continue;
+
+          for (const node of this.grid.get(cellKey(r, c)) || []) {
+            const distanceKm = calculateDistance(location, this.nodes[node]);
+            if (distanceKm < bestKm) {
+              bestNode = node;
+              bestKm = distanceKm;
+            }
+          }
+        }
+      }
+      // Anything in a further ring is at least one cell away
+      if (bestKm <= ring * cellKm) break;
+    }
+
+    return bestKm <= this.options.maxSnapDistanceKm ? { node: bestNode, distanceKm: bestKm } : null;
+  }
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(/(\w+)="([^"]*)"/g)) {
+    attrs[match[1]] = match[2];
+  }
+  return attrs;
+}
+
+/**
+ * Speed for a way in km/h, or null if cars cannot use it
+ */
+function waySpeed(tags: Record<string, string>): number | null {
+  const base = HIGHWAY_SPEEDS_KMH[tags.highway];
+  if (base === undefined || tags.access === 'no' || tags.motor_vehicle === 'no') {
+    return null;
+  }
+
+  const maxspeed = parseFloat(tags.maxspeed || '');
+  if (maxspeed > 0) {
+    return tags.maxspeed.includes('mph') ? maxspeed * 1.609 : maxspeed;
+  }
+  return base;
+}
+
+function cellOf(degrees: number): number {
+  return Math.floor(degrees / GRID_CELL_DEGREES);
+}
+
+function cellKey(row: number, col: number): string {
+  return `${row}:${col}`;
+}
+
+/**
+ * Binary min-heap of (node, cost) pairs
+ */
+class MinHeap {
+  private readonly items: { node: number; cost: number }[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(node: number, cost: number): void {
+    const items = this.items;
+    items.push({ node, cost });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].cost <= items[i].cost) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): { node: number; cost: number } {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].cost < items[smallest].cost) smallest = left;
+        if (right < items.length && items[right].cost < items[smallest].cost) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
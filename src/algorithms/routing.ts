@@ -1,89 +1,355 @@
 import { RideRequest, Location } from '../types';
-import { calculateDistance, calculateRouteDistance, estimateTravelTime } from './distance';
+import { getTravelTimeModel, withLegCache } from './travelTime';
 
-interface Waypoint {
+export interface Waypoint {
   type: 'pickup' | 'dropoff';
   location: Location;
   requestId: string;
   passengers: number;
+  earliest?: number; // Pickup window start (epoch ms), cab waits if early
+  latest?: number; // Pickup window end (epoch ms)
+  scheduledAt?: Date; // Planned service time, set when the route is feasible
 }
 
-interface RouteResult {
+export interface RouteResult {
   waypoints: Waypoint[];
   totalDistance: number;
   estimatedDuration: number;
 }
 
+/**
+ * Path kept by the exact optimizer for one state, linked back to its start
+ */
+interface RouteLabel {
+  distance: number;
+  time: number; // Service time at last (epoch ms)
+  last: number;
+  prev: RouteLabel | null;
+}
+
+export interface RouteOptions {
+  start?: Location; // Where the cab is now; the first leg counts toward route cost
+  capacity?: number; // Seats in the cab; onboard passengers never exceed it
+  departureTime?: Date; // When the cab leaves start (or reaches the first stop); defaults to now
+}
+
+// Largest group solved exactly; bigger groups fall back to the heuristic
+// DP state grows as 4^k, so the limit is capped where memory still holds
+const DP_MAX_REQUESTS_LIMIT = 10;
+const DP_MAX_REQUESTS = parseInt(process.env.ROUTE_DP_MAX_REQUESTS || '7');
+if (!(DP_MAX_REQUESTS >= 1 && DP_MAX_REQUESTS <= DP_MAX_REQUESTS_LIMIT)) {
+  throw new Error(`ROUTE_DP_MAX_REQUESTS must be between 1 and ${DP_MAX_REQUESTS_LIMIT}`);
+}
+
+// Cap on local-search passes for the heuristic
+const LOCAL_SEARCH_MAX_PASSES = parseInt(process.env.ROUTE_LOCAL_SEARCH_MAX_PASSES || '50');
+
+// Heuristic penalty per minute a pickup is missed by, in km of route
+const LATE_PENALTY_KM_PER_MINUTE = 100;
+
 /**
  * Optimize route for multiple pickups and dropoffs
- * Time Complexity: O(k! × m) where k = passengers, m = waypoints
- * For k <= 4, uses dynamic programming
- * For k > 4, uses greedy heuristic
- * Space Complexity: O(2^k × k)
+ * For k <= DP_MAX_REQUESTS, uses exact bitmask dynamic programming
+ * For larger k, uses construction heuristic plus local search
+ * Time Complexity: O(4^k × k²) exact, O(P × k³) heuristic (P = search passes)
+ * Space Complexity: O(4^k × k)
  */
-export function optimizeRoute(requests: RideRequest[]): RouteResult {
+export function optimizeRoute(requests: RideRequest[], options: RouteOptions = {}): RouteResult {
   if (requests.length === 1) {
-    return createSimpleRoute(requests[0]);
+    return createSimpleRoute(requests[0], options);
   }
   
-  if (requests.length <= 4) {
-    return optimizeRouteDynamic(requests);
-  }
-  
-  return optimizeRouteGreedy(requests);
+  return withLegCache(() =>
+    requests.length <= DP_MAX_REQUESTS
+      ? optimizeRouteDynamic(requests, options)
+      : optimizeRouteHeuristic(requests, options)
+  );
 }
 
 /**
  * Simple route for single passenger
  */
-function createSimpleRoute(request: RideRequest): RouteResult {
-  const waypoints: Waypoint[] = [
-    {
-      type: 'pickup',
-      location: request.pickup,
-      requestId: request.id,
-      passengers: request.passengers
-    },
-    {
-      type: 'dropoff',
-      location: request.dropoff,
-      requestId: request.id,
-      passengers: request.passengers
+function createSimpleRoute(request: RideRequest, options: RouteOptions = {}): RouteResult {
+  return finalizeRoute(createWaypoints([request]), options);
+}
+
+/**
+ * Compute the service time of every stop along a route
+ * The cab waits at a pickup that is reached before its window opens;
+ * reaching a pickup after its window closes makes the route infeasible
+ * @returns Times in stop order, or null if any pickup window is missed
+ */
+export function computeSchedule(waypoints: Waypoint[], options: RouteOptions = {}): Date[] | null {
+  const { times, lateMinutes } = walkSchedule(waypoints, options);
+  return lateMinutes > 0 ? null : times.map(t => new Date(t));
+}
+
+/**
+ * Walk a route in time, recording service times and total minutes late
+ */
+function walkSchedule(waypoints: Waypoint[], options: RouteOptions): { times: number[]; lateMinutes: number } {
+  let time = (options.departureTime ?? new Date()).getTime();
+  let previous = options.start;
+  let lateMinutes = 0;
+  const times: number[] = [];
+  
+  for (const wp of waypoints) {
+    if (previous) {
+      time += getTravelTimeModel().travelTime(previous, wp.location, new Date(time)) * 60000;
+    }
+    
+    if (wp.type === 'pickup') {
+      if (wp.latest !== undefined && time > wp.latest) {
+        lateMinutes += (time - wp.latest) / 60000;
+      }
+      if (wp.earliest !== undefined && time < wp.earliest) {
+        time = wp.earliest;
+      }
     }
-  ];
+    
+    times.push(time);
+    previous = wp.location;
+  }
   
-  const distance = calculateDistance(request.pickup, request.dropoff);
+  return { times, lateMinutes };
+}
+
+/**
+ * Build the route result for a stop sequence
+ * Reported distance covers the stops only, not the approach leg
+ */
+export function finalizeRoute(route: Waypoint[], options: RouteOptions): RouteResult {
+  const schedule = computeSchedule(route, options);
+  const waypoints = schedule
+    ? route.map((wp, i) => ({ ...wp, scheduledAt: schedule[i] }))
+    : route;
   
   return {
     waypoints,
-    totalDistance: distance,
-    estimatedDuration: estimateTravelTime(distance)
+    totalDistance: routeDistance(route),
+    estimatedDuration: routeDuration(route, options)
   };
 }
 
 /**
- * Dynamic programming approach for small groups
- * Ensures optimal solution
+ * Driving distance through the stops under the active travel-time model
+ */
+function routeDistance(route: Waypoint[]): number {
+  const model = getTravelTimeModel();
+  let total = 0;
+  for (let i = 0; i < route.length - 1; i++) {
+    total += model.distance(route[i].location, route[i + 1].location);
+  }
+  return total;
+}
+
+/**
+ * Driving minutes through the stops, excluding waits for pickup windows
+ */
+function routeDuration(route: Waypoint[], options: RouteOptions): number {
+  const model = getTravelTimeModel();
+  const departAt = options.departureTime ?? new Date();
+  let total = 0;
+  for (let i = 0; i < route.length - 1; i++) {
+    total += model.travelTime(route[i].location, route[i + 1].location, departAt);
+  }
+  return total;
+}
+
+/**
+ * Build pickup/dropoff waypoints for a group
+ * Waypoint 2i is the pickup and 2i + 1 the dropoff of request i
  */
-function optimizeRouteDynamic(requests: RideRequest[]): RouteResult {
+function createWaypoints(requests: RideRequest[]): Waypoint[] {
   const waypoints: Waypoint[] = [];
   
-  // Create all waypoints
   for (const req of requests) {
-    waypoints.push({
-      type: 'pickup',
-      location: req.pickup,
-      requestId: req.id,
-      passengers: req.passengers
-    });
-    waypoints.push({
-      type: 'dropoff',
-      location: req.dropoff,
-      requestId: req.id,
-      passengers: req.passengers
-    });
+    waypoints.push(createPickup(req));
+    waypoints.push(createDropoff(req));
+  }
+  
+  return waypoints;
+}
+
+/**
+ * Pickup waypoint carrying the request's pickup window
+ * Dates may arrive as ISO strings when requests come from the cache
+ */
+function createPickup(request: RideRequest): Waypoint {
+  return {
+    type: 'pickup',
+    location: request.pickup,
+    requestId: request.id,
+    passengers: request.passengers,
+    earliest: request.earliestPickupAt ? new Date(request.earliestPickupAt).getTime() : undefined,
+    latest: request.latestPickupAt ? new Date(request.latestPickupAt).getTime() : undefined
+  };
+}
+
+function createDropoff(request: RideRequest): Waypoint {
+  return {
+    type: 'dropoff',
+    location: request.dropoff,
+    requestId: request.id,
+    passengers: request.passengers
+  };
+}
+
+/**
+ * Exact route optimization with dynamic programming over visited-waypoint bitmasks
+ * Each state (mask, last) keeps the Pareto-optimal paths visiting exactly the
+ * waypoints in mask and ending at last: no kept path is both longer and later
+ * than another. A longer path that arrives earlier can still meet a later
+ * pickup window, so it is only dropped once windows are relaxed
+ * A dropoff is only reachable once its pickup is in the mask, and a pickup
+ * only while the passengers on board stay within capacity and its window is open
+ * Time Complexity: O(4^k × k² × L) where k = requests (2k waypoints) and
+ * L = paths kept per state (1 without windows)
+ * Space Complexity: O(4^k × k × L)
+ */
+export function optimizeRouteDynamic(requests: RideRequest[], options: RouteOptions = {}): RouteResult {
+  const waypoints = createWaypoints(requests);
+  
+  // No order meets the windows: drop them (route comes back unscheduled),
+  // then capacity if a single request is larger than the cab
+  const order = solveDynamic(waypoints, options, true, true) ??
+    solveDynamic(waypoints, options, true, false) ??
+    solveDynamic(waypoints, options, false, false)!;
+  
+  return finalizeRoute(order.map(i => waypoints[i]), options);
+}
+
+/**
+ * Bitmask DP core; returns waypoint indexes in visiting order
+ * Precedence always applies; capacity and pickup windows can be relaxed
+ */
+function solveDynamic(
+  waypoints: Waypoint[],
+  options: RouteOptions,
+  enforceCapacity: boolean,
+  enforceWindows: boolean
+): number[] | null {
+  const n = waypoints.length;
+  const full = (1 << n) - 1;
+  const capacity = enforceCapacity ? options.capacity ?? Infinity : Infinity;
+  const departure = (options.departureTime ?? new Date()).getTime();
+  
+  // Passengers on board after visiting mask: picked up but not yet dropped off
+  const load = new Int16Array(full + 1);
+  for (let mask = 1; mask <= full; mask++) {
+    const low = 31 - Math.clz32(mask & -mask);
+    const sign = (low & 1) === 0 ? 1 : -1;
+    load[mask] = load[mask & (mask - 1)] + sign * waypoints[low].passengers;
+  }
+  
+  // Pairwise distances, computed once; leg times depend on when the leg
+  // starts, so each is looked up at the path's time, as computeSchedule does
+  const model = getTravelTimeModel();
+  const dist = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      if (i === j) continue;
+      dist[i * n + j] = model.distance(waypoints[i].location, waypoints[j].location);
+    }
+  }
+  const travelMs = (from: number, to: number, time: number) =>
+    model.travelTime(waypoints[from].location, waypoints[to].location, new Date(time)) * 60000;
+  
+  // Service time at the last stop, after any wait for its window
+  const arrive = (wp: Waypoint, time: number): number => {
+    if (!enforceWindows || wp.type !== 'pickup') return time;
+    if (wp.latest !== undefined && time > wp.latest) return Infinity;
+    return wp.earliest !== undefined ? Math.max(time, wp.earliest) : time;
+  };
+  
+  const labels: (RouteLabel[] | undefined)[] = new Array((full + 1) * n);
+  const dominates = (a: RouteLabel, b: RouteLabel) =>
+    a.distance <= b.distance && (!enforceWindows || a.time <= b.time);
+  const addLabel = (state: number, label: RouteLabel) => {
+    const kept = labels[state];
+    if (!kept) {
+      labels[state] = [label];
+      return;
+    }
+    if (kept.some(l => dominates(l, label))) return;
+    labels[state] = kept.filter(l => !dominates(label, l));
+    labels[state]!.push(label);
+  };
+  
+  // Routes start at any pickup, reached from the cab's position if known
+  for (let i = 0; i < n; i += 2) {
+    if (waypoints[i].passengers > capacity) continue;
+    
+    const approach = options.start ? model.distance(options.start, waypoints[i].location) : 0;
+    const approachMs = options.start ? model.travelTime(options.start, waypoints[i].location, new Date(departure)) * 60000 : 0;
+    const at = arrive(waypoints[i], departure + approachMs);
+    if (at === Infinity) continue;
+    
+    addLabel((1 << i) * n + i, { distance: approach, time: at, last: i, prev: null });
   }
   
+  // Masks only grow, so increasing numeric order is a valid topological order
+  for (let mask = 1; mask <= full; mask++) {
+    for (let last = 0; last < n; last++) {
+      const current = labels[mask * n + last];
+      if (!current) continue;
+      
+      for (let next = 0; next < n; next++) {
+        const bit = 1 << next;
+        if (mask & bit) continue;
+        
+        // Dropoffs (odd index) require their pickup (next - 1) to be visited
+        if ((next & 1) === 1 && !(mask & (1 << (next - 1)))) continue;
+        
+        const nextMask = mask | bit;
+        if (load[nextMask] > capacity) continue;
+        
+        for (const label of current) {
+          const at = arrive(waypoints[next], label.time + travelMs(last, next, label.time));
+          if (at === Infinity) continue;
+          
+          addLabel(nextMask * n + next, {
+            distance: label.distance + dist[last * n + next],
+            time: at,
+            last: next,
+            prev: label
+          });
+        }
+      }
+    }
+  }
+  
+  // Best route must end at a dropoff
+  let best: RouteLabel | null = null;
+  for (let last = 1; last < n; last += 2) {
+    for (const label of labels[full * n + last] ?? []) {
+      if (!best || label.distance < best.distance) {
+        best = label;
+      }
+    }
+  }
+  
+  if (!best) {
+    return null;
+  }
+  
+  // Walk back to the start
+  const order: number[] = [];
+  for (let label: RouteLabel | null = best; label; label = label.prev) {
+    order.push(label.last);
+  }
+  
+  return order.reverse();
+}
+
+/**
+ * Exhaustive search over all waypoint permutations
+ * Reference implementation kept to verify and benchmark the DP optimizer
+ * Time Complexity: O((2k)! × k)
+ */
+export function optimizeRouteExhaustive(requests: RideRequest[]): RouteResult {
+  const waypoints = createWaypoints(requests);
+  
   // Try all valid permutations and find shortest
   let bestRoute: Waypoint[] | null = null;
   let bestDistance = Infinity;
@@ -91,7 +357,7 @@ function optimizeRouteDynamic(requests: RideRequest[]): RouteResult {
   const validRoutes = generateValidRoutes(waypoints, requests);
   
   for (const route of validRoutes) {
-    const distance = calculateRouteDistance(route.map(w => w.location));
+    const distance = routeDistance(route);
     if (distance < bestDistance) {
       bestDistance = distance;
       bestRoute = route;
@@ -101,7 +367,7 @@ function optimizeRouteDynamic(requests: RideRequest[]): RouteResult {
   return {
     waypoints: bestRoute!,
     totalDistance: bestDistance,
-    estimatedDuration: estimateTravelTime(bestDistance)
+    estimatedDuration: routeDuration(bestRoute!, {})
   };
 }
 
@@ -147,82 +413,226 @@ function generateValidRoutes(waypoints: Waypoint[], requests: RideRequest[]): Wa
 }
 
 /**
- * Greedy heuristic for larger groups
- * Nearest neighbor approach
- * Time Complexity: O(k²)
+ * Heuristic for groups above the DP limit
+ * 1. Nearest-neighbour construction over feasible next stops
+ * 2. Local search with relocate, exchange and 2-opt moves
+ * Every candidate keeps pickup-before-dropoff and capacity; missed pickup
+ * windows are penalised so the search moves toward on-time schedules
+ * Time Complexity: O(k³) construction + O(P × k³) local search
  */
-function optimizeRouteGreedy(requests: RideRequest[]): RouteResult {
-  const waypoints: Waypoint[] = [];
-  const remaining = new Set<string>();
+export function optimizeRouteHeuristic(requests: RideRequest[], options: RouteOptions = {}): RouteResult {
+  const capacity = options.capacity ?? Infinity;
   
-  // Initialize waypoints
-  for (const req of requests) {
-    waypoints.push({
-      type: 'pickup',
-      location: req.pickup,
-      requestId: req.id,
-      passengers: req.passengers
-    });
-    remaining.add(req.id);
-  }
+  // Without a known cab position, try each pickup as the first stop
+  const starts = options.start
+    ? [buildNearestNeighbourRoute(requests, options.start, capacity)]
+    : requests.map(r => buildNearestNeighbourRoute(requests, r.pickup, capacity));
   
+  let best = starts.reduce((a, b) => routeCost(a, options) <= routeCost(b, options) ? a : b);
+  best = improveRoute(best, options, capacity);
+  
+  return finalizeRoute(best, options);
+}
+
+/**
+ * Nearest-neighbour construction
+ * Next stop = closest pickup that fits in the cab or closest onboard dropoff
+ */
+function buildNearestNeighbourRoute(requests: RideRequest[], from: Location, capacity: number): Waypoint[] {
+  const waypoints = createWaypoints(requests);
+  const pending = new Set<number>(waypoints.map((_, i) => i).filter(i => i % 2 === 0));
   const route: Waypoint[] = [];
-  const pickedUp = new Set<string>();
-  let currentLocation: Location = waypoints[0].location;
+  let current = from;
+  let load = 0;
   
-  // Greedy selection: always pick nearest valid waypoint
-  while (waypoints.length > 0 || pickedUp.size > 0) {
+  while (route.length < waypoints.length) {
     let nearestIdx = -1;
     let nearestDist = Infinity;
-    let isPickup = false;
     
-    // Find nearest pickup
-    for (let i = 0; i < waypoints.length; i++) {
-      const dist = calculateDistance(currentLocation, waypoints[i].location);
+    for (const i of pending) {
+      const wp = waypoints[i];
+      if (wp.type === 'pickup' && load + wp.passengers > capacity) continue;
+      
+      const dist = getTravelTimeModel().distance(current, wp.location);
       if (dist < nearestDist) {
         nearestDist = dist;
         nearestIdx = i;
-        isPickup = true;
       }
     }
     
-    // Find nearest dropoff (only for picked up passengers)
-    for (const req of requests) {
-      if (pickedUp.has(req.id)) {
-        const dist = calculateDistance(currentLocation, req.dropoff);
-        if (dist < nearestDist) {
-          nearestDist = dist;
-          nearestIdx = -1;
-          isPickup = false;
-        }
+    // A single request larger than the cab can never be served in order
+    if (nearestIdx === -1) {
+      for (const i of pending) {
+        if (nearestIdx === -1 || i < nearestIdx) nearestIdx = i;
       }
     }
     
-    if (isPickup && nearestIdx >= 0) {
-      const wp = waypoints[nearestIdx];
-      route.push(wp);
-      pickedUp.add(wp.requestId);
-      currentLocation = wp.location;
-      waypoints.splice(nearestIdx, 1);
+    const wp = waypoints[nearestIdx];
+    route.push(wp);
+    pending.delete(nearestIdx);
+    current = wp.location;
+    
+    if (wp.type === 'pickup') {
+      load += wp.passengers;
+      pending.add(nearestIdx + 1); // Its dropoff becomes available
     } else {
-      // Add dropoff
-      const req = requests.find(r => pickedUp.has(r.id))!;
-      route.push({
-        type: 'dropoff',
-        location: req.dropoff,
-        requestId: req.id,
-        passengers: req.passengers
-      });
-      pickedUp.delete(req.id);
-      currentLocation = req.dropoff;
+      load -= wp.passengers;
     }
   }
   
-  const totalDistance = calculateRouteDistance(route.map(w => w.location));
+  return route;
+}
+
+/**
+ * Local search until no move improves the route or the pass limit is hit
+ * Moves are applied on first improvement
+ */
+function improveRoute(route: Waypoint[], options: RouteOptions, capacity: number): Waypoint[] {
+  let best = route;
+  let bestCost = routeCost(best, options);
   
-  return {
-    waypoints: route,
-    totalDistance,
-    estimatedDuration: estimateTravelTime(totalDistance)
-  };
+  for (let pass = 0; pass < LOCAL_SEARCH_MAX_PASSES; pass++) {
+    let improved = false;
+    
+    for (const candidate of neighbourhood(best)) {
+      if (!isFeasibleRoute(candidate, capacity)) continue;
+      
+      const cost = routeCost(candidate, options);
+      if (cost < bestCost - 1e-9) {
+        best = candidate;
+        bestCost = cost;
+        improved = true;
+        break;
+      }
+    }
+    
+    if (!improved) break;
+  }
+  
+  return best;
+}
+
+/**
+ * Generate relocate, exchange and 2-opt neighbours of a route
+ */
+function* neighbourhood(route: Waypoint[]): Generator<Waypoint[]> {
+  const n = route.length;
+  
+  // Relocate: move one stop to another position
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      if (i === j) continue;
+      const candidate = [...route];
+      const [wp] = candidate.splice(i, 1);
+      candidate.splice(j, 0, wp);
+      yield candidate;
+    }
+  }
+  
+  // Exchange: swap two stops
+  for (let i = 0; i < n - 1; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const candidate = [...route];
+      [candidate[i], candidate[j]] = [candidate[j], candidate[i]];
+      yield candidate;
+    }
+  }
+  
+  // 2-opt: reverse a segment
+  for (let i = 0; i < n - 1; i++) {
+    for (let j = i + 2; j <= n; j++) {
+      yield [...route.slice(0, i), ...route.slice(i, j).reverse(), ...route.slice(j)];
+    }
+  }
+}
+
+/**
+ * Check pickup-before-dropoff and seat capacity along a route
+ */
+function isFeasibleRoute(route: Waypoint[], capacity: number): boolean {
+  const onboard = new Set<string>();
+  let load = 0;
+  
+  for (const wp of route) {
+    if (wp.type === 'pickup') {
+      onboard.add(wp.requestId);
+      load += wp.passengers;
+      if (load > capacity) return false;
+    } else {
+      if (!onboard.has(wp.requestId)) return false;
+      onboard.delete(wp.requestId);
+      load -= wp.passengers;
+    }
+  }
+  
+  return true;
+}
+
+/**
+ * Heuristic route cost: distance including the approach leg from the cab's
+ * position, plus a penalty for every minute a pickup window is missed by
+ */
+function routeCost(route: Waypoint[], options: RouteOptions): number {
+  const start = options.start;
+  const approach = start && route.length > 0 ? getTravelTimeModel().distance(start, route[0].location) : 0;
+  return approach + routeDistance(route) +
+    walkSchedule(route, options).lateMinutes * LATE_PENALTY_KM_PER_MINUTE;
+}
+
+/**
+ * Insert a new request into an existing stop sequence
+ * Existing stops keep their relative order; every (pickup, dropoff) slot pair
+ * is tried and the cheapest one accepted by isFeasible is returned
+ * @param fixedStops - Leading stops the new ones may not go before
+ * Time Complexity: O(n³) where n = existing stops
+ */
+export function insertRequest(
+  route: Waypoint[],
+  request: RideRequest,
+  start: Location,
+  isFeasible: (waypoints: Waypoint[]) => boolean,
+  fixedStops = 0
+): RouteResult | null {
+  return withLegCache(() => insertCheapest(route, request, start, isFeasible, fixedStops));
+}
+
+function insertCheapest(
+  route: Waypoint[],
+  request: RideRequest,
+  start: Location,
+  isFeasible: (waypoints: Waypoint[]) => boolean,
+  fixedStops: number
+): RouteResult | null {
+  const pickup = createPickup(request);
+  const dropoff = createDropoff(request);
+  
+  const candidates: { waypoints: Waypoint[]; cost: number }[] = [];
+  
+  for (let i = Math.min(fixedStops, route.length); i <= route.length; i++) {
+    for (let j = i; j <= route.length; j++) {
+      const waypoints = [
+        ...route.slice(0, i),
+        pickup,
+        ...route.slice(i, j),
+        dropoff,
+        ...route.slice(j)
+      ];
+      
+      // Cost includes the leg from the cab's current position
+      const cost = getTravelTimeModel().distance(start, waypoints[0].location) + routeDistance(waypoints);
+      candidates.push({ waypoints, cost });
+    }
+  }
+  
+  candidates.sort((a, b) => a.cost - b.cost);
+  
+  for (const candidate of candidates) {
+    if (!isFeasible(candidate.waypoints)) {
+      continue;
+    }
+    
+    return finalizeRoute(candidate.waypoints, { start });
+  }
+  
+  return null;
 }
@@ -0,0 +1,107 @@
+import { SettlementPolicy } from '../config/pricing';
+import { Location } from '../types';
+import { calculateRouteDistance } from './distance';
+import { getTravelTimeModel } from './travelTime';
+
+/**
+ * What a booking was quoted, as far as settlement needs it
+ */
+export interface SettlementQuote {
+  fare: number; // Quoted final fare
+  baseFare: number; // Fixed part, not scaled by the trip
+  promoDiscount: number; // Redeemed discount, deducted again from the settled fare
+  flatFare: boolean; // Flat fares do not depend on the trip
+}
+
+export interface TripMeasurement {
+  distanceKm: number | null;
+  durationMinutes: number | null;
+}
+
+export interface TrailPoint {
+  location: Location;
+  recordedAt: Date;
+}
+
+/**
+ * Planned distance and driving time of one booking: the route's legs from
+ * its pickup to its dropoff
+ * @param route - The ride's stops in order; pickupOrder and dropoffOrder index into it
+ */
+export function plannedBookingTrip(
+  route: Location[],
+  pickupOrder: number,
+  dropoffOrder: number,
+  departAt?: Date
+): { distanceKm: number; durationMinutes: number } {
+  const model = getTravelTimeModel();
+  let distanceKm = 0;
+  let durationMinutes = 0;
+
+  for (let i = pickupOrder; i < dropoffOrder && i < route.length - 1; i++) {
+    distanceKm += model.distance(route[i], route[i + 1]);
+    durationMinutes += model.travelTime(route[i], route[i + 1], departAt);
+  }
+
+  return { distanceKm, durationMinutes };
+}
+
+/**
+ * How one booking's trip actually went: the cab locations reported while
+ * the rider was on board, from pickup to dropoff
+ * The cab's drive to the pickup and other riders' legs outside that
+ * interval are not counted. Nothing is measured before the pickup is recorded
+ */
+export function measureBookingTrip(trail: TrailPoint[], pickedUpAt: Date | null, droppedOffAt: Date): TripMeasurement {
+  if (!pickedUpAt || droppedOffAt < pickedUpAt) {
+    return { distanceKm: null, durationMinutes: null };
+  }
+
+  const onBoard = trail
+    .filter(p => p.recordedAt >= pickedUpAt && p.recordedAt <= droppedOffAt)
+    .map(p => p.location);
+
+  return {
+    distanceKm: onBoard.length >= 2
+      ? Math.round(calculateRouteDistance(onBoard) * 1000) / 1000
+      : null,
+    durationMinutes: Math.round(((droppedOffAt.getTime() - pickedUpAt.getTime()) / 60000) * 100) / 100
+  };
+}
+
+/**
+ * Final fare of a booking from how the trip actually went
+ * The metered part of the quote is scaled by a weighted mix of the actual to
+ * estimated distance and duration ratios, then kept within the tolerance of
+ * the quote. A measurement that is missing counts as matching the estimate
+ */
+export function settleFare(
+  quote: SettlementQuote,
+  estimated: { distanceKm: number; durationMinutes: number },
+  actual: TripMeasurement,
+  policy: SettlementPolicy
+): { finalFare: number; capped: boolean } {
+  if (quote.flatFare) {
+    return { finalFare: quote.fare, capped: false };
+  }
+
+  const ratio = (actualValue: number | null, estimate: number) =>
+    actualValue === null || estimate <= 0 ? 1 : actualValue / estimate;
+
+  const factor =
+    policy.distanceWeight * ratio(actual.distanceKm, estimated.distanceKm) +
+    (1 - policy.distanceWeight) * ratio(actual.durationMinutes, estimated.durationMinutes);
+
+  const fareBeforePromo = quote.fare + quote.promoDiscount;
+  const metered = Math.max(0, fareBeforePromo - quote.baseFare);
+  const unbounded = fareBeforePromo + metered * (factor - 1);
+
+  const lower = fareBeforePromo * (1 - policy.tolerance);
+  const upper = fareBeforePromo * (1 + policy.tolerance);
+  const bounded = Math.min(Math.max(unbounded, lower), upper);
+
+  return {
+    finalFare: Math.round(Math.max(0, bounded - quote.promoDiscount) * 100) / 100,
+    capped: bounded !== unbounded
+  };
+}
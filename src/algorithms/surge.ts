@@ -0,0 +1,121 @@
+import { Location, SurgeZone, ZoneBounds } from '../types';
+
+const KM_PER_DEGREE_LAT = 111;
+
+export interface SurgeGridOptions {
+  cellSizeKm: number;
+  neighbourWeight: number;
+}
+
+/**
+ * Surge factor per grid cell
+ * Cells with no demand nearby are left out and price at 1.0
+ */
+export class SurgeMap {
+  private readonly byId: Map<string, SurgeZone>;
+
+  constructor(readonly zones: SurgeZone[], private readonly cellSizeKm: number) {
+    this.byId = new Map(zones.map(z => [z.zoneId, z]));
+  }
+
+  /**
+   * Surge for a pickup at this location (its zone decides)
+   */
+  factorAt(location: Location): number {
+    const zone = this.byId.get(zoneIdOf(location, this.cellSizeKm));
+    return zone ? zone.surgeFactor : 1.0;
+  }
+}
+
+/**
+ * Grid cell containing a location, as "row:col"
+ * Cells are cellSizeKm tall; they are the same number of degrees wide,
+ * which is narrower away from the equator but keeps the grid global
+ */
+export function zoneIdOf(location: Location, cellSizeKm: number): string {
+  const cellDegrees = cellSizeKm / KM_PER_DEGREE_LAT;
+  const row = Math.floor(location.latitude / cellDegrees);
+  const col = Math.floor(location.longitude / cellDegrees);
+  return `${row}:${col}`;
+}
+
+/**
+ * Build the surge map from pickup demand and cab supply
+ * A cell's demand and supply include its 8 neighbours at neighbourWeight,
+ * so a spike spills into adjacent cells without raising prices citywide
+ * Time Complexity: O(d + s + z) where z = cells near demand
+ * @param calculateSurge - Surge for a (demand, supply) pair, e.g. PricingEngine.calculateSurgeFactor
+ */
+export function buildSurgeMap(
+  demand: Location[],
+  supply: Location[],
+  calculateSurge: (demand: number, supply: number) => number,
+  options: SurgeGridOptions
+): SurgeMap {
+  const countByCell = (points: Location[]): Map<string, number> => {
+    const counts = new Map<string, number>();
+    for (const point of points) {
+      const id = zoneIdOf(point, options.cellSizeKm);
+      counts.set(id, (counts.get(id) || 0) + 1);
+    }
+    return counts;
+  };
+
+  const demandByCell = countByCell(demand);
+  const supplyByCell = countByCell(supply);
+
+  // Only cells with demand in or next to them can surge
+  const cells = new Set<string>();
+  for (const id of demandByCell.keys()) {
+    for (const neighbour of neighbourhood(id)) {
+      cells.add(neighbour);
+    }
+  }
+
+  const weighted = (counts: Map<string, number>, id: string): number =>
+    neighbourhood(id).reduce(
+      (sum, cell) => sum + (counts.get(cell) || 0) * (cell === id ? 1 : options.neighbourWeight),
+      0
+    );
+
+  const zones: SurgeZone[] = [];
+  for (const id of cells) {
+    const nearbyDemand = weighted(demandByCell, id);
+    const nearbySupply = weighted(supplyByCell, id);
+
+    zones.push({
+      zoneId: id,
+      bounds: cellBounds(id, options.cellSizeKm),
+      demand: demandByCell.get(id) || 0,
+      supply: supplyByCell.get(id) || 0,
+      surgeFactor: nearbyDemand > 0 ? calculateSurge(nearbyDemand, nearbySupply) : 1.0
+    });
+  }
+
+  return new SurgeMap(zones, options.cellSizeKm);
+}
+
+/**
+ * A cell and its 8 neighbours
+ */
+function neighbourhood(id: string): string[] {
+  const [row, col] = id.split(':').map(Number);
+  const cells: string[] = [];
+  for (let dr = -1; dr <= 1; dr++) {
+    for (let dc = -1; dc <= 1; dc++) {
+      cells.push(`${row + dr}:${col + dc}`);
+    }
+  }
+  return cells;
+}
+
+function cellBounds(id: string, cellSizeKm: number): ZoneBounds {
+  const cellDegrees = cellSizeKm / KM_PER_DEGREE_LAT;
+  const [row, col] = id.split(':').map(Number);
+  return {
+    minLat: row * cellDegrees,
+    maxLat: (row + 1) * cellDegrees,
+    minLng: col * cellDegrees,
+    maxLng: (col + 1) * cellDegrees
+  };
+}
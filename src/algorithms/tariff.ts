@@ -0,0 +1,157 @@
+import fs from 'fs';
+import { Location } from '../types';
+import { isPointInPolygon } from './distance';
+import { tariffRulesConfig } from '../config/pricing';
+
+/**
+ * A rule applies when the pickup is in pickupZone and the dropoff in
+ * dropoffZone; an omitted zone matches anywhere. Bidirectional rules
+ * also match the reverse trip (e.g. downtown to airport)
+ */
+interface BaseRule {
+  name: string;
+  pickupZone?: string;
+  dropoffZone?: string;
+  bidirectional?: boolean;
+  amount: number;
+}
+
+/** Replaces the metered fare (base, distance, surge, time) for the booking */
+export interface FlatFareRule extends BaseRule {
+  type: 'flatFare';
+}
+
+/** Fixed fee added to the booking, e.g. airport pickup fee or toll */
+export interface SurchargeRule extends BaseRule {
+  type: 'surcharge';
+}
+
+/** Upper limit on the metered or flat fare, surcharges excluded */
+export interface CapRule extends BaseRule {
+  type: 'cap';
+}
+
+export type TariffRule = FlatFareRule | SurchargeRule | CapRule;
+
+export interface TariffRuleSet {
+  version: string;
+  effectiveFrom: string; // ISO timestamp
+  effectiveTo?: string; // ISO timestamp, exclusive; open-ended if omitted
+  zones: Record<string, Location[]>; // Named polygons
+  rules: TariffRule[]; // First matching flat fare wins; all matching surcharges apply
+}
+
+/**
+ * Rules that apply to one trip
+ */
+export interface TariffMatch {
+  version: string;
+  flatFare: FlatFareRule | null;
+  surcharges: SurchargeRule[];
+  cap: CapRule | null; // Lowest matching cap
+}
+
+/**
+ * Versioned geofenced tariff rules
+ * The rule set in effect at quote time decides the fare
+ */
+export class TariffRuleBook {
+  private readonly ruleSets: TariffRuleSet[];
+
+  constructor(ruleSets: TariffRuleSet[]) {
+    for (const ruleSet of ruleSets) {
+      validateRuleSet(ruleSet);
+    }
+    // Latest first, so the first set in effect is the newest version
+    this.ruleSets = [...ruleSets].sort(
+      (a, b) => Date.parse(b.effectiveFrom) - Date.parse(a.effectiveFrom)
+    );
+  }
+
+  static fromFile(path: string): TariffRuleBook {
+    return new TariffRuleBook(JSON.parse(fs.readFileSync(path, 'utf8')).ruleSets);
+  }
+
+  /**
+   * Rule set in effect at a time, or null if none is
+   */
+  activeRuleSet(at: Date): TariffRuleSet | null {
+    const time = at.getTime();
+    return this.ruleSets.find(set =>
+      Date.parse(set.effectiveFrom) <= time &&
+      (set.effectiveTo === undefined || time < Date.parse(set.effectiveTo))
+    ) || null;
+  }
+
+  /**
+   * Rules that apply to a trip quoted at a given time
+   * @returns null when no rule set is in effect
+   */
+  match(pickup: Location, dropoff: Location, at: Date = new Date()): TariffMatch | null {
+    const ruleSet = this.activeRuleSet(at);
+    if (!ruleSet) {
+      return null;
+    }
+
+    const inZone = (location: Location, zone?: string): boolean =>
+      zone === undefined || isPointInPolygon(location, ruleSet.zones[zone]);
+
+    const applies = (rule: TariffRule): boolean =>
+      (inZone(pickup, rule.pickupZone) && inZone(dropoff, rule.dropoffZone)) ||
+      (rule.bidirectional === true && inZone(dropoff, rule.pickupZone) && inZone(pickup, rule.dropoffZone));
+
+    const matching = ruleSet.rules.filter(applies);
+    const caps = matching.filter((r): r is CapRule => r.type === 'cap');
+
+    return {
+      version: ruleSet.version,
+      flatFare: matching.find((r): r is FlatFareRule => r.type === 'flatFare') || null,
+      surcharges: matching.filter((r): r is SurchargeRule => r.type === 'surcharge'),
+      cap: caps.length > 0 ? caps.reduce((lowest, r) => (r.amount < lowest.amount ? r : lowest)) : null
+    };
+  }
+}
+
+function validateRuleSet(ruleSet: TariffRuleSet): void {
+  if (isNaN(Date.parse(ruleSet.effectiveFrom))) {
+    throw new Error(`Tariff rule set ${ruleSet.version} has an invalid effectiveFrom`);
+  }
+
+  for (const [name, polygon] of Object.entries(ruleSet.zones)) {
+    if (!Array.isArray(polygon) || polygon.length < 3) {
+      throw new Error(`Tariff zone "${name}" needs at least 3 points`);
+    }
+  }
+
+  for (const rule of ruleSet.rules) {
+    for (const zone of [rule.pickupZone, rule.dropoffZone]) {
+      if (zone !== undefined && !ruleSet.zones[zone]) {
+        throw new Error(`Tariff rule "${rule.name}" references unknown zone "${zone}"`);
+      }
+    }
+    if (!(rule.amount >= 0)) {
+      throw new Error(`Tariff rule "${rule.name}" needs a non-negative amount`);
+    }
+  }
+}
+
+let activeRuleBook: TariffRuleBook | null = null;
+
+/**
+ * Process-wide rule book, loaded from TARIFF_RULES_PATH on first use
+ */
+export function getTariffRuleBook(): TariffRuleBook {
+  if (!activeRuleBook) {
+    activeRuleBook = tariffRulesConfig.rulesPath
+      ? TariffRuleBook.fromFile(tariffRulesConfig.rulesPath)
+      : new TariffRuleBook([]);
+  }
+  return activeRuleBook;
+}
+
+/**
+ * Swap the process-wide rule book (tests)
+ */
+export function setTariffRuleBook(ruleBook: TariffRuleBook | null): void {
+  activeRuleBook = ruleBook;
+}
@@ -0,0 +1,207 @@
+import fs from 'fs';
+import { Location } from '../types';
+import { calculateDistance } from './distance';
+import { RoadNetworkModel } from './roadNetwork';
+import { travelTimeConfig, TravelTimeModelName } from '../config/travelTime';
+
+/**
+ * Distance and driving time between two points
+ * Every leg used by routing, matching and pricing goes through the active model
+ */
+export interface TravelTimeModel {
+  readonly name: TravelTimeModelName;
+  /** Driving distance in km */
+  distance(from: Location, to: Location): number;
+  /** Driving time in whole minutes when leaving at departAt (default now) */
+  travelTime(from: Location, to: Location, departAt?: Date): number;
+}
+
+export interface SpeedZone {
+  name: string;
+  bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number };
+  hourlySpeedsKmh: number[];
+}
+
+export interface SpeedProfileConfig {
+  defaultHourlySpeedsKmh: number[];
+  // Road distance ÷ straight-line distance, 1.3 is typical for city grids
+  circuityFactor?: number;
+  zones: SpeedZone[];
+}
+
+/**
+ * Straight-line distance at one speed for every hour
+ */
+export class ConstantSpeedModel implements TravelTimeModel {
+  readonly name = 'constant' as const;
+
+  constructor(private readonly speedKmh: number = 40) {
+    if (speedKmh <= 0) {
+      throw new Error('Constant speed must be positive');
+    }
+  }
+
+  distance(from: Location, to: Location): number {
+    return calculateDistance(from, to);
+  }
+
+  travelTime(from: Location, to: Location): number {
+    return Math.ceil((this.distance(from, to) / this.speedKmh) * 60);
+  }
+}
+
+/**
+ * Hourly speed profiles per zone
+ * The zone containing the leg's origin and the departure hour pick the speed
+ */
+export class SpeedProfileModel implements TravelTimeModel {
+  readonly name = 'profile' as const;
+  private readonly circuityFactor: number;
+
+  constructor(private readonly config: SpeedProfileConfig) {
+    validateHourlySpeeds('default', config.defaultHourlySpeedsKmh);
+    for (const zone of config.zones) {
+      validateHourlySpeeds(zone.name, zone.hourlySpeedsKmh);
+    }
+    this.circuityFactor = config.circuityFactor ?? 1;
+  }
+
+  static fromFile(path: string): SpeedProfileModel {
+    return new SpeedProfileModel(JSON.parse(fs.readFileSync(path, 'utf8')));
+  }
+
+  distance(from: Location, to: Location): number {
+    return calculateDistance(from, to) * this.circuityFactor;
+  }
+
+  travelTime(from: Location, to: Location, departAt: Date = new Date()): number {
+    const speed = this.speedAt(from, departAt.getHours());
+    return Math.ceil((this.distance(from, to) / speed) * 60);
+  }
+
+  speedAt(location: Location, hour: number): number {
+    const zone = this.config.zones.find(z =>
+      location.latitude >= z.bounds.minLat && location.latitude <= z.bounds.maxLat &&
+      location.longitude >= z.bounds.minLng && location.longitude <= z.bounds.maxLng
+    );
+    return (zone ? zone.hourlySpeedsKmh : this.config.defaultHourlySpeedsKmh)[hour];
+  }
+}
+
+function validateHourlySpeeds(zone: string, speeds: number[]): void {
+  if (!Array.isArray(speeds) || speeds.length !== 24 || speeds.some(s => !(s > 0))) {
+    throw new Error(`Speed profile "${zone}" must list 24 positive hourly speeds`);
+  }
+}
+
+/**
+ * Build the model named in config
+ */
+export function createTravelTimeModel(config = travelTimeConfig): TravelTimeModel {
+  const fallback = new ConstantSpeedModel(config.constantSpeedKmh);
+
+  switch (config.model) {
+    case 'constant':
+      return fallback;
+    case 'profile':
+      if (!config.speedProfilesPath) {
+        throw new Error('SPEED_PROFILES_PATH is required for the profile travel-time model');
+      }
+      return SpeedProfileModel.fromFile(config.speedProfilesPath);
+    case 'road':
+      if (!config.osmExtractPath) {
+        throw new Error('OSM_EXTRACT_PATH is required for the road travel-time model');
+      }
+      return RoadNetworkModel.fromOsmFile(config.osmExtractPath, fallback, {
+        maxSnapDistanceKm: config.maxSnapDistanceKm,
+        pathCacheSize: config.pathCacheSize
+      });
+    default:
+      throw new Error(`Unknown travel-time model: ${config.model}`);
+  }
+}
+
+/**
+ * Remembers every leg asked of the model it wraps
+ * Travel times are kept per departure hour, the finest any model resolves
+ */
+class LegCache implements TravelTimeModel {
+  readonly name: TravelTimeModelName;
+  private readonly distances = new Map<string, number>();
+  private readonly travelTimes = new Map<string, number>();
+
+  constructor(readonly model: TravelTimeModel) {
+    this.name = model.name;
+  }
+
+  distance(from: Location, to: Location): number {
+    const key = legKey(from, to);
+    let km = this.distances.get(key);
+    if (km === undefined) {
+      km = this.model.distance(from, to);
+      this.distances.set(key, km);
+    }
+    return km;
+  }
+
+  travelTime(from: Location, to: Location, departAt: Date = new Date()): number {
+    const key = `${legKey(from, to)}@${departAt.getHours()}`;
+    let minutes = this.travelTimes.get(key);
+    if (minutes === undefined) {
+      minutes = this.model.travelTime(from, to, departAt);
+      this.travelTimes.set(key, minutes);
+    }
+    return minutes;
+  }
+}
+
+function legKey(from: Location, to: Location): string {
+  return `${from.latitude},${from.longitude}>${to.latitude},${to.longitude}`;
+}
+
+let activeModel: TravelTimeModel | null = null;
+
+/**
+ * Process-wide model, built from config on first use
+ * The server builds it at startup (loadTravelTimeModel) so requests never do
+ */
+export function getTravelTimeModel(): TravelTimeModel {
+  if (!activeModel) {
+    activeModel = createTravelTimeModel();
+  }
+  return activeModel;
+}
+
+/**
+ * Build the process-wide model now, reading any extract or profile file
+ * @throws if the configured model cannot be built
+ */
+export function loadTravelTimeModel(): TravelTimeModel {
+  activeModel = createTravelTimeModel();
+  return activeModel;
+}
+
+/**
+ * Run a synchronous computation, such as planning one group's route, with
+ * every leg it asks for computed once
+ */
+export function withLegCache<T>(compute: () => T): T {
+  const model = getTravelTimeModel();
+  if (model instanceof LegCache) {
+    return compute();
+  }
+
+  activeModel = new LegCache(model);
+  try {
+    return compute();
+  } finally {
+    activeModel = model;
+  }
+}
+
+/**
+ * Swap the process-wide model (tests, benchmarks)
+ */
+export function setTravelTimeModel(model: TravelTimeModel | null): void {
+  activeModel = model;
+}
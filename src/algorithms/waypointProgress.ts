@@ -0,0 +1,50 @@
+import { WaypointEvent } from '../types';
+
+/**
+ * Driver-reported progress of one booking
+ */
+export interface PassengerProgress {
+  pickupArrivedAt: Date | null;
+  pickedUpAt: Date | null;
+  dropoffArrivedAt: Date | null;
+  droppedOffAt: Date | null;
+}
+
+/**
+ * Progress of a booking after the driver reports a waypoint event
+ * Arrivals may be reported again and keep their first time; a stop is done
+ * only once, and marking it done records the arrival if that was skipped.
+ * Nothing can happen at the dropoff before the pickup is done
+ * @throws if the event is out of order
+ */
+export function applyWaypointEvent(
+  progress: PassengerProgress,
+  type: 'pickup' | 'dropoff',
+  event: WaypointEvent,
+  at: Date = new Date()
+): PassengerProgress {
+  if (type === 'pickup') {
+    if (event === WaypointEvent.DONE && progress.pickedUpAt) {
+      throw new Error('Rider has already been picked up');
+    }
+    return {
+      ...progress,
+      pickupArrivedAt: progress.pickupArrivedAt || at,
+      pickedUpAt: event === WaypointEvent.DONE ? at : progress.pickedUpAt
+    };
+  }
+
+  if (!progress.pickedUpAt) {
+    throw new Error('Rider has not been picked up yet');
+  }
+
+  if (event === WaypointEvent.DONE && progress.droppedOffAt) {
+    throw new Error('Rider has already been dropped off');
+  }
+
+  return {
+    ...progress,
+    dropoffArrivedAt: progress.dropoffArrivedAt || at,
+    droppedOffAt: event === WaypointEvent.DONE ? at : progress.droppedOffAt
+  };
+}
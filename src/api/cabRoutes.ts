@@ -2,6 +2,7 @@ import { Router } from 'express';
 import pool from '../config/database';
 import { v4 as uuidv4 } from 'uuid';
 import { z } from 'zod';
+import { RideStatus } from '../types';
 
 const router = Router();
 
@@ -389,6 +390,7 @@ router.delete('/:cabId', async (req, res) => {
  * /api/cabs/{cabId}/location:
  *   put:
  *     summary: Update cab location
+ *     description: While the cab has a ride in progress, locations are also recorded to measure the actual trip.
  *     tags: [Cabs]
  *     parameters:
  *       - in: path
@@ -439,6 +441,13 @@ router.put('/:cabId/location', async (req, res) => {
       });
     }
     
+    // Trail of the ride in progress, measured when it completes to settle fares
+    await pool.query(
+      `INSERT INTO ride_locations (ride_id, latitude, longitude)
+       SELECT id, $1, $2 FROM rides WHERE cab_id = $3 AND status = $4`,
+      [latitude, longitude, cabId, RideStatus.IN_PROGRESS]
+    );
+    
     res.json({
       success: true,
       data: result.rows[0]
@@ -0,0 +1,75 @@
+import { Router } from 'express';
+import { getMatchingQueue } from '../services/MatchingQueueService';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/admin/matching/dead-letter:
+ *   get:
+ *     summary: Get matching jobs that failed every attempt
+ *     tags: [Matching]
+ *     responses:
+ *       200:
+ *         description: Dead-lettered jobs with their last error, oldest first
+ */
+router.get('/dead-letter', async (req, res) => {
+  try {
+    const deadLetters = await getMatchingQueue().getDeadLetters();
+
+    res.json({
+      success: true,
+      data: deadLetters
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/matching/dead-letter/{requestId}/retry:
+ *   post:
+ *     summary: Queue a dead-lettered matching job again
+ *     description: The job gets a fresh set of attempts and leaves the dead-letter queue.
+ *     tags: [Matching]
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Job queued, with its status
+ *       404:
+ *         description: No dead-lettered job for this request
+ */
+router.post('/dead-letter/:requestId/retry', async (req, res) => {
+  try {
+    const job = await getMatchingQueue().retryDeadLetter(req.params.requestId);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'No dead-lettered job for this request'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: job
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import { SurgeService } from '../services/SurgeService';
+import { surgeConfig } from '../config/pricing';
+
+const router = Router();
+const surgeService = new SurgeService();
+
+/**
+ * @swagger
+ * /api/pricing/surge-map:
+ *   get:
+ *     summary: Get the current surge factor of every zone with demand nearby
+ *     description: >
+ *       Zones are square grid cells of SURGE_CELL_SIZE_KM. Zones not listed price at 1.0.
+ *     tags: [Pricing]
+ *     responses:
+ *       200:
+ *         description: Zones with their bounds, demand, supply and surge factor, highest surge first
+ */
+router.get('/surge-map', async (req, res) => {
+  try {
+    const zones = await surgeService.getSurgeZones();
+    
+    res.json({
+      success: true,
+      data: {
+        cellSizeKm: surgeConfig.cellSizeKm,
+        zones
+      }
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+export default router;
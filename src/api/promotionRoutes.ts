@@ -0,0 +1,291 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { PromotionService } from '../services/PromotionService';
+import { DiscountType } from '../types';
+
+const router = Router();
+const promotionService = new PromotionService();
+
+// Validation schemas
+const locationSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180)
+});
+
+const promotionFieldsSchema = z.object({
+  description: z.string().max(500).nullable().optional().default(null),
+  discountType: z.nativeEnum(DiscountType),
+  amount: z.number().positive(),
+  maxDiscount: z.number().positive().nullable().optional().default(null),
+  perUserLimit: z.number().int().positive().nullable().optional().default(null),
+  globalLimit: z.number().int().positive().nullable().optional().default(null),
+  validFrom: z.string().datetime().optional(),
+  validTo: z.string().datetime().nullable().optional().default(null),
+  pooledOnly: z.boolean().optional().default(false),
+  area: z.array(locationSchema).min(3).nullable().optional().default(null)
+});
+
+const createPromotionSchema = promotionFieldsSchema.extend({
+  code: z.string().min(3).max(50).regex(/^[A-Za-z0-9_-]+$/)
+}).refine(
+  data => data.discountType !== DiscountType.PERCENTAGE || data.amount <= 100,
+  { message: 'A percentage discount cannot exceed 100', path: ['amount'] }
+);
+
+// No defaults on update, so omitted fields keep their value
+const updatePromotionSchema = z.object({
+  description: z.string().max(500).nullable(),
+  amount: z.number().positive(),
+  maxDiscount: z.number().positive().nullable(),
+  perUserLimit: z.number().int().positive().nullable(),
+  globalLimit: z.number().int().positive().nullable(),
+  validTo: z.string().datetime().nullable(),
+  pooledOnly: z.boolean(),
+  area: z.array(locationSchema).min(3).nullable()
+}).partial();
+
+/**
+ * @swagger
+ * /api/admin/promotions:
+ *   post:
+ *     summary: Create a promo code
+ *     tags: [Promotions]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - discountType
+ *               - amount
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: FIRSTRIDE
+ *               description:
+ *                 type: string
+ *                 example: 50% off your first ride
+ *               discountType:
+ *                 type: string
+ *                 enum: [PERCENTAGE, FIXED]
+ *               amount:
+ *                 type: number
+ *                 description: Percent off, or currency amount off for FIXED
+ *                 example: 50
+ *               maxDiscount:
+ *                 type: number
+ *                 description: Cap on the discount per booking
+ *                 example: 10
+ *               perUserLimit:
+ *                 type: integer
+ *                 example: 1
+ *               globalLimit:
+ *                 type: integer
+ *                 example: 1000
+ *               validFrom:
+ *                 type: string
+ *                 format: date-time
+ *               validTo:
+ *                 type: string
+ *                 format: date-time
+ *               pooledOnly:
+ *                 type: boolean
+ *                 default: false
+ *               area:
+ *                 type: array
+ *                 description: Polygon the trip must start or end in
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     latitude:
+ *                       type: number
+ *                     longitude:
+ *                       type: number
+ *     responses:
+ *       201:
+ *         description: Promotion created successfully
+ *       400:
+ *         description: Invalid input or code already exists
+ */
+router.post('/', async (req, res) => {
+  try {
+    const data = createPromotionSchema.parse(req.body);
+    
+    const promotion = await promotionService.createPromotion({
+      ...data,
+      validFrom: data.validFrom ? new Date(data.validFrom) : new Date(),
+      validTo: data.validTo ? new Date(data.validTo) : null
+    });
+    
+    res.status(201).json({
+      success: true,
+      data: promotion
+    });
+  } catch (error: any) {
+    if (error.code === '23505') { // Unique violation
+      res.status(400).json({
+        success: false,
+        error: 'Promo code already exists'
+      });
+    } else {
+      res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/promotions:
+ *   get:
+ *     summary: Get all promo codes with their redemption counts
+ *     tags: [Promotions]
+ *     responses:
+ *       200:
+ *         description: List of promotions, newest first
+ */
+router.get('/', async (req, res) => {
+  try {
+    const promotions = await promotionService.listPromotions();
+    
+    res.json({
+      success: true,
+      data: promotions
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/promotions/{code}:
+ *   get:
+ *     summary: Get promo code
+ *     tags: [Promotions]
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Promotion details
+ *       404:
+ *         description: Promotion not found
+ */
+router.get('/:code', async (req, res) => {
+  try {
+    const promotion = await promotionService.getPromotion(req.params.code);
+    
+    if (!promotion) {
+      return res.status(404).json({
+        success: false,
+        error: 'Promotion not found'
+      });
+    }
+    
+    res.json({
+      success: true,
+      data: promotion
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/promotions/{code}:
+ *   put:
+ *     summary: Update promo code terms
+ *     description: >
+ *       Set validTo to end a campaign. The discount type cannot change; redemptions already
+ *       made keep their discount.
+ *     tags: [Promotions]
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               description:
+ *                 type: string
+ *               amount:
+ *                 type: number
+ *               maxDiscount:
+ *                 type: number
+ *               perUserLimit:
+ *                 type: integer
+ *               globalLimit:
+ *                 type: integer
+ *               validTo:
+ *                 type: string
+ *                 format: date-time
+ *               pooledOnly:
+ *                 type: boolean
+ *               area:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *     responses:
+ *       200:
+ *         description: Promotion updated successfully
+ *       404:
+ *         description: Promotion not found
+ */
+router.put('/:code', async (req, res) => {
+  try {
+    const data = updatePromotionSchema.parse(req.body);
+    
+    if (Object.keys(data).length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'No fields to update'
+      });
+    }
+    
+    const { validTo, ...fields } = data;
+    const promotion = await promotionService.updatePromotion(
+      req.params.code,
+      validTo !== undefined ? { ...fields, validTo: validTo ? new Date(validTo) : null } : fields
+    );
+    
+    if (!promotion) {
+      return res.status(404).json({
+        success: false,
+        error: 'Promotion not found'
+      });
+    }
+    
+    res.json({
+      success: true,
+      data: promotion
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+export default router;
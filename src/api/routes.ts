@@ -1,17 +1,17 @@
 import { Router } from 'express';
 import { RideService } from '../services/RideService';
 import { RideCompletionService } from '../services/RideCompletionService';
-import { Semaphore } from '../utils/Semaphore';
+import { RideStateService } from '../services/RideStateService';
+import { getMatchingQueue } from '../services/MatchingQueueService';
+import { batchMatchingConfig, matchingQueueConfig } from '../config/matching';
+import { Actor, MatchingJob, MatchingJobStatus, RideStatus, WaypointEvent } from '../types';
+import { quotesExpired } from '../algorithms/matchingJob';
 import { z } from 'zod';
 
 const router = Router();
 const rideService = new RideService();
 const completionService = new RideCompletionService();
-
-// Semaphore to limit concurrent matching operations
-// With spatial optimization, each operation uses ~200KB instead of 20MB
-// 100 concurrent × 200KB = 20MB total (safe)
-const matchingSemaphore = new Semaphore(100);
+const stateService = new RideStateService();
 
 // Validation schemas
 const createRequestSchema = z.object({
@@ -28,7 +28,34 @@ const createRequestSchema = z.object({
   }),
   passengers: z.number().int().min(1).max(4),
   luggage: z.array(z.number().int().min(1).max(3)),
-  maxDetourMinutes: z.number().int().min(0).max(30).optional()
+  maxDetourMinutes: z.number().int().min(0).max(30).optional(),
+  earliestPickupAt: z.coerce.date().optional(),
+  latestPickupAt: z.coerce.date().optional(),
+  promoCode: z.string().min(1).optional()
+});
+
+const bookSchema = z.object({
+  requestId: z.string().uuid(),
+  quoteId: z.string().uuid()
+}).strict();
+
+// Callers say who cancels; the driver and system paths waive the rider fees
+const cancelSchema = z.object({
+  cancelledBy: z.nativeEnum(Actor),
+  requestId: z.string().uuid().optional()
+}).refine(
+  data => data.cancelledBy !== Actor.RIDER || data.requestId !== undefined,
+  { message: 'requestId is required when a rider cancels', path: ['requestId'] }
+);
+
+const arrivedSchema = z.object({
+  requestId: z.string().uuid()
+});
+
+const waypointSchema = z.object({
+  requestId: z.string().uuid(),
+  type: z.enum(['pickup', 'dropoff']),
+  event: z.nativeEnum(WaypointEvent)
 });
 
 /**
@@ -81,20 +108,47 @@ const createRequestSchema = z.object({
  *                   type: integer
  *                   minimum: 1
  *                   maximum: 3
+ *               earliestPickupAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Rider is ready from this time (default now)
+ *               latestPickupAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Rider must be picked up by this time (default earliest + 20 min)
+ *               promoCode:
+ *                 type: string
+ *                 description: >
+ *                   Promo code to apply to the rider's fare. Each quote reports in quote.promo whether it
+ *                   applied; the discount is redeemed when the quote is booked. Not supported with batch matching.
  *     responses:
  *       201:
- *         description: Ride request created successfully
+ *         description: >
+ *           Ride request created and queued for matching; matching holds the job's status.
+ *           Fetch the result from GET /matches/{requestId} or its events stream. If the request
+ *           could not be queued, matching is FAILED; queue it again with POST /matches/{requestId}/requeue.
  *       400:
  *         description: Invalid input
  */
 router.post('/request', async (req, res) => {
   try {
-    const data = createRequestSchema.parse(req.body);
+    const { promoCode, ...data } = createRequestSchema.parse(req.body);
+    
+    if (promoCode && batchMatchingConfig.enabled) {
+      throw new Error('Promo codes are not supported with batch matching');
+    }
+    
     const request = await rideService.createRideRequest(data);
     
+    // Batch mode matches every request in the next window instead
+    const matching = batchMatchingConfig.enabled
+      ? undefined
+      : await getMatchingQueue().enqueue(request.id, promoCode);
+    
     res.status(201).json({
       success: true,
-      data: request
+      data: request,
+      matching
     });
   } catch (error: any) {
     // Log validation errors for debugging
@@ -115,7 +169,14 @@ router.post('/request', async (req, res) => {
  * @swagger
  * /api/rides/matches/{requestId}:
  *   get:
- *     summary: Get available matches for a ride request (synchronous processing)
+ *     summary: Get available matches for a ride request
+ *     description: >
+ *       Returns the result of the request's matching job, or 202 with the job's status and
+ *       retryAfterMs while it is queued or running. A PENDING request whose result has
+ *       expired, or whose quotes have all expired, is queued for matching again and gets
+ *       202 until the new result is in. With BATCH_MATCHING_ENABLED, returns the
+ *       rider's group from the latest batch window instead, or 202 until a window containing
+ *       the request has run.
  *     tags: [Rides]
  *     parameters:
  *       - in: path
@@ -127,26 +188,80 @@ router.post('/request', async (req, res) => {
  *     responses:
  *       200:
  *         description: List of available matches
+ *       202:
+ *         description: Matching pending, retry after retryAfterMs
+ *       400:
+ *         description: Matching failed on every attempt, or the request could not be queued
  *       404:
- *         description: Request not found
+ *         description: No matching job for this request, or its result has expired
  */
 router.get('/matches/:requestId', async (req, res) => {
   try {
     const { requestId } = req.params;
     
-    // Process matches with semaphore (max 100 concurrent)
-    const matches = await matchingSemaphore.execute(async () => {
-      return await rideService.findMatches(requestId);
-    });
+    if (req.query.promoCode) {
+      throw new Error('Pass promoCode when creating the request');
+    }
+    
+    // Batch mode: serve the group solved for the whole window
+    if (batchMatchingConfig.enabled) {
+      const batchMatch = await rideService.getBatchMatch(requestId);
+      
+      if (!batchMatch) {
+        return res.status(202).json({
+          success: true,
+          status: 'PENDING',
+          retryAfterMs: batchMatchingConfig.windowMs,
+          data: []
+        });
+      }
+      
+      return res.json({
+        success: true,
+        data: [batchMatch]
+      });
+    }
+    
+    const matchingQueue = getMatchingQueue();
+    let job = await matchingQueue.getJob(requestId);
+    
+    // A rider still waiting for a ride gets fresh quotes once the old ones lapse
+    if (!job || quotesExpired(job)) {
+      const request = await rideService.getRideRequest(requestId);
+      if (request?.status === RideStatus.PENDING) {
+        job = await matchingQueue.requeue(requestId);
+      }
+    }
+    
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'No matching job for this request'
+      });
+    }
+    
+    if (job.status === MatchingJobStatus.FAILED) {
+      return res.status(400).json({
+        success: false,
+        status: job.status,
+        error: job.error
+      });
+    }
     
-    // If no matches, mark as no driver available
-    if (!matches || matches.length === 0) {
-      await rideService.markNoDriverAvailable(requestId);
+    if (job.status !== MatchingJobStatus.COMPLETED) {
+      return res.status(202).json({
+        success: true,
+        status: job.status,
+        progress: job.progress,
+        retryAfterMs: matchingQueueConfig.pollIntervalMs,
+        data: []
+      });
     }
     
     res.json({
       success: true,
-      data: matches
+      status: job.status,
+      data: job.matches
     });
   } catch (error: any) {
     res.status(400).json({
@@ -156,6 +271,152 @@ router.get('/matches/:requestId', async (req, res) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/rides/matches/{requestId}/requeue:
+ *   post:
+ *     summary: Match a pending ride request again
+ *     description: >
+ *       Queues a new matching job for fresh quotes, e.g. after a booking was rejected as
+ *       stale. Poll GET /matches/{requestId} for the result. A request already queued keeps
+ *       its current job.
+ *     tags: [Rides]
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       202:
+ *         description: Job queued, with its status
+ *       400:
+ *         description: Request is no longer PENDING
+ *       404:
+ *         description: Request not found
+ */
+router.post('/matches/:requestId/requeue', async (req, res) => {
+  try {
+    const { requestId } = req.params;
+    
+    if (batchMatchingConfig.enabled) {
+      throw new Error('Requests are matched in batch windows; fetch matches after the next window');
+    }
+    
+    const request = await rideService.getRideRequest(requestId);
+    
+    if (!request) {
+      return res.status(404).json({
+        success: false,
+        error: 'Request not found'
+      });
+    }
+    
+    if (request.status !== RideStatus.PENDING) {
+      throw new Error(`Only a PENDING request can be matched again, this one is ${request.status}`);
+    }
+    
+    const job = await getMatchingQueue().requeue(requestId);
+    
+    res.status(202).json({
+      success: true,
+      data: job,
+      retryAfterMs: matchingQueueConfig.pollIntervalMs
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/rides/matches/{requestId}/events:
+ *   get:
+ *     summary: Stream a ride request's matching job as server-sent events
+ *     description: >
+ *       Sends the job's current status, then every change to it, each as a JSON data event
+ *       (status, progress, attempts, and matches or error). The stream ends once the job
+ *       is COMPLETED or FAILED.
+ *     tags: [Rides]
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: text/event-stream of matching job updates
+ *       404:
+ *         description: No matching job for this request, or its result has expired
+ */
+router.get('/matches/:requestId/events', async (req, res) => {
+  let unsubscribe: (() => Promise<void>) | null = null;
+  const stop = () => {
+    unsubscribe?.().catch(error => console.error('Matching events error:', error));
+    unsubscribe = null;
+  };
+  
+  try {
+    const { requestId } = req.params;
+    const matchingQueue = getMatchingQueue();
+    
+    const isDone = (job: MatchingJob) =>
+      job.status === MatchingJobStatus.COMPLETED || job.status === MatchingJobStatus.FAILED;
+    
+    // Changes published before the current status is read are already in it
+    let streaming = false;
+    const send = (job: MatchingJob) => {
+      if (!streaming || res.writableEnded) {
+        return;
+      }
+      res.write(`data: ${JSON.stringify(job)}\n\n`);
+      if (isDone(job)) {
+        stop();
+        res.end();
+      }
+    };
+    
+    // Subscribe before reading, so no change between the two is missed
+    unsubscribe = await matchingQueue.subscribe(requestId, send);
+    const job = await matchingQueue.getJob(requestId);
+    
+    if (!job) {
+      stop();
+      return res.status(404).json({
+        success: false,
+        error: 'No matching job for this request'
+      });
+    }
+    
+    // The stream outlives the API's request timeout
+    req.setTimeout(0);
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    res.on('close', stop);
+    
+    streaming = true;
+    send(job);
+  } catch (error: any) {
+    stop();
+    if (res.headersSent) {
+      return res.end();
+    }
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
 /**
  * @swagger
  * /api/rides/book:
@@ -170,27 +431,33 @@ router.get('/matches/:requestId', async (req, res) => {
  *             type: object
  *             required:
  *               - requestId
- *               - rideData
+ *               - quoteId
  *             properties:
  *               requestId:
  *                 type: string
  *                 format: uuid
- *               rideData:
- *                 type: object
+ *               quoteId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: quote.quoteId of an option returned by GET /matches
  *     responses:
  *       200:
- *         description: Booking confirmed
+ *         description: Booking confirmed at the quoted fares, with the dispatched cab and its pickup ETA
  *       400:
- *         description: Booking failed
+ *         description: Booking failed (unknown, expired or stale quote; the error explains why)
  */
 router.post('/book', async (req, res) => {
   try {
-    const { requestId, rideData } = req.body;
-    const rideId = await rideService.confirmBooking(requestId, rideData);
+    if (req.body && req.body.rideData !== undefined) {
+      throw new Error('rideData is not accepted; book with the quoteId returned by GET /matches');
+    }
+    
+    const { requestId, quoteId } = bookSchema.parse(req.body);
+    const booking = await rideService.confirmBooking(requestId, quoteId);
     
     res.json({
       success: true,
-      data: { rideId }
+      data: booking
     });
   } catch (error: any) {
     res.status(400).json({
@@ -205,6 +472,12 @@ router.post('/book', async (req, res) => {
  * /api/rides/{rideId}:
  *   delete:
  *     summary: Cancel a ride
+ *     description: >
+ *       Returns a fee and refund per booking. Only a rider who cancels can be charged:
+ *       free within the free cancellation window, a late fee after it, and a higher fee
+ *       once the cab has arrived. That rider's request is cancelled; co-riders are refunded
+ *       in full, go back to PENDING and are queued for matching again. A ride that has
+ *       started cannot be cancelled.
  *     tags: [Rides]
  *     parameters:
  *       - in: path
@@ -213,20 +486,276 @@ router.post('/book', async (req, res) => {
  *         schema:
  *           type: string
  *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [cancelledBy]
+ *             properties:
+ *               cancelledBy:
+ *                 type: string
+ *                 enum: [RIDER, DRIVER, SYSTEM]
+ *               requestId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: The cancelling rider's request, required for RIDER
  *     responses:
  *       200:
- *         description: Ride cancelled successfully
+ *         description: Ride cancelled successfully, with the fee and refund of each booking
  *       400:
  *         description: Cancellation failed
  */
 router.delete('/:rideId', async (req, res) => {
   try {
     const { rideId } = req.params;
-    await rideService.cancelRide(rideId);
+    const { cancelledBy, requestId } = cancelSchema.parse(req.body || {});
+    const charges = await rideService.cancelRide(rideId, cancelledBy, requestId);
+    
+    // Co-riders went back to PENDING; batch mode picks them up in the next window
+    if (!batchMatchingConfig.enabled) {
+      const requeued = charges.filter(c => c.requestId !== requestId);
+      for (const charge of requeued) {
+        // The cancellation stands either way; GET /matches queues them later
+        await getMatchingQueue().requeue(charge.requestId).catch(error =>
+          console.error(`[Matching] Error requeueing request ${charge.requestId}:`, error)
+        );
+      }
+    }
+    
+    res.json({
+      success: true,
+      message: 'Ride cancelled successfully',
+      data: charges
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/rides/{rideId}/passengers/{requestId}:
+ *   delete:
+ *     summary: Leave a shared ride
+ *     description: >
+ *       Removes one rider from a ride that has not started. The remaining stops are
+ *       re-optimised and the remaining riders repriced with the smaller pooling discount.
+ *       The leaving rider is charged under the cancellation policy; the ride is cancelled
+ *       only when its last rider leaves.
+ *     tags: [Rides]
+ *     parameters:
+ *       - in: path
+ *         name: rideId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Rider removed, with their cancellation fee and refund
+ *       400:
+ *         description: Ride started or request not on the ride
+ */
+router.delete('/:rideId/passengers/:requestId', async (req, res) => {
+  try {
+    const { rideId, requestId } = req.params;
+    const charge = await rideService.withdrawPassenger(rideId, requestId);
     
     res.json({
       success: true,
-      message: 'Ride cancelled successfully'
+      message: 'Passenger removed from ride',
+      data: charge
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/rides/{rideId}/passengers/{requestId}/no-show:
+ *   post:
+ *     summary: Mark a rider as a no-show
+ *     description: >
+ *       Allowed once the driver has waited NO_SHOW_WAIT_MINUTES after recording arrival
+ *       at the rider's pickup. The rider is charged the no-show fee and dropped from the
+ *       route; the remaining stops are re-optimised and the other riders repriced. A ride
+ *       left with nobody to serve is cancelled, or completed if it has started.
+ *     tags: [Rides]
+ *     parameters:
+ *       - in: path
+ *         name: rideId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Rider marked as a no-show, with their fee and refund
+ *       400:
+ *         description: Cab not arrived, wait not over, rider picked up or not on the ride
+ */
+router.post('/:rideId/passengers/:requestId/no-show', async (req, res) => {
+  try {
+    const { rideId, requestId } = req.params;
+    const charge = await rideService.markNoShow(rideId, requestId);
+    
+    res.json({
+      success: true,
+      message: 'Rider marked as a no-show',
+      data: charge
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/rides/{rideId}/cancellation:
+ *   get:
+ *     summary: Get the cancellation fees and refunds of a ride
+ *     tags: [Rides]
+ *     parameters:
+ *       - in: path
+ *         name: rideId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Fee and refund per booking, empty if the ride was not cancelled
+ *       404:
+ *         description: Ride not found
+ */
+router.get('/:rideId/cancellation', async (req, res) => {
+  try {
+    const { rideId } = req.params;
+    const charges = await rideService.getCancellationCharges(rideId);
+    
+    if (!charges) {
+      return res.status(404).json({
+        success: false,
+        error: 'Ride not found'
+      });
+    }
+    
+    res.json({
+      success: true,
+      data: charges
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/rides/{rideId}/settlement:
+ *   get:
+ *     summary: Get the quoted and final fare of each booking on a completed ride
+ *     tags: [Rides]
+ *     parameters:
+ *       - in: path
+ *         name: rideId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Fare settlements, empty until the ride completes
+ *       404:
+ *         description: Ride not found
+ */
+router.get('/:rideId/settlement', async (req, res) => {
+  try {
+    const { rideId } = req.params;
+    const settlements = await completionService.getFareSettlements(rideId);
+    
+    if (!settlements) {
+      return res.status(404).json({
+        success: false,
+        error: 'Ride not found'
+      });
+    }
+    
+    res.json({
+      success: true,
+      data: settlements
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/rides/{rideId}/timeline:
+ *   get:
+ *     summary: Get the status history of a ride and its bookings
+ *     description: >
+ *       Every status change of the ride and of the requests booked on it, oldest first,
+ *       with who made it, why and the previous status.
+ *     tags: [Rides]
+ *     parameters:
+ *       - in: path
+ *         name: rideId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Status transitions, oldest first
+ *       404:
+ *         description: Ride not found
+ */
+router.get('/:rideId/timeline', async (req, res) => {
+  try {
+    const { rideId } = req.params;
+    const timeline = await stateService.getTimeline(rideId);
+    
+    if (!timeline) {
+      return res.status(404).json({
+        success: false,
+        error: 'Ride not found'
+      });
+    }
+    
+    res.json({
+      success: true,
+      data: timeline
     });
   } catch (error: any) {
     res.status(400).json({
@@ -279,6 +808,49 @@ router.get('/:requestId/status', async (req, res) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/rides/{rideId}/fare-breakdown:
+ *   get:
+ *     summary: Get the itemised fare history of every booking on a ride
+ *     tags: [Rides]
+ *     parameters:
+ *       - in: path
+ *         name: rideId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Fare breakdowns, oldest first per booking
+ *       404:
+ *         description: Ride not found
+ */
+router.get('/:rideId/fare-breakdown', async (req, res) => {
+  try {
+    const { rideId } = req.params;
+    const fares = await rideService.getFareBreakdown(rideId);
+    
+    if (!fares) {
+      return res.status(404).json({
+        success: false,
+        error: 'Ride not found'
+      });
+    }
+    
+    res.json({
+      success: true,
+      data: fares
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
 export default router;
 
 /**
@@ -286,6 +858,9 @@ export default router;
  * /api/rides/{rideId}/complete:
  *   post:
  *     summary: Manually complete a ride
+ *     description: >
+ *       Only a ride that has started can complete. Settles each booking's fare from the actual distance and duration, within
+ *       the settlement tolerance of the quote.
  *     tags: [Rides]
  *     parameters:
  *       - in: path
@@ -296,18 +871,19 @@ export default router;
  *           format: uuid
  *     responses:
  *       200:
- *         description: Ride completed successfully
+ *         description: Ride completed successfully, with the quoted and final fare of each booking
  *       400:
  *         description: Cannot complete ride
  */
 router.post('/:rideId/complete', async (req, res) => {
   try {
     const { rideId } = req.params;
-    await completionService.completeRide(rideId);
+    const settlements = await completionService.completeRide(rideId);
     
     res.json({
       success: true,
-      message: 'Ride completed successfully. Driver is now available.'
+      message: 'Ride completed successfully. Driver is now available.',
+      data: settlements
     });
   } catch (error: any) {
     res.status(400).json({
@@ -353,4 +929,161 @@ router.post('/:rideId/start', async (req, res) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/rides/{rideId}/arrived:
+ *   post:
+ *     summary: Mark the cab as arrived at a rider's pickup
+ *     description: >
+ *       Shorthand for POST /api/rides/{rideId}/waypoints with type pickup and event ARRIVED.
+ *       A rider who cancels after this is charged the cab-arrived fee.
+ *     tags: [Rides]
+ *     parameters:
+ *       - in: path
+ *         name: rideId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - requestId
+ *             properties:
+ *               requestId:
+ *                 type: string
+ *                 format: uuid
+ *     responses:
+ *       200:
+ *         description: Arrival recorded
+ *       400:
+ *         description: Ride not active or request not on the ride
+ */
+router.post('/:rideId/arrived', async (req, res) => {
+  try {
+    const { rideId } = req.params;
+    const { requestId } = arrivedSchema.parse(req.body);
+    await completionService.recordWaypoint(rideId, requestId, 'pickup', WaypointEvent.ARRIVED);
+    
+    res.json({
+      success: true,
+      message: 'Cab arrival recorded'
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/rides/{rideId}/waypoints:
+ *   post:
+ *     summary: Record the cab arriving at or finishing a pickup or dropoff
+ *     description: >
+ *       Picking a rider up moves their request to IN_PROGRESS and dropping them off to
+ *       COMPLETED. The ride completes, and fares are settled, when its last rider is
+ *       dropped off. Pickups and dropoffs (DONE) need the ride to have started.
+ *     tags: [Rides]
+ *     parameters:
+ *       - in: path
+ *         name: rideId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - requestId
+ *               - type
+ *               - event
+ *             properties:
+ *               requestId:
+ *                 type: string
+ *                 format: uuid
+ *               type:
+ *                 type: string
+ *                 enum: [pickup, dropoff]
+ *               event:
+ *                 type: string
+ *                 enum: [ARRIVED, DONE]
+ *     responses:
+ *       200:
+ *         description: Progress recorded, with fare settlements if the ride completed
+ *       400:
+ *         description: Ride not active, request not on the ride, or event out of order
+ */
+router.post('/:rideId/waypoints', async (req, res) => {
+  try {
+    const { rideId } = req.params;
+    const { requestId, type, event } = waypointSchema.parse(req.body);
+    const settlements = await completionService.recordWaypoint(rideId, requestId, type, event);
+    
+    res.json({
+      success: true,
+      message: settlements ? 'Last rider dropped off, ride completed' : 'Waypoint progress recorded',
+      data: settlements ? { rideCompleted: true, settlements } : { rideCompleted: false }
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/rides/{rideId}/waypoints:
+ *   get:
+ *     summary: Get the stops of a ride with the progress recorded at each
+ *     tags: [Rides]
+ *     parameters:
+ *       - in: path
+ *         name: rideId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Stops in route order with arrival and completion times
+ *       404:
+ *         description: Ride not found
+ */
+router.get('/:rideId/waypoints', async (req, res) => {
+  try {
+    const { rideId } = req.params;
+    const waypoints = await completionService.getWaypointProgress(rideId);
+    
+    if (!waypoints) {
+      return res.status(404).json({
+        success: false,
+        error: 'Ride not found'
+      });
+    }
+    
+    res.json({
+      success: true,
+      data: waypoints
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
 
@@ -29,10 +29,26 @@ const options = {
       {
         name: 'Cabs',
         description: 'Cab management endpoints'
+      },
+      {
+        name: 'Pricing',
+        description: 'Surge and tariff endpoints'
+      },
+      {
+        name: 'Tariffs',
+        description: 'Tariff administration endpoints'
+      },
+      {
+        name: 'Promotions',
+        description: 'Promo code administration endpoints'
+      },
+      {
+        name: 'Matching',
+        description: 'Matching queue administration endpoints'
       }
     ]
   },
-  apis: ['./src/api/routes.ts', './src/api/userRoutes.ts', './src/api/cabRoutes.ts']
+  apis: ['./src/api/routes.ts', './src/api/userRoutes.ts', './src/api/cabRoutes.ts', './src/api/pricingRoutes.ts', './src/api/tariffRoutes.ts', './src/api/promotionRoutes.ts', './src/api/matchingRoutes.ts']
 };
 
 export const swaggerSpec = swaggerJsdoc(options);
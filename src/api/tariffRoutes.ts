@@ -0,0 +1,316 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { TariffService } from '../services/TariffService';
+
+const router = Router();
+const tariffService = new TariffService();
+
+// Validation schemas
+const timeMultiplierSchema = z.object({
+  startHour: z.number().int().min(0).max(23),
+  endHour: z.number().int().min(0).max(24),
+  multiplier: z.number().min(1).max(3)
+});
+
+const tariffFieldsSchema = {
+  effectiveFrom: z.string().datetime(),
+  baseFare: z.number().min(0),
+  ratePerKm: z.number().min(0),
+  minFare: z.number().min(0),
+  timeMultipliers: z.array(timeMultiplierSchema),
+  poolingDiscounts: z.array(z.number().min(0).max(1)).min(1)
+};
+
+const createTariffSchema = z.object({
+  version: z.string().min(1).max(50),
+  ...tariffFieldsSchema,
+  effectiveFrom: tariffFieldsSchema.effectiveFrom.optional(),
+  timeMultipliers: tariffFieldsSchema.timeMultipliers.optional().default([]),
+  poolingDiscounts: tariffFieldsSchema.poolingDiscounts.optional().default([0])
+});
+
+const updateTariffSchema = z.object(tariffFieldsSchema).partial();
+
+/**
+ * @swagger
+ * /api/admin/tariffs:
+ *   post:
+ *     summary: Create a tariff version
+ *     description: >
+ *       The version prices new quotes from effectiveFrom (default now) until a later version takes effect.
+ *     tags: [Tariffs]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - version
+ *               - baseFare
+ *               - ratePerKm
+ *               - minFare
+ *             properties:
+ *               version:
+ *                 type: string
+ *                 example: 2026-11
+ *               effectiveFrom:
+ *                 type: string
+ *                 format: date-time
+ *               baseFare:
+ *                 type: number
+ *                 example: 5.0
+ *               ratePerKm:
+ *                 type: number
+ *                 example: 2.5
+ *               minFare:
+ *                 type: number
+ *                 example: 8.0
+ *               timeMultipliers:
+ *                 type: array
+ *                 description: Hour windows (endHour exclusive, may wrap past midnight); first match wins
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     startHour:
+ *                       type: integer
+ *                       example: 7
+ *                     endHour:
+ *                       type: integer
+ *                       example: 9
+ *                     multiplier:
+ *                       type: number
+ *                       example: 1.5
+ *               poolingDiscounts:
+ *                 type: array
+ *                 description: Discount rate for 1, 2, 3... riders; the last covers larger rides
+ *                 items:
+ *                   type: number
+ *                 example: [0, 0.2, 0.3, 0.4]
+ *     responses:
+ *       201:
+ *         description: Tariff created successfully
+ *       400:
+ *         description: Invalid input, effectiveFrom in the past or version already exists
+ */
+router.post('/', async (req, res) => {
+  try {
+    const data = createTariffSchema.parse(req.body);
+    
+    const tariff = await tariffService.createTariff({
+      ...data,
+      effectiveFrom: data.effectiveFrom ? new Date(data.effectiveFrom) : new Date()
+    });
+    
+    res.status(201).json({
+      success: true,
+      data: tariff
+    });
+  } catch (error: any) {
+    if (error.code === '23505') { // Unique violation
+      res.status(400).json({
+        success: false,
+        error: 'Tariff version already exists'
+      });
+    } else {
+      res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/tariffs:
+ *   get:
+ *     summary: Get all tariff versions and the one in effect
+ *     tags: [Tariffs]
+ *     responses:
+ *       200:
+ *         description: Versions, latest effective first, and the active tariff
+ */
+router.get('/', async (req, res) => {
+  try {
+    const tariffs = await tariffService.listTariffs();
+    const active = await tariffService.getActiveTariff();
+    
+    res.json({
+      success: true,
+      data: tariffs,
+      activeVersion: active.version
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/tariffs/{version}:
+ *   get:
+ *     summary: Get tariff version
+ *     tags: [Tariffs]
+ *     parameters:
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tariff details
+ *       404:
+ *         description: Tariff not found
+ */
+router.get('/:version', async (req, res) => {
+  try {
+    const tariff = await tariffService.getTariff(req.params.version);
+    
+    if (!tariff) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tariff not found'
+      });
+    }
+    
+    res.json({
+      success: true,
+      data: tariff
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/tariffs/{version}:
+ *   put:
+ *     summary: Update a tariff version that has not taken effect yet
+ *     tags: [Tariffs]
+ *     parameters:
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               effectiveFrom:
+ *                 type: string
+ *                 format: date-time
+ *               baseFare:
+ *                 type: number
+ *               ratePerKm:
+ *                 type: number
+ *               minFare:
+ *                 type: number
+ *               timeMultipliers:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *               poolingDiscounts:
+ *                 type: array
+ *                 items:
+ *                   type: number
+ *     responses:
+ *       200:
+ *         description: Tariff updated successfully
+ *       400:
+ *         description: Invalid input or tariff already in effect
+ *       404:
+ *         description: Tariff not found
+ */
+router.put('/:version', async (req, res) => {
+  try {
+    const data = updateTariffSchema.parse(req.body);
+    
+    if (Object.keys(data).length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'No fields to update'
+      });
+    }
+    
+    const { effectiveFrom, ...fields } = data;
+    const tariff = await tariffService.updateTariff(
+      req.params.version,
+      effectiveFrom ? { ...fields, effectiveFrom: new Date(effectiveFrom) } : fields
+    );
+    
+    if (!tariff) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tariff not found'
+      });
+    }
+    
+    res.json({
+      success: true,
+      data: tariff
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/tariffs/{version}:
+ *   delete:
+ *     summary: Delete a tariff version that has not taken effect yet
+ *     tags: [Tariffs]
+ *     parameters:
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tariff deleted successfully
+ *       400:
+ *         description: Tariff already in effect
+ *       404:
+ *         description: Tariff not found
+ */
+router.delete('/:version', async (req, res) => {
+  try {
+    const deleted = await tariffService.deleteTariff(req.params.version);
+    
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tariff not found'
+      });
+    }
+    
+    res.json({
+      success: true,
+      message: 'Tariff deleted successfully'
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+export default router;
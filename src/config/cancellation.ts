@@ -0,0 +1,26 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Cancellation fees charged to a rider who cancels a booked ride or does
+ * not show up at the pickup
+ * Driver and system cancellations are always free for riders, as are the
+ * co-riders of a rider who cancels
+ */
+export const cancellationConfig = {
+  // Riders cancel free for this long after booking
+  freeCancellationMinutes: parseFloat(process.env.CANCELLATION_FREE_MINUTES || '2'),
+  // After the free window, until the cab reaches the rider
+  lateCancellationFee: parseFloat(process.env.CANCELLATION_LATE_FEE || '5'),
+  // Once the cab has arrived at the rider's pickup or the ride is under way
+  cabArrivedFee: parseFloat(process.env.CANCELLATION_CAB_ARRIVED_FEE || '10'),
+  // Driver waits this long at the pickup before the rider can be marked a no-show
+  noShowWaitMinutes: parseFloat(process.env.NO_SHOW_WAIT_MINUTES || '5'),
+  // Charged to a rider marked as a no-show
+  noShowFee: parseFloat(process.env.NO_SHOW_FEE || '10'),
+};
+
+export type CancellationPolicy = typeof cancellationConfig;
+
+export default cancellationConfig;
@@ -0,0 +1,82 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Batch matching: collect PENDING requests over a window and group them together
+ * When disabled, each request is matched on its own by the matching queue
+ */
+export const batchMatchingConfig = {
+  enabled: process.env.BATCH_MATCHING_ENABLED === 'true',
+  windowMs: parseInt(process.env.BATCH_WINDOW_MS || '15000'),
+  maxRequests: parseInt(process.env.BATCH_MAX_REQUESTS || '200'),
+  resultTtlSeconds: parseInt(process.env.BATCH_RESULT_TTL_SECONDS || '60'),
+};
+
+/**
+ * Asynchronous matching: POST /request enqueues a job per request on a
+ * Redis-backed Bull queue, and GET /matches serves the stored result
+ * Failed attempts are retried with exponential backoff; jobs that fail
+ * every attempt go to the dead-letter queue
+ */
+export const matchingQueueConfig = {
+  // Set to false on instances that should only enqueue
+  workerEnabled: process.env.MATCHING_WORKER_ENABLED !== 'false',
+  // Jobs each worker process runs at once
+  concurrency: parseInt(process.env.MATCHING_CONCURRENCY || '10'),
+  attempts: parseInt(process.env.MATCHING_JOB_ATTEMPTS || '3'),
+  // Delay before the first retry, doubled for each one after
+  backoffMs: parseInt(process.env.MATCHING_JOB_BACKOFF_MS || '1000'),
+  // An attempt running longer than this fails
+  timeoutMs: parseInt(process.env.MATCHING_JOB_TIMEOUT_MS || '10000'),
+  // How long job status and results are kept
+  resultTtlSeconds: parseInt(process.env.MATCHING_RESULT_TTL_SECONDS || '600'),
+  // Suggested wait between polls while a job is pending
+  pollIntervalMs: parseInt(process.env.MATCHING_POLL_INTERVAL_MS || '500'),
+};
+
+/**
+ * Direction-of-travel filter applied before groups are built
+ * Requests pool only if their destinations are close and headings similar
+ */
+export const directionConfig = {
+  maxBearingDiffDegrees: parseFloat(process.env.MATCH_MAX_BEARING_DIFF_DEGREES || '45'),
+  maxDropoffDistanceKm: parseFloat(process.env.MATCH_MAX_DROPOFF_DISTANCE_KM || '10'),
+  // Headings of very short trips are noise, so only dropoff proximity applies
+  minTripKmForBearing: parseFloat(process.env.MATCH_MIN_TRIP_KM_FOR_BEARING || '1'),
+};
+
+/**
+ * Match ranking: every factor is normalised to 0-1 (higher is better) and
+ * score = 100 × Σ(weight × value) / Σ(weight)
+ * Weights are relative, so setting one to 0 drops that factor
+ */
+export const scoringConfig = {
+  weights: {
+    efficiency: parseFloat(process.env.MATCH_WEIGHT_EFFICIENCY || '25'),
+    detour: parseFloat(process.env.MATCH_WEIGHT_DETOUR || '20'),
+    savings: parseFloat(process.env.MATCH_WEIGHT_SAVINGS || '25'),
+    pickupWait: parseFloat(process.env.MATCH_WEIGHT_PICKUP_WAIT || '15'),
+    coRiders: parseFloat(process.env.MATCH_WEIGHT_CO_RIDERS || '15'),
+  },
+  // Direct km served per km driven that earns full efficiency marks (solo = 1)
+  efficiencyTarget: parseFloat(process.env.MATCH_EFFICIENCY_TARGET || '2'),
+  // Average detour at which the detour factor reaches 0
+  maxDetourMinutes: parseFloat(process.env.MATCH_SCORE_MAX_DETOUR_MINUTES || '20'),
+  // Savings per rider that earns full savings marks
+  savingsTarget: parseFloat(process.env.MATCH_SAVINGS_TARGET || '10'),
+  // Average wait past the rider's ready time at which the wait factor reaches 0
+  maxPickupWaitMinutes: parseFloat(process.env.MATCH_SCORE_MAX_PICKUP_WAIT_MINUTES || '30'),
+};
+
+/**
+ * Booking: every match is quoted and stored server-side, and booked by quoteId only
+ */
+export const bookingConfig = {
+  // How long a quoted fare is honoured at booking
+  quoteTtlSeconds: parseInt(process.env.FARE_QUOTE_TTL_SECONDS || '120'),
+  // Expired quotes are kept this long so booking can explain the expiry
+  expiredQuoteRetentionSeconds: parseInt(process.env.FARE_QUOTE_RETENTION_SECONDS || '3600'),
+};
+
+export default batchMatchingConfig;
@@ -0,0 +1,63 @@
+import dotenv from 'dotenv';
+import { CostSharingStrategy, Tariff } from '../types';
+
+dotenv.config();
+
+/**
+ * Zone-based surge: the service area is split into square grid cells and
+ * each cell's surge comes from demand and supply in it and its neighbours
+ */
+export const surgeConfig = {
+  cellSizeKm: parseFloat(process.env.SURGE_CELL_SIZE_KM || '2'),
+  // How much demand and supply in the 8 surrounding cells count toward a cell
+  neighbourWeight: parseFloat(process.env.SURGE_NEIGHBOUR_WEIGHT || '0.5'),
+  cacheSeconds: parseInt(process.env.SURGE_CACHE_SECONDS || '60'),
+};
+
+/**
+ * Geofenced tariff rules (flat fares, surcharges, caps)
+ * Without TARIFF_RULES_PATH every trip is metered
+ */
+export const tariffRulesConfig = {
+  rulesPath: process.env.TARIFF_RULES_PATH || '',
+};
+
+/**
+ * How shared rides are split between bookings
+ * COST_SHARING_AREAS_PATH picks a strategy per service area; elsewhere the default applies
+ */
+export const costSharingConfig = {
+  defaultStrategy: (process.env.COST_SHARING_STRATEGY || CostSharingStrategy.DISTANCE_RIDDEN) as CostSharingStrategy,
+  areasPath: process.env.COST_SHARING_AREAS_PATH || '',
+};
+
+/**
+ * Settling fares from the actual trip when a ride completes
+ * The final fare stays within tolerance (a fraction) of the quote either way
+ */
+export const fareSettlementConfig = {
+  tolerance: parseFloat(process.env.FARE_SETTLEMENT_TOLERANCE || '0.2'),
+  // Share of the adjustment driven by distance; duration drives the rest
+  distanceWeight: parseFloat(process.env.FARE_SETTLEMENT_DISTANCE_WEIGHT || '0.7'),
+};
+
+export type SettlementPolicy = typeof fareSettlementConfig;
+
+/**
+ * Tariff used when the tariffs table has no version in effect
+ */
+export const defaultTariff: Tariff = {
+  version: 'default',
+  effectiveFrom: new Date(0),
+  baseFare: 5.0,
+  ratePerKm: 2.5,
+  minFare: 8.0,
+  timeMultipliers: [
+    { startHour: 7, endHour: 9, multiplier: 1.5 }, // Morning peak
+    { startHour: 17, endHour: 19, multiplier: 1.5 }, // Evening peak
+    { startHour: 23, endHour: 5, multiplier: 1.3 } // Late night
+  ],
+  poolingDiscounts: [0, 0.20, 0.30, 0.40]
+};
+
+export default surgeConfig;
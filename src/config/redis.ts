@@ -3,12 +3,19 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+// Shared with the Bull queues, which open their own connections
+export const redisOptions = {
+  host: process.env.REDIS_HOST || 'localhost',
+  port: parseInt(process.env.REDIS_PORT || '6379'),
+  password: process.env.REDIS_PASSWORD || undefined,
+};
+
 export const redisClient = createClient({
   socket: {
-    host: process.env.REDIS_HOST || 'localhost',
-    port: parseInt(process.env.REDIS_PORT || '6379'),
+    host: redisOptions.host,
+    port: redisOptions.port,
   },
-  password: process.env.REDIS_PASSWORD || undefined,
+  password: redisOptions.password,
 });
 
 redisClient.on('error', (err) => console.error('Redis Client Error:', err));
@@ -0,0 +1,25 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Safety net for started rides whose last dropoff is never recorded
+ * Such a ride is completed once it is graceMinutes past its estimated end
+ * with no waypoint progress reported in the last graceMinutes
+ */
+export const autoCompletionConfig = {
+  enabled: process.env.AUTO_COMPLETE_ENABLED !== 'false',
+  graceMinutes: parseInt(process.env.AUTO_COMPLETE_GRACE_MINUTES || '30'),
+};
+
+/**
+ * Safety net for confirmed rides the driver never starts
+ * Such a ride is cancelled by the system, and its cab freed, once every
+ * rider's pickup window closed graceMinutes ago with no waypoint progress
+ */
+export const unstartedRideConfig = {
+  enabled: process.env.AUTO_CANCEL_UNSTARTED_ENABLED !== 'false',
+  graceMinutes: parseInt(process.env.AUTO_CANCEL_UNSTARTED_GRACE_MINUTES || '30'),
+};
+
+export default autoCompletionConfig;
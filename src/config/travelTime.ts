@@ -0,0 +1,23 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export type TravelTimeModelName = 'constant' | 'profile' | 'road';
+
+/**
+ * Travel-time model selection
+ * constant: straight-line distance at a fixed speed (default)
+ * profile: hourly speeds per zone from the JSON file at SPEED_PROFILES_PATH
+ * road: shortest paths over the OSM XML extract at OSM_EXTRACT_PATH
+ */
+export const travelTimeConfig = {
+  model: (process.env.TRAVEL_TIME_MODEL || 'constant') as TravelTimeModelName,
+  constantSpeedKmh: parseFloat(process.env.TRAVEL_CONSTANT_SPEED_KMH || '40'),
+  speedProfilesPath: process.env.SPEED_PROFILES_PATH || '',
+  osmExtractPath: process.env.OSM_EXTRACT_PATH || '',
+  // Points further than this from any road fall back to the constant model
+  maxSnapDistanceKm: parseFloat(process.env.ROAD_MAX_SNAP_DISTANCE_KM || '1'),
+  pathCacheSize: parseInt(process.env.ROAD_PATH_CACHE_SIZE || '10000'),
+};
+
+export default travelTimeConfig;
@@ -26,12 +26,26 @@ CREATE TABLE IF NOT EXISTS ride_requests (
     max_detour_minutes INTEGER NOT NULL DEFAULT 15,
     status VARCHAR(20) NOT NULL DEFAULT 'PENDING',
     requested_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    earliest_pickup_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    latest_pickup_at TIMESTAMP NOT NULL DEFAULT (CURRENT_TIMESTAMP + INTERVAL '20 minutes'),
     version INTEGER NOT NULL DEFAULT 1,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-    CONSTRAINT valid_status CHECK (status IN ('PENDING', 'MATCHED', 'CONFIRMED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'))
+    CONSTRAINT valid_status CHECK (status IN ('PENDING', 'MATCHED', 'CONFIRMED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED')),
+    CONSTRAINT valid_pickup_window CHECK (latest_pickup_at >= earliest_pickup_at)
 );
 
+-- Upgrade ride_requests created before pickup windows
+ALTER TABLE ride_requests ADD COLUMN IF NOT EXISTS earliest_pickup_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP;
+ALTER TABLE ride_requests ADD COLUMN IF NOT EXISTS latest_pickup_at TIMESTAMP NOT NULL
+    DEFAULT (CURRENT_TIMESTAMP + INTERVAL '20 minutes');
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'valid_pickup_window') THEN
+        ALTER TABLE ride_requests ADD CONSTRAINT valid_pickup_window CHECK (latest_pickup_at >= earliest_pickup_at);
+    END IF;
+END $$;
+
 -- Cabs table
 CREATE TABLE IF NOT EXISTS cabs (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -58,11 +72,15 @@ CREATE TABLE IF NOT EXISTS rides (
     surge_factor DECIMAL(5, 2) NOT NULL DEFAULT 1.0,
     status VARCHAR(20) NOT NULL DEFAULT 'PENDING',
     version INTEGER NOT NULL DEFAULT 1,
+    started_at TIMESTAMP,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     CONSTRAINT valid_ride_status CHECK (status IN ('PENDING', 'MATCHED', 'CONFIRMED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'))
 );
 
+-- Upgrade rides created before start times were recorded
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS started_at TIMESTAMP;
+
 -- Ride passengers junction table
 CREATE TABLE IF NOT EXISTS ride_passengers (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -72,17 +90,159 @@ CREATE TABLE IF NOT EXISTS ride_passengers (
     dropoff_order INTEGER NOT NULL,
     fare DECIMAL(10, 2) NOT NULL,
     detour_minutes INTEGER NOT NULL DEFAULT 0,
+    pickup_arrived_at TIMESTAMP,
+    picked_up_at TIMESTAMP,
+    dropoff_arrived_at TIMESTAMP,
+    dropped_off_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(ride_id, request_id)
+);
+
+-- Upgrade ride_passengers created before waypoint progress was tracked
+ALTER TABLE ride_passengers ADD COLUMN IF NOT EXISTS pickup_arrived_at TIMESTAMP;
+ALTER TABLE ride_passengers ADD COLUMN IF NOT EXISTS picked_up_at TIMESTAMP;
+ALTER TABLE ride_passengers ADD COLUMN IF NOT EXISTS dropoff_arrived_at TIMESTAMP;
+ALTER TABLE ride_passengers ADD COLUMN IF NOT EXISTS dropped_off_at TIMESTAMP;
+
+-- Audit trail of every ride and request status change
+-- clock_timestamp() keeps the order of changes made in one transaction
+CREATE TABLE IF NOT EXISTS status_transitions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    entity_type VARCHAR(10) NOT NULL CHECK (entity_type IN ('RIDE', 'REQUEST')),
+    entity_id UUID NOT NULL,
+    ride_id UUID REFERENCES rides(id),
+    from_status VARCHAR(20),
+    to_status VARCHAR(20) NOT NULL,
+    actor VARCHAR(20) NOT NULL CHECK (actor IN ('RIDER', 'DRIVER', 'SYSTEM')),
+    reason TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT clock_timestamp()
+);
+
+-- Cab locations reported while a ride is in progress, for the actual distance
+CREATE TABLE IF NOT EXISTS ride_locations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    ride_id UUID NOT NULL REFERENCES rides(id) ON DELETE CASCADE,
+    latitude DECIMAL(10, 8) NOT NULL,
+    longitude DECIMAL(11, 8) NOT NULL,
+    recorded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Quoted versus final fare of each booking on a completed ride
+CREATE TABLE IF NOT EXISTS fare_settlements (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    ride_id UUID NOT NULL REFERENCES rides(id),
+    request_id UUID NOT NULL REFERENCES ride_requests(id),
+    quoted_fare DECIMAL(10, 2) NOT NULL,
+    final_fare DECIMAL(10, 2) NOT NULL,
+    estimated_distance DECIMAL(10, 3) NOT NULL,
+    actual_distance DECIMAL(10, 3),
+    estimated_duration INTEGER NOT NULL,
+    actual_duration DECIMAL(10, 2),
+    capped BOOLEAN NOT NULL DEFAULT false,
+    settled_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(ride_id, request_id)
+);
+
+-- Fee and refund of each booking on a cancelled ride
+CREATE TABLE IF NOT EXISTS cancellation_charges (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    ride_id UUID NOT NULL REFERENCES rides(id),
+    request_id UUID NOT NULL REFERENCES ride_requests(id),
+    cancelled_by VARCHAR(20) NOT NULL CHECK (cancelled_by IN ('RIDER', 'DRIVER', 'SYSTEM')),
+    fare DECIMAL(10, 2) NOT NULL,
+    fee DECIMAL(10, 2) NOT NULL,
+    refund DECIMAL(10, 2) NOT NULL,
+    reason TEXT NOT NULL,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     UNIQUE(ride_id, request_id)
 );
 
+-- Versioned tariffs; the latest with effective_from <= now prices new quotes
+CREATE TABLE IF NOT EXISTS tariffs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    version VARCHAR(50) UNIQUE NOT NULL,
+    effective_from TIMESTAMP NOT NULL,
+    base_fare DECIMAL(10, 2) NOT NULL,
+    rate_per_km DECIMAL(10, 2) NOT NULL,
+    min_fare DECIMAL(10, 2) NOT NULL,
+    time_multipliers JSONB NOT NULL DEFAULT '[]',
+    pooling_discounts JSONB NOT NULL DEFAULT '[0]',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Promo codes and discount campaigns
+CREATE TABLE IF NOT EXISTS promotions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    code VARCHAR(50) UNIQUE NOT NULL,
+    description TEXT,
+    discount_type VARCHAR(20) NOT NULL CHECK (discount_type IN ('PERCENTAGE', 'FIXED')),
+    amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+    max_discount DECIMAL(10, 2),
+    per_user_limit INTEGER,
+    global_limit INTEGER,
+    redemption_count INTEGER NOT NULL DEFAULT 0,
+    valid_from TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    valid_to TIMESTAMP,
+    pooled_only BOOLEAN NOT NULL DEFAULT false,
+    area JSONB,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK (discount_type <> 'PERCENTAGE' OR amount <= 100)
+);
+
+-- One promo redemption per booking
+CREATE TABLE IF NOT EXISTS promo_redemptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    promotion_id UUID NOT NULL REFERENCES promotions(id),
+    user_id UUID NOT NULL REFERENCES users(id),
+    request_id UUID UNIQUE NOT NULL REFERENCES ride_requests(id),
+    ride_id UUID NOT NULL REFERENCES rides(id),
+    discount DECIMAL(10, 2) NOT NULL,
+    redeemed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Upgrade: pricing_history used to hold one row per ride, which cannot be
+-- split into bookings; those rows are kept in pricing_history_per_ride
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'pricing_history')
+    AND NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'pricing_history' AND column_name = 'request_id'
+    ) THEN
+        ALTER TABLE pricing_history RENAME TO pricing_history_per_ride;
+        ALTER INDEX pricing_history_pkey RENAME TO pricing_history_per_ride_pkey;
+    END IF;
+END $$;
+
 -- Pricing history for analytics
+-- One row per passenger booking each time its fare is set
 CREATE TABLE IF NOT EXISTS pricing_history (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     ride_id UUID NOT NULL REFERENCES rides(id),
+    request_id UUID NOT NULL REFERENCES ride_requests(id),
+    passengers INTEGER NOT NULL,
+    distance_km DECIMAL(10, 3) NOT NULL,
     base_fare DECIMAL(10, 2) NOT NULL,
     distance_fare DECIMAL(10, 2) NOT NULL,
     surge_multiplier DECIMAL(5, 2) NOT NULL,
+    surge_charge DECIMAL(10, 2) NOT NULL,
+    time_multiplier DECIMAL(5, 2) NOT NULL,
+    time_charge DECIMAL(10, 2) NOT NULL,
+    tariff_version VARCHAR(50) NOT NULL,
+    tariff_rules_version VARCHAR(50),
+    flat_fare_adjustment DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    cap_adjustment DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    surcharges JSONB NOT NULL DEFAULT '[]',
+    pooling_discount_rate DECIMAL(5, 2) NOT NULL,
+    pooling_discount DECIMAL(10, 2) NOT NULL,
+    minimum_fare_adjustment DECIMAL(10, 2) NOT NULL,
+    cost_sharing_strategy VARCHAR(20),
+    cost_share_adjustment DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    solo_fare DECIMAL(10, 2),
+    promo_code VARCHAR(50),
+    promo_discount DECIMAL(10, 2) NOT NULL DEFAULT 0,
     final_fare DECIMAL(10, 2) NOT NULL,
     calculated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
@@ -90,29 +250,36 @@ CREATE TABLE IF NOT EXISTS pricing_history (
 -- Indexes for performance optimization
 
 -- B-tree indexes on foreign keys
-CREATE INDEX idx_ride_requests_user_id ON ride_requests(user_id);
-CREATE INDEX idx_ride_requests_status ON ride_requests(status) WHERE status IN ('PENDING', 'MATCHED');
-CREATE INDEX idx_rides_cab_id ON rides(cab_id);
-CREATE INDEX idx_ride_passengers_ride_id ON ride_passengers(ride_id);
-CREATE INDEX idx_ride_passengers_request_id ON ride_passengers(request_id);
+CREATE INDEX IF NOT EXISTS idx_ride_requests_user_id ON ride_requests(user_id);
+CREATE INDEX IF NOT EXISTS idx_ride_requests_status ON ride_requests(status) WHERE status IN ('PENDING', 'MATCHED');
+CREATE INDEX IF NOT EXISTS idx_rides_cab_id ON rides(cab_id);
+CREATE INDEX IF NOT EXISTS idx_ride_passengers_ride_id ON ride_passengers(ride_id);
+CREATE INDEX IF NOT EXISTS idx_ride_passengers_request_id ON ride_passengers(request_id);
+CREATE INDEX IF NOT EXISTS idx_pricing_history_ride_id ON pricing_history(ride_id);
+CREATE INDEX IF NOT EXISTS idx_cancellation_charges_request_id ON cancellation_charges(request_id);
+CREATE INDEX IF NOT EXISTS idx_ride_locations_ride_id ON ride_locations(ride_id, recorded_at);
+CREATE INDEX IF NOT EXISTS idx_status_transitions_ride_id ON status_transitions(ride_id);
+CREATE INDEX IF NOT EXISTS idx_status_transitions_entity ON status_transitions(entity_id);
+CREATE INDEX IF NOT EXISTS idx_tariffs_effective_from ON tariffs(effective_from DESC);
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_promotion_user ON promo_redemptions(promotion_id, user_id);
 
 -- Composite indexes for common queries
-CREATE INDEX idx_ride_requests_status_time ON ride_requests(status, requested_at DESC);
-CREATE INDEX idx_rides_status_created ON rides(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ride_requests_status_time ON ride_requests(status, requested_at DESC);
+CREATE INDEX IF NOT EXISTS idx_rides_status_created ON rides(status, created_at DESC);
 
 -- GiST indexes for geospatial queries
-CREATE INDEX idx_ride_requests_pickup_location ON ride_requests USING GIST (
+CREATE INDEX IF NOT EXISTS idx_ride_requests_pickup_location ON ride_requests USING GIST (
     ST_MakePoint(pickup_lng, pickup_lat)
 );
-CREATE INDEX idx_ride_requests_dropoff_location ON ride_requests USING GIST (
+CREATE INDEX IF NOT EXISTS idx_ride_requests_dropoff_location ON ride_requests USING GIST (
     ST_MakePoint(dropoff_lng, dropoff_lat)
 );
-CREATE INDEX idx_cabs_location ON cabs USING GIST (
+CREATE INDEX IF NOT EXISTS idx_cabs_location ON cabs USING GIST (
     ST_MakePoint(current_lng, current_lat)
 ) WHERE is_available = true;
 
 -- Partial index for active requests (only PENDING status)
-CREATE INDEX idx_active_requests ON ride_requests(requested_at DESC) 
+CREATE INDEX IF NOT EXISTS idx_active_requests ON ride_requests(requested_at DESC) 
 WHERE status = 'PENDING';
 
 -- Function to update updated_at timestamp
@@ -125,14 +292,26 @@ END;
 $$ language 'plpgsql';
 
 -- Triggers for updated_at
+DROP TRIGGER IF EXISTS update_users_updated_at ON users;
 CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_ride_requests_updated_at ON ride_requests;
 CREATE TRIGGER update_ride_requests_updated_at BEFORE UPDATE ON ride_requests
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_cabs_updated_at ON cabs;
 CREATE TRIGGER update_cabs_updated_at BEFORE UPDATE ON cabs
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_rides_updated_at ON rides;
 CREATE TRIGGER update_rides_updated_at BEFORE UPDATE ON rides
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_tariffs_updated_at ON tariffs;
+CREATE TRIGGER update_tariffs_updated_at BEFORE UPDATE ON tariffs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_promotions_updated_at ON promotions;
+CREATE TRIGGER update_promotions_updated_at BEFORE UPDATE ON promotions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
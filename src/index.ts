@@ -8,8 +8,15 @@ import { connectRedis } from './config/redis';
 import rideRoutes from './api/routes';
 import userRoutes from './api/userRoutes';
 import cabRoutes from './api/cabRoutes';
+import pricingRoutes from './api/pricingRoutes';
+import tariffRoutes from './api/tariffRoutes';
+import promotionRoutes from './api/promotionRoutes';
+import matchingRoutes from './api/matchingRoutes';
 import { swaggerSpec } from './api/swagger';
 import { CronService } from './services/CronService';
+import { getMatchingQueue } from './services/MatchingQueueService';
+import { matchingQueueConfig } from './config/matching';
+import { loadTravelTimeModel } from './algorithms/travelTime';
 
 dotenv.config();
 
@@ -45,6 +52,10 @@ app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec));
 app.use('/api/rides', rideRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/cabs', cabRoutes);
+app.use('/api/pricing', pricingRoutes);
+app.use('/api/admin/tariffs', tariffRoutes);
+app.use('/api/admin/promotions', promotionRoutes);
+app.use('/api/admin/matching', matchingRoutes);
 
 // Health check
 app.get('/health', (req, res) => {
@@ -67,9 +78,18 @@ async function start() {
     await connectRedis();
     console.log('✓ Redis connected');
     
+    // Read any road extract or speed profiles now rather than on the first match
+    const travelTimeModel = loadTravelTimeModel();
+    console.log(`✓ Travel-time model loaded (${travelTimeModel.name})`);
+    
     // Start cron service for auto-completing rides
     cronService.start();
     
+    // Process matching jobs queued by this and other instances
+    if (matchingQueueConfig.workerEnabled) {
+      getMatchingQueue().startWorkers();
+    }
+    
     // Start server
     app.listen(PORT, () => {
       console.log(`✓ Server running on port ${PORT}`);
@@ -96,16 +116,25 @@ async function start() {
 }
 
 // Graceful shutdown
-process.on('SIGTERM', () => {
-  console.log('SIGTERM received, shutting down gracefully...');
+// Closing the queue lets running matching jobs finish first
+async function shutdown(): Promise<void> {
   cronService.stop();
+  try {
+    await getMatchingQueue().close();
+  } catch (error) {
+    console.error('Error closing matching queue:', error);
+  }
   process.exit(0);
+}
+
+process.on('SIGTERM', () => {
+  console.log('SIGTERM received, shutting down gracefully...');
+  shutdown();
 });
 
 process.on('SIGINT', () => {
   console.log('SIGINT received, shutting down gracefully...');
-  cronService.stop();
-  process.exit(0);
+  shutdown();
 });
 
 start();
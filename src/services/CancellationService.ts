@@ -0,0 +1,32 @@
+import { PoolClient } from 'pg';
+import { CancellationCharge } from '../types';
+import { CancelledBooking } from '../algorithms/cancellation';
+
+/**
+ * Cancellation fees and refunds of bookings
+ * Charges are assessed in algorithms/cancellation; they are recorded here
+ * inside the caller's transaction
+ */
+export class CancellationService {
+  async recordCharges(client: PoolClient, rideId: string, charges: CancellationCharge[]): Promise<void> {
+    for (const charge of charges) {
+      await client.query(
+        `INSERT INTO cancellation_charges (ride_id, request_id, cancelled_by, fare, fee, refund, reason)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [rideId, charge.requestId, charge.cancelledBy, charge.fare, charge.fee, charge.refund, charge.reason]
+      );
+    }
+  }
+}
+
+/**
+ * Booking as the cancellation policy sees it, from a ride_passengers row
+ */
+export function mapRowToCancelledBooking(row: any): CancelledBooking {
+  return {
+    requestId: row.request_id,
+    fare: parseFloat(row.fare),
+    bookedAt: new Date(row.created_at),
+    cabArrived: row.pickup_arrived_at !== null
+  };
+}
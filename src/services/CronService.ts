@@ -1,15 +1,21 @@
 import { RideCompletionService } from './RideCompletionService';
+import { RideService } from './RideService';
+import { getMatchingQueue } from './MatchingQueueService';
+import { batchMatchingConfig } from '../config/matching';
 
 /**
  * Cron service to run periodic tasks
  */
 export class CronService {
   private completionService: RideCompletionService;
+  private rideService: RideService;
   private intervalId: NodeJS.Timeout | null = null;
+  private batchIntervalId: NodeJS.Timeout | null = null;
   private readonly CHECK_INTERVAL_MS = 60000; // Check every 1 minute
 
   constructor() {
     this.completionService = new RideCompletionService();
+    this.rideService = new RideService();
   }
 
   /**
@@ -31,6 +37,14 @@ export class CronService {
       this.runTasks();
     }, this.CHECK_INTERVAL_MS);
 
+    // Batch matching runs once per window
+    if (batchMatchingConfig.enabled) {
+      console.log(`🕐 Batch matching enabled (window ${batchMatchingConfig.windowMs}ms)`);
+      this.batchIntervalId = setInterval(() => {
+        this.runBatchMatching();
+      }, batchMatchingConfig.windowMs);
+    }
+
     console.log('✓ Cron service started');
   }
 
@@ -38,6 +52,11 @@ export class CronService {
    * Stop the cron service
    */
   stop(): void {
+    if (this.batchIntervalId) {
+      clearInterval(this.batchIntervalId);
+      this.batchIntervalId = null;
+    }
+
     if (this.intervalId) {
       clearInterval(this.intervalId);
       this.intervalId = null;
@@ -56,8 +75,47 @@ export class CronService {
       if (count > 0) {
         console.log(`[${new Date().toISOString()}] Auto-completed ${count} ride(s)`);
       }
+
+      // Cancel rides the driver never started so their cabs are freed
+      const charges = await this.rideService.cancelUnstartedRides();
+
+      if (charges.length > 0) {
+        console.log(`[${new Date().toISOString()}] Cancelled unstarted rides of ${charges.length} rider(s)`);
+        await this.requeueRiders(charges.map(c => c.requestId));
+      }
     } catch (error) {
       console.error('[Cron] Error running tasks:', error);
     }
   }
+
+  /**
+   * Queue riders of a cancelled ride for a new match
+   * Batch mode picks them up in its next window instead
+   */
+  private async requeueRiders(requestIds: string[]): Promise<void> {
+    if (batchMatchingConfig.enabled) {
+      return;
+    }
+
+    for (const requestId of requestIds) {
+      await getMatchingQueue().requeue(requestId).catch(error =>
+        console.error(`[Matching] Error requeueing request ${requestId}:`, error)
+      );
+    }
+  }
+
+  /**
+   * Run one batch matching window
+   */
+  private async runBatchMatching(): Promise<void> {
+    try {
+      const count = await this.rideService.runBatchMatching();
+
+      if (count > 0) {
+        console.log(`[${new Date().toISOString()}] Batch matched ${count} request(s)`);
+      }
+    } catch (error) {
+      console.error('[Cron] Error running batch matching:', error);
+    }
+  }
 }
@@ -0,0 +1,266 @@
+import Queue, { Job } from 'bull';
+import redisClient, { redisOptions } from '../config/redis';
+import { matchingQueueConfig } from '../config/matching';
+import { MatchingDeadLetter, MatchingJob, MatchingJobStatus } from '../types';
+import { advanceMatchingJob, MatchingJobEvent } from '../algorithms/matchingJob';
+import { RideService } from './RideService';
+
+interface MatchingJobData {
+  requestId: string;
+  promoCode?: string;
+}
+
+type MatchingJobListener = (job: MatchingJob) => void;
+
+/**
+ * Asynchronous matching on Redis-backed Bull queues
+ * Each request gets one job, keyed by its request id so it is never queued
+ * twice. Workers match the request and keep the job's status and result
+ * under matching:{requestId}, publishing every change on the channel of
+ * the same name for clients that want it pushed
+ */
+export class MatchingQueueService {
+  private queue: Queue.Queue<MatchingJobData>;
+  private deadLetterQueue: Queue.Queue<MatchingDeadLetter>;
+  private rideService: RideService;
+  private subscriber: ReturnType<typeof redisClient.duplicate> | null = null;
+
+  constructor() {
+    this.queue = new Queue<MatchingJobData>('matching', { redis: redisOptions });
+    // Never processed: jobs wait here to be inspected or retried
+    this.deadLetterQueue = new Queue<MatchingDeadLetter>('matching-dead-letter', { redis: redisOptions });
+    this.rideService = new RideService();
+  }
+
+  /**
+   * Queue matching for a request
+   * A request that cannot be queued, e.g. while Redis is down, gets a FAILED
+   * job so it is not left waiting; requeue it to try again
+   * @returns The job's status; the existing one if the request is already queued
+   */
+  async enqueue(requestId: string, promoCode?: string): Promise<MatchingJob> {
+    // A new job starts afresh, whatever the record of an earlier one says
+    const queued = advanceMatchingJob(null, requestId, { type: 'QUEUED', promoCode });
+
+    try {
+      const existing = await this.queue.getJob(requestId);
+      if (existing) {
+        const job = await this.getJob(requestId);
+        if (job) {
+          return job;
+        }
+      }
+
+      await this.saveJob(queued);
+
+      // Attempts time themselves out in process(), so a timed-out search also stops
+      await this.queue.add({ requestId, promoCode }, {
+        jobId: requestId,
+        attempts: matchingQueueConfig.attempts,
+        backoff: { type: 'exponential', delay: matchingQueueConfig.backoffMs },
+        removeOnComplete: true,
+        removeOnFail: true
+      });
+
+      return queued;
+    } catch (error: any) {
+      console.error(`[Matching] Error queueing request ${requestId}:`, error);
+
+      const failed = advanceMatchingJob(queued, requestId, { type: 'ENQUEUE_FAILED', error: error.message });
+      // Without Redis nothing is stored; GET /matches queues a PENDING request with no job
+      return this.saveJob(failed).catch(() => failed);
+    }
+  }
+
+  /**
+   * Match a request again, with the promo code it was first queued with
+   * @returns The job's status; the existing one if the request is already queued
+   */
+  async requeue(requestId: string): Promise<MatchingJob> {
+    const previous = await this.getJob(requestId);
+    return this.enqueue(requestId, previous?.promoCode);
+  }
+
+  /**
+   * Status and result of a request's matching job
+   * @returns null if the request was never queued or its result has expired
+   */
+  async getJob(requestId: string): Promise<MatchingJob | null> {
+    const cached = await redisClient.get(`matching:${requestId}`);
+    return cached ? this.parseJob(cached) : null;
+  }
+
+  /**
+   * Be told of every change to a request's matching job, from any instance
+   * @returns Stops the listener
+   */
+  async subscribe(requestId: string, listener: MatchingJobListener): Promise<() => Promise<void>> {
+    if (!this.subscriber) {
+      this.subscriber = redisClient.duplicate();
+      await this.subscriber.connect();
+    }
+
+    const subscriber = this.subscriber;
+    const channel = `matching:${requestId}`;
+    const onMessage = (message: string) => listener(this.parseJob(message));
+    await subscriber.subscribe(channel, onMessage);
+
+    return async () => {
+      await subscriber.unsubscribe(channel, onMessage);
+    };
+  }
+
+  /**
+   * Start processing matching jobs in this process
+   */
+  startWorkers(): void {
+    this.queue.on('failed', (job, error) => {
+      this.handleFailure(job, error).catch(err =>
+        console.error('[Matching] Error recording failed job:', err)
+      );
+    });
+
+    this.queue.process(matchingQueueConfig.concurrency, job => this.process(job)).catch(error =>
+      console.error('[Matching] Worker stopped:', error)
+    );
+
+    console.log(`✓ Matching workers started (concurrency ${matchingQueueConfig.concurrency})`);
+  }
+
+  /**
+   * Jobs that failed every attempt, oldest first
+   */
+  async getDeadLetters(): Promise<MatchingDeadLetter[]> {
+    const jobs = await this.deadLetterQueue.getWaiting();
+    return jobs
+      .map(job => ({ ...job.data, failedAt: new Date(job.data.failedAt) }))
+      .sort((a, b) => a.failedAt.getTime() - b.failedAt.getTime());
+  }
+
+  /**
+   * Move a dead-lettered job back onto the matching queue
+   * @returns The requeued job's status, or null if it is not dead-lettered
+   */
+  async retryDeadLetter(requestId: string): Promise<MatchingJob | null> {
+    const deadLetter = await this.deadLetterQueue.getJob(requestId);
+    if (!deadLetter) {
+      return null;
+    }
+
+    const job = await this.enqueue(requestId, deadLetter.data.promoCode);
+    await deadLetter.remove();
+
+    return job;
+  }
+
+  async close(): Promise<void> {
+    await this.queue.close();
+    await this.deadLetterQueue.close();
+    if (this.subscriber) {
+      await this.subscriber.quit();
+      this.subscriber = null;
+    }
+  }
+
+  /**
+   * One attempt at matching a request
+   * An attempt that runs past the timeout fails, and its search is aborted
+   * so it stops and gives up the request's matching lock
+   * A request with no ride available is cancelled
+   */
+  private async process(job: Job<MatchingJobData>): Promise<number> {
+    const { requestId, promoCode } = job.data;
+    const attempt = job.attemptsMade + 1;
+
+    await this.advance(requestId, { type: 'STARTED', attempt });
+    await job.progress(10);
+
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`Matching timed out after ${matchingQueueConfig.timeoutMs}ms`));
+      }, matchingQueueConfig.timeoutMs);
+    });
+
+    let matches: any[];
+    try {
+      matches = await Promise.race([
+        this.rideService.findMatches(requestId, promoCode, controller.signal),
+        timedOut
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (matches.length === 0) {
+      await this.rideService.markNoDriverAvailable(requestId);
+    }
+
+    await this.advance(requestId, { type: 'COMPLETED', attempt, matches });
+
+    return matches.length;
+  }
+
+  /**
+   * Back to QUEUED while Bull retries the job, otherwise to the dead-letter queue
+   */
+  private async handleFailure(job: Job<MatchingJobData>, error: Error): Promise<void> {
+    const { requestId, promoCode } = job.data;
+
+    const next = await this.advance(requestId, {
+      type: 'ATTEMPT_FAILED',
+      attemptsMade: job.attemptsMade,
+      maxAttempts: job.opts.attempts ?? 1,
+      error: error.message
+    });
+    if (next.status !== MatchingJobStatus.FAILED) {
+      return;
+    }
+
+    await this.deadLetterQueue.add({
+      requestId,
+      promoCode,
+      error: error.message,
+      attempts: job.attemptsMade,
+      failedAt: new Date()
+    }, { jobId: requestId });
+
+    console.error(`[Matching] Request ${requestId} dead-lettered after ${job.attemptsMade} attempt(s): ${error.message}`);
+  }
+
+  /**
+   * Move a request's job on from its stored state and publish the result
+   */
+  private async advance(requestId: string, event: MatchingJobEvent): Promise<MatchingJob> {
+    return this.saveJob(advanceMatchingJob(await this.getJob(requestId), requestId, event));
+  }
+
+  private async saveJob(job: MatchingJob): Promise<MatchingJob> {
+    const key = `matching:${job.requestId}`;
+    const value = JSON.stringify(job);
+
+    await redisClient.setEx(key, matchingQueueConfig.resultTtlSeconds, value);
+    await redisClient.publish(key, value);
+
+    return job;
+  }
+
+  private parseJob(value: string): MatchingJob {
+    const job = JSON.parse(value);
+    return { ...job, updatedAt: new Date(job.updatedAt) };
+  }
+}
+
+let activeQueue: MatchingQueueService | null = null;
+
+/**
+ * Process-wide matching queue, connected on first use
+ */
+export function getMatchingQueue(): MatchingQueueService {
+  if (!activeQueue) {
+    activeQueue = new MatchingQueueService();
+  }
+  return activeQueue;
+}
@@ -0,0 +1,209 @@
+import pool from '../config/database';
+import { PoolClient } from 'pg';
+import { Promotion } from '../types';
+import { checkRedeemable } from '../algorithms/promotions';
+
+/**
+ * Promo codes and their redemptions
+ * Quoting only previews a code; confirmBooking redeems it inside the booking
+ * transaction with the promotion row locked, so limits cannot be overspent
+ */
+export class PromotionService {
+  async createPromotion(promotion: Omit<Promotion, 'redemptionCount'>): Promise<Promotion> {
+    const result = await pool.query(
+      `INSERT INTO promotions (code, description, discount_type, amount, max_discount, per_user_limit, global_limit,
+        valid_from, valid_to, pooled_only, area)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11) RETURNING *`,
+      [
+        normalizeCode(promotion.code),
+        promotion.description,
+        promotion.discountType,
+        promotion.amount,
+        promotion.maxDiscount,
+        promotion.perUserLimit,
+        promotion.globalLimit,
+        promotion.validFrom,
+        promotion.validTo,
+        promotion.pooledOnly,
+        promotion.area ? JSON.stringify(promotion.area) : null
+      ]
+    );
+    
+    return this.mapRowToPromotion(result.rows[0]);
+  }
+
+  async listPromotions(): Promise<Promotion[]> {
+    const result = await pool.query('SELECT * FROM promotions ORDER BY created_at DESC');
+    return result.rows.map(row => this.mapRowToPromotion(row));
+  }
+
+  async getPromotion(code: string): Promise<Promotion | null> {
+    const result = await pool.query('SELECT * FROM promotions WHERE code = $1', [normalizeCode(code)]);
+    return result.rows.length > 0 ? this.mapRowToPromotion(result.rows[0]) : null;
+  }
+
+  /**
+   * Change a promotion's terms, e.g. end it early by setting validTo
+   * Redemptions already made keep the discount they got
+   * @returns null if the code does not exist
+   */
+  async updatePromotion(
+    code: string,
+    changes: Partial<Omit<Promotion, 'code' | 'redemptionCount'>>
+  ): Promise<Promotion | null> {
+    const columns: Record<string, string> = {
+      description: 'description',
+      discountType: 'discount_type',
+      amount: 'amount',
+      maxDiscount: 'max_discount',
+      perUserLimit: 'per_user_limit',
+      globalLimit: 'global_limit',
+      validFrom: 'valid_from',
+      validTo: 'valid_to',
+      pooledOnly: 'pooled_only',
+      area: 'area'
+    };
+    
+    const updates: string[] = [];
+    const values: any[] = [];
+    for (const [field, value] of Object.entries(changes)) {
+      if (value === undefined) continue;
+      updates.push(`${columns[field]} = $${values.length + 1}`);
+      values.push(field === 'area' && value !== null ? JSON.stringify(value) : value);
+    }
+    
+    if (updates.length === 0) {
+      return this.getPromotion(code);
+    }
+    
+    values.push(normalizeCode(code));
+    const result = await pool.query(
+      `UPDATE promotions SET ${updates.join(', ')} WHERE code = $${values.length} RETURNING *`,
+      values
+    );
+    
+    return result.rows.length > 0 ? this.mapRowToPromotion(result.rows[0]) : null;
+  }
+
+  /**
+   * Times a user has redeemed a promotion
+   */
+  async countUserRedemptions(code: string, userId: string): Promise<number> {
+    const result = await pool.query(
+      `SELECT COUNT(*) FROM promo_redemptions r
+       JOIN promotions p ON p.id = r.promotion_id
+       WHERE p.code = $1 AND r.user_id = $2`,
+      [normalizeCode(code), userId]
+    );
+    return parseInt(result.rows[0].count);
+  }
+
+  /**
+   * Redeem a quoted promo discount inside the booking transaction
+   * The promotion row stays locked until the booking commits, so concurrent
+   * bookings see each other's redemptions and limits hold
+   * @throws if the code can no longer be redeemed; the booking must roll back
+   */
+  async redeem(
+    client: PoolClient,
+    redemption: { code: string; userId: string; requestId: string; rideId: string; discount: number }
+  ): Promise<void> {
+    const locked = await client.query(
+      'SELECT * FROM promotions WHERE code = $1 FOR UPDATE',
+      [normalizeCode(redemption.code)]
+    );
+    
+    if (locked.rows.length === 0) {
+      throw new Error(`Promo code ${redemption.code} no longer exists. Please fetch matches again for a new quote.`);
+    }
+    
+    const promotion = this.mapRowToPromotion(locked.rows[0]);
+    const promotionId = locked.rows[0].id;
+    
+    const used = await client.query(
+      'SELECT COUNT(*) FROM promo_redemptions WHERE promotion_id = $1 AND user_id = $2',
+      [promotionId, redemption.userId]
+    );
+    
+    const notRedeemable = checkRedeemable(promotion, parseInt(used.rows[0].count));
+    if (notRedeemable) {
+      throw new Error(`${notRedeemable}. Please fetch matches again for a new quote.`);
+    }
+    
+    await client.query(
+      `INSERT INTO promo_redemptions (promotion_id, user_id, request_id, ride_id, discount)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [promotionId, redemption.userId, redemption.requestId, redemption.rideId, redemption.discount]
+    );
+    
+    await client.query(
+      'UPDATE promotions SET redemption_count = redemption_count + 1 WHERE id = $1',
+      [promotionId]
+    );
+  }
+
+  /**
+   * Give back the redemptions of bookings on a cancelled ride, so the
+   * riders can use their codes again when they rebook
+   * @param requestIds - Only these bookings, e.g. a rider leaving a shared ride; all if omitted
+   */
+  async releaseRedemptions(client: PoolClient, rideId: string, requestIds?: string[]): Promise<void> {
+    const released = await client.query(
+      `DELETE FROM promo_redemptions WHERE ride_id = $1 AND ($2::uuid[] IS NULL OR request_id = ANY($2))
+       RETURNING promotion_id`,
+      [rideId, requestIds || null]
+    );
+    
+    for (const row of released.rows) {
+      await client.query(
+        'UPDATE promotions SET redemption_count = redemption_count - 1 WHERE id = $1',
+        [row.promotion_id]
+      );
+    }
+  }
+
+  /**
+   * Promo discounts already redeemed by bookings, by request id
+   * Used to keep a rider's discount when their fare is recomputed
+   */
+  async getRedeemedDiscounts(
+    client: PoolClient,
+    requestIds: string[]
+  ): Promise<Map<string, { code: string; discount: number }>> {
+    const result = await client.query(
+      `SELECT r.request_id, p.code, r.discount FROM promo_redemptions r
+       JOIN promotions p ON p.id = r.promotion_id
+       WHERE r.request_id = ANY($1)`,
+      [requestIds]
+    );
+    
+    return new Map(result.rows.map(row => [
+      row.request_id,
+      { code: row.code, discount: parseFloat(row.discount) }
+    ]));
+  }
+
+  private mapRowToPromotion(row: any): Promotion {
+    return {
+      code: row.code,
+      description: row.description,
+      discountType: row.discount_type,
+      amount: parseFloat(row.amount),
+      maxDiscount: row.max_discount === null ? null : parseFloat(row.max_discount),
+      perUserLimit: row.per_user_limit,
+      globalLimit: row.global_limit,
+      redemptionCount: row.redemption_count,
+      validFrom: new Date(row.valid_from),
+      validTo: row.valid_to ? new Date(row.valid_to) : null,
+      pooledOnly: row.pooled_only,
+      area: row.area
+    };
+  }
+}
+
+/**
+ * Codes are case-insensitive
+ */
+function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
@@ -1,77 +1,64 @@
 import pool from '../config/database';
-import { RideStatus } from '../types';
+import { PoolClient } from 'pg';
+import { Actor, FareSettlement, Location, RideStatus, WaypointEvent, WaypointProgress } from '../types';
+import { RideStateService } from './RideStateService';
+import { PromotionService } from './PromotionService';
+import { CancellationService, mapRowToCancelledBooking } from './CancellationService';
+import { assessUnservedBooking } from '../algorithms/cancellation';
+import { cancellationConfig } from '../config/cancellation';
+import { measureBookingTrip, plannedBookingTrip, settleFare, TrailPoint } from '../algorithms/settlement';
+import { applyWaypointEvent, PassengerProgress } from '../algorithms/waypointProgress';
+import { fareSettlementConfig } from '../config/pricing';
+import { autoCompletionConfig } from '../config/rides';
 
 /**
  * Service to handle automatic ride completion and driver release
  */
 export class RideCompletionService {
+  private stateService: RideStateService;
+  private promotionService: PromotionService;
+  private cancellationService: CancellationService;
+
+  constructor() {
+    this.stateService = new RideStateService();
+    this.promotionService = new PromotionService();
+    this.cancellationService = new CancellationService();
+  }
+
   /**
-   * Complete rides that have passed their estimated duration
+   * Safety net for rides whose last dropoff is never recorded: completes
+   * started rides that are past their estimated end by the grace period
+   * with no waypoint progress in that time (e.g. not stuck in traffic)
+   * Rides that never started are cancelled by RideService.cancelUnstartedRides
    * This should be run periodically (e.g., every minute via cron job)
    */
   async completeExpiredRides(): Promise<number> {
+    if (!autoCompletionConfig.enabled) {
+      return 0;
+    }
+
     const client = await pool.connect();
     let completedCount = 0;
 
     try {
       await client.query('BEGIN');
 
-      // Find rides that should be completed
-      // (created_at + estimated_duration has passed and status is IN_PROGRESS or CONFIRMED)
       const expiredRides = await client.query(`
-        SELECT r.id, r.cab_id, r.estimated_duration, r.created_at
+        SELECT r.id
         FROM rides r
-        WHERE r.status IN ($1, $2)
-        AND r.created_at + (r.estimated_duration || ' minutes')::INTERVAL < NOW()
+        WHERE r.status = $1
+        AND COALESCE(r.started_at, r.created_at) + (r.estimated_duration + $2) * INTERVAL '1 minute' < NOW()
+        AND NOT EXISTS (
+          SELECT 1 FROM ride_passengers p
+          WHERE p.ride_id = r.id
+          AND GREATEST(p.pickup_arrived_at, p.picked_up_at, p.dropoff_arrived_at, p.dropped_off_at)
+            > NOW() - $2 * INTERVAL '1 minute'
+        )
         FOR UPDATE
-      `, [RideStatus.CONFIRMED, RideStatus.IN_PROGRESS]);
+      `, [RideStatus.IN_PROGRESS, autoCompletionConfig.graceMinutes]);
 
       for (const ride of expiredRides.rows) {
-        // Get the final dropoff location from the ride route
-        const rideDetails = await client.query(
-          'SELECT route FROM rides WHERE id = $1',
-          [ride.id]
-        );
-        
-        const route = rideDetails.rows[0].route;
-        let finalDropoffLat = null;
-        let finalDropoffLng = null;
-        
-        // Extract final dropoff location from route waypoints
-        if (route && route.waypoints && route.waypoints.length > 0) {
-          const lastWaypoint = route.waypoints[route.waypoints.length - 1];
-          if (lastWaypoint.type === 'dropoff' && lastWaypoint.location) {
-            finalDropoffLat = lastWaypoint.location.latitude;
-            finalDropoffLng = lastWaypoint.location.longitude;
-          }
-        }
-        
-        // Update ride status to COMPLETED
-        await client.query(
-          'UPDATE rides SET status = $1, version = version + 1 WHERE id = $2',
-          [RideStatus.COMPLETED, ride.id]
-        );
-
-        // Free up the cab and update its location to final dropoff
-        if (finalDropoffLat && finalDropoffLng) {
-          await client.query(
-            'UPDATE cabs SET is_available = true, current_lat = $1, current_lng = $2 WHERE id = $3',
-            [finalDropoffLat, finalDropoffLng, ride.cab_id]
-          );
-        } else {
-          // Fallback: just free up the cab without updating location
-          await client.query(
-            'UPDATE cabs SET is_available = true WHERE id = $1',
-            [ride.cab_id]
-          );
-        }
-
-        // Update associated requests to COMPLETED
-        await client.query(`
-          UPDATE ride_requests SET status = $1
-          WHERE id IN (SELECT request_id FROM ride_passengers WHERE ride_id = $2)
-        `, [RideStatus.COMPLETED, ride.id]);
-
+        await this.completeLockedRide(client, ride.id, Actor.SYSTEM, 'No progress past the estimated end of the ride');
         completedCount++;
       }
 
@@ -93,77 +80,50 @@ export class RideCompletionService {
 
   /**
    * Manually complete a ride
+   * @returns Quoted versus final fare of each booking
    */
-  async completeRide(rideId: string): Promise<void> {
+  async completeRide(rideId: string): Promise<FareSettlement[]> {
     const client = await pool.connect();
 
     try {
       await client.query('BEGIN');
 
-      // Get ride details
-      const rideCheck = await client.query(
-        'SELECT status, cab_id FROM rides WHERE id = $1 FOR UPDATE',
-        [rideId]
-      );
+      const settlements = await this.completeLockedRide(client, rideId, Actor.DRIVER, 'Completed by the driver');
 
-      if (rideCheck.rows.length === 0) {
-        throw new Error('Ride not found');
-      }
-
-      if (rideCheck.rows[0].status === RideStatus.COMPLETED) {
-        throw new Error('Ride already completed');
-      }
+      await client.query('COMMIT');
 
-      if (rideCheck.rows[0].status === RideStatus.CANCELLED) {
-        throw new Error('Cannot complete cancelled ride');
-      }
+      return settlements;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
 
-      const cabId = rideCheck.rows[0].cab_id;
+  /**
+   * Start a ride (change status from CONFIRMED to IN_PROGRESS)
+   * Its requests stay CONFIRMED until each rider's pickup is recorded
+   */
+  async startRide(rideId: string): Promise<void> {
+    const client = await pool.connect();
 
-      // Get the final dropoff location from the ride route
-      const rideDetails = await client.query(
-        'SELECT route FROM rides WHERE id = $1',
-        [rideId]
-      );
-      
-      const route = rideDetails.rows[0].route;
-      let finalDropoffLat = null;
-      let finalDropoffLng = null;
-      
-      // Extract final dropoff location from route waypoints
-      if (route && route.waypoints && route.waypoints.length > 0) {
-        const lastWaypoint = route.waypoints[route.waypoints.length - 1];
-        if (lastWaypoint.type === 'dropoff' && lastWaypoint.location) {
-          finalDropoffLat = lastWaypoint.location.latitude;
-          finalDropoffLng = lastWaypoint.location.longitude;
-        }
-      }
+    try {
+      await client.query('BEGIN');
 
-      // Update ride status
-      await client.query(
-        'UPDATE rides SET status = $1, version = version + 1 WHERE id = $2',
-        [RideStatus.COMPLETED, rideId]
+      await this.stateService.transitionRide(
+        client, rideId, RideStatus.IN_PROGRESS, Actor.DRIVER, 'Started by the driver'
       );
 
-      // Free up the cab and update its location to final dropoff
-      if (finalDropoffLat && finalDropoffLng) {
-        await client.query(
-          'UPDATE cabs SET is_available = true, current_lat = $1, current_lng = $2 WHERE id = $3',
-          [finalDropoffLat, finalDropoffLng, cabId]
-        );
-      } else {
-        // Fallback: just free up the cab without updating location
-        await client.query(
-          'UPDATE cabs SET is_available = true WHERE id = $1',
-          [cabId]
-        );
-      }
+      await client.query('UPDATE rides SET started_at = NOW() WHERE id = $1', [rideId]);
 
-      // Update associated requests
+      // The trail the actual distance is measured along starts where the cab is now
       await client.query(`
-        UPDATE ride_requests SET status = $1
-        WHERE id IN (SELECT request_id FROM ride_passengers WHERE ride_id = $2)
-      `, [RideStatus.COMPLETED, rideId]);
+        INSERT INTO ride_locations (ride_id, latitude, longitude)
+        SELECT r.id, c.current_lat, c.current_lng FROM rides r
+        JOIN cabs c ON c.id = r.cab_id
+        WHERE r.id = $1 AND c.current_lat IS NOT NULL AND c.current_lng IS NOT NULL
+      `, [rideId]);
 
       await client.query('COMMIT');
     } catch (error) {
@@ -175,9 +135,18 @@ export class RideCompletionService {
   }
 
   /**
-   * Start a ride (change status from CONFIRMED to IN_PROGRESS)
+   * Record the cab arriving at, or finishing, a rider's pickup or dropoff
+   * A pickup moves the request to IN_PROGRESS and a dropoff to COMPLETED;
+   * the ride completes with its last dropoff. Arriving at a pickup is what
+   * the cancellation policy's cab-arrived fee is based on
+   * @returns Fare settlements if this completed the ride, otherwise null
    */
-  async startRide(rideId: string): Promise<void> {
+  async recordWaypoint(
+    rideId: string,
+    requestId: string,
+    type: 'pickup' | 'dropoff',
+    event: WaypointEvent
+  ): Promise<FareSettlement[] | null> {
     const client = await pool.connect();
 
     try {
@@ -192,23 +161,58 @@ export class RideCompletionService {
         throw new Error('Ride not found');
       }
 
-      if (rideCheck.rows[0].status !== RideStatus.CONFIRMED) {
-        throw new Error('Can only start confirmed rides');
+      const status = rideCheck.rows[0].status;
+      if (status !== RideStatus.CONFIRMED && status !== RideStatus.IN_PROGRESS) {
+        throw new Error('Can only record progress on confirmed or in-progress rides');
+      }
+
+      if (event === WaypointEvent.DONE && status !== RideStatus.IN_PROGRESS) {
+        throw new Error('Start the ride before picking up or dropping off riders');
+      }
+
+      const passenger = await client.query(
+        'SELECT * FROM ride_passengers WHERE ride_id = $1 AND request_id = $2',
+        [rideId, requestId]
+      );
+
+      if (passenger.rows.length === 0) {
+        throw new Error('Request is not a passenger on this ride');
       }
 
-      // Update ride status to IN_PROGRESS
+      const before = this.mapRowToProgress(passenger.rows[0]);
+      const after = applyWaypointEvent(before, type, event);
+
       await client.query(
-        'UPDATE rides SET status = $1, version = version + 1 WHERE id = $2',
-        [RideStatus.IN_PROGRESS, rideId]
+        `UPDATE ride_passengers SET pickup_arrived_at = $1, picked_up_at = $2, dropoff_arrived_at = $3, dropped_off_at = $4
+         WHERE ride_id = $5 AND request_id = $6`,
+        [after.pickupArrivedAt, after.pickedUpAt, after.dropoffArrivedAt, after.droppedOffAt, rideId, requestId]
       );
 
-      // Update associated requests
-      await client.query(`
-        UPDATE ride_requests SET status = $1
-        WHERE id IN (SELECT request_id FROM ride_passengers WHERE ride_id = $2)
-      `, [RideStatus.IN_PROGRESS, rideId]);
+      let settlements: FareSettlement[] | null = null;
+
+      if (!before.pickedUpAt && after.pickedUpAt) {
+        await this.stateService.transitionRequests(
+          client, [requestId], RideStatus.IN_PROGRESS, Actor.DRIVER, 'Picked up', rideId
+        );
+      }
+
+      if (!before.droppedOffAt && after.droppedOffAt) {
+        await this.stateService.transitionRequests(
+          client, [requestId], RideStatus.COMPLETED, Actor.DRIVER, 'Dropped off', rideId
+        );
+
+        const remaining = await client.query(
+          'SELECT COUNT(*) FROM ride_passengers WHERE ride_id = $1 AND dropped_off_at IS NULL',
+          [rideId]
+        );
+        if (parseInt(remaining.rows[0].count) === 0) {
+          settlements = await this.completeLockedRide(client, rideId, Actor.DRIVER, 'Last rider dropped off');
+        }
+      }
 
       await client.query('COMMIT');
+
+      return settlements;
     } catch (error) {
       await client.query('ROLLBACK');
       throw error;
@@ -216,4 +220,250 @@ export class RideCompletionService {
       client.release();
     }
   }
+
+  /**
+   * Stops of a ride in route order, with what the driver has reported at each
+   * @returns null if the ride does not exist
+   */
+  async getWaypointProgress(rideId: string): Promise<WaypointProgress[] | null> {
+    const ride = await pool.query('SELECT id FROM rides WHERE id = $1', [rideId]);
+    if (ride.rows.length === 0) {
+      return null;
+    }
+
+    const result = await pool.query(
+      `SELECT p.*, r.pickup_lat, r.pickup_lng, r.dropoff_lat, r.dropoff_lng
+       FROM ride_passengers p
+       JOIN ride_requests r ON r.id = p.request_id
+       WHERE p.ride_id = $1`,
+      [rideId]
+    );
+
+    const stops: { order: number; progress: WaypointProgress }[] = [];
+    for (const row of result.rows) {
+      stops.push({
+        order: row.pickup_order,
+        progress: {
+          requestId: row.request_id,
+          type: 'pickup',
+          location: { latitude: parseFloat(row.pickup_lat), longitude: parseFloat(row.pickup_lng) },
+          arrivedAt: row.pickup_arrived_at,
+          doneAt: row.picked_up_at
+        }
+      });
+      stops.push({
+        order: row.dropoff_order,
+        progress: {
+          requestId: row.request_id,
+          type: 'dropoff',
+          location: { latitude: parseFloat(row.dropoff_lat), longitude: parseFloat(row.dropoff_lng) },
+          arrivedAt: row.dropoff_arrived_at,
+          doneAt: row.dropped_off_at
+        }
+      });
+    }
+
+    return stops.sort((a, b) => a.order - b.order).map(s => s.progress);
+  }
+
+  /**
+   * Quoted versus final fares of a completed ride
+   * @returns null if the ride does not exist
+   */
+  async getFareSettlements(rideId: string): Promise<FareSettlement[] | null> {
+    const ride = await pool.query('SELECT id FROM rides WHERE id = $1', [rideId]);
+    if (ride.rows.length === 0) {
+      return null;
+    }
+
+    const result = await pool.query(
+      'SELECT * FROM fare_settlements WHERE ride_id = $1 ORDER BY request_id',
+      [rideId]
+    );
+
+    return result.rows.map(row => ({
+      requestId: row.request_id,
+      quotedFare: parseFloat(row.quoted_fare),
+      finalFare: parseFloat(row.final_fare),
+      estimatedDistanceKm: parseFloat(row.estimated_distance),
+      actualDistanceKm: row.actual_distance === null ? null : parseFloat(row.actual_distance),
+      estimatedDurationMinutes: row.estimated_duration,
+      actualDurationMinutes: row.actual_duration === null ? null : parseFloat(row.actual_duration),
+      capped: row.capped
+    }));
+  }
+
+  /**
+   * Complete a ride inside the caller's transaction: settle fares, free the
+   * cab and complete every request still on board. Riders never picked up
+   * are cancelled instead, as no-shows if the cab waited for them
+   * @returns Quoted versus final fare of each booking
+   */
+  async completeLockedRide(
+    client: PoolClient,
+    rideId: string,
+    actor: Actor,
+    reason: string
+  ): Promise<FareSettlement[]> {
+    // Locks the ride; only a ride that has started can complete
+    await this.stateService.transitionRide(client, rideId, RideStatus.COMPLETED, actor, reason);
+
+    const rideCheck = await client.query('SELECT cab_id FROM rides WHERE id = $1', [rideId]);
+    const cabId = rideCheck.rows[0].cab_id;
+
+    // Get the final dropoff location from the ride route
+    const rideDetails = await client.query(
+      'SELECT route FROM rides WHERE id = $1',
+      [rideId]
+    );
+    
+    const route = rideDetails.rows[0].route;
+    let finalDropoffLat = null;
+    let finalDropoffLng = null;
+    
+    // Extract final dropoff location from route waypoints
+    if (route && route.waypoints && route.waypoints.length > 0) {
+      const lastWaypoint = route.waypoints[route.waypoints.length - 1];
+      if (lastWaypoint.type === 'dropoff' && lastWaypoint.location) {
+        finalDropoffLat = lastWaypoint.location.latitude;
+        finalDropoffLng = lastWaypoint.location.longitude;
+      }
+    }
+
+    const settlements = await this.settleFares(client, rideId);
+
+    // Free up the cab and update its location to final dropoff
+    if (finalDropoffLat && finalDropoffLng) {
+      await client.query(
+        'UPDATE cabs SET is_available = true, current_lat = $1, current_lng = $2 WHERE id = $3',
+        [finalDropoffLat, finalDropoffLng, cabId]
+      );
+    } else {
+      // Fallback: just free up the cab without updating location
+      await client.query(
+        'UPDATE cabs SET is_available = true WHERE id = $1',
+        [cabId]
+      );
+    }
+
+    // Riders never picked up are not charged a trip; they are cancelled with
+    // the no-show fee if the cab waited out the no-show time for them
+    const passengers = await client.query(
+      `SELECT p.request_id, p.fare, p.created_at, p.pickup_arrived_at, r.status FROM ride_passengers p
+       JOIN ride_requests r ON r.id = p.request_id
+       WHERE p.ride_id = $1`,
+      [rideId]
+    );
+    const unserved = passengers.rows.filter(p => p.status === RideStatus.CONFIRMED);
+    if (unserved.length > 0) {
+      const charges = unserved.map(p => assessUnservedBooking(
+        cancellationConfig,
+        mapRowToCancelledBooking(p),
+        p.pickup_arrived_at ? new Date(p.pickup_arrived_at) : null,
+        actor
+      ));
+      const unservedIds = charges.map(c => c.requestId);
+      await this.cancellationService.recordCharges(client, rideId, charges);
+      await this.promotionService.releaseRedemptions(client, rideId, unservedIds);
+      await this.stateService.transitionRequests(
+        client, unservedIds, RideStatus.CANCELLED, actor, 'Ride ended before the rider was picked up', rideId
+      );
+    }
+    const onBoard = passengers.rows.filter(p => p.status === RideStatus.IN_PROGRESS).map(p => p.request_id);
+    if (onBoard.length > 0) {
+      await this.stateService.transitionRequests(client, onBoard, RideStatus.COMPLETED, actor, reason, rideId);
+    }
+
+    return settlements;
+  }
+
+  /**
+   * Settle each booking's fare from the actual trip and record quoted versus final
+   * Each booking is measured over its own time on board: the cab locations
+   * reported between its pickup and dropoff, against the planned legs
+   * between its stops. A dropoff not yet recorded ends now; bookings never
+   * picked up are not settled
+   */
+  private async settleFares(client: PoolClient, rideId: string): Promise<FareSettlement[]> {
+    const ride = await client.query('SELECT route, NOW() AS now FROM rides WHERE id = $1', [rideId]);
+    const route: Location[] = ride.rows[0].route || [];
+    const now: Date = ride.rows[0].now;
+
+    const trail = await client.query(
+      'SELECT latitude, longitude, recorded_at FROM ride_locations WHERE ride_id = $1 ORDER BY recorded_at',
+      [rideId]
+    );
+    const points: TrailPoint[] = trail.rows.map(p => ({
+      location: { latitude: parseFloat(p.latitude), longitude: parseFloat(p.longitude) },
+      recordedAt: p.recorded_at
+    }));
+
+    // Latest fare of each booking, with the parts settlement leaves alone
+    const quotes = await client.query(
+      `SELECT DISTINCT ON (p.request_id) p.request_id, p.fare, p.pickup_order, p.dropoff_order,
+        p.picked_up_at, p.dropped_off_at,
+        h.distance_km, h.base_fare, h.promo_discount, h.flat_fare_adjustment
+       FROM ride_passengers p
+       LEFT JOIN pricing_history h ON h.ride_id = p.ride_id AND h.request_id = p.request_id
+       WHERE p.ride_id = $1 AND p.picked_up_at IS NOT NULL
+       ORDER BY p.request_id, h.calculated_at DESC`,
+      [rideId]
+    );
+
+    const settlements: FareSettlement[] = [];
+    for (const row of quotes.rows) {
+      const planned = plannedBookingTrip(route, row.pickup_order, row.dropoff_order, row.picked_up_at ?? undefined);
+      // The fare was metered on the quoted distance, so that is the estimate
+      const estimated = {
+        distanceKm: row.distance_km === null
+          ? Math.round(planned.distanceKm * 1000) / 1000
+          : parseFloat(row.distance_km),
+        durationMinutes: planned.durationMinutes
+      };
+      const actual = measureBookingTrip(points, row.picked_up_at, row.dropped_off_at ?? now);
+
+      const quotedFare = parseFloat(row.fare);
+      const { finalFare, capped } = settleFare(
+        {
+          fare: quotedFare,
+          baseFare: row.base_fare === null ? 0 : parseFloat(row.base_fare),
+          promoDiscount: row.promo_discount === null ? 0 : parseFloat(row.promo_discount),
+          flatFare: row.flat_fare_adjustment !== null && parseFloat(row.flat_fare_adjustment) !== 0
+        },
+        estimated,
+        actual,
+        fareSettlementConfig
+      );
+
+      await client.query(
+        `INSERT INTO fare_settlements (ride_id, request_id, quoted_fare, final_fare, estimated_distance,
+          actual_distance, estimated_duration, actual_duration, capped)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [rideId, row.request_id, quotedFare, finalFare, estimated.distanceKm,
+          actual.distanceKm, estimated.durationMinutes, actual.durationMinutes, capped]
+      );
+
+      settlements.push({
+        requestId: row.request_id,
+        quotedFare,
+        finalFare,
+        estimatedDistanceKm: estimated.distanceKm,
+        actualDistanceKm: actual.distanceKm,
+        estimatedDurationMinutes: estimated.durationMinutes,
+        actualDurationMinutes: actual.durationMinutes,
+        capped
+      });
+    }
+
+    return settlements;
+  }
+
+  private mapRowToProgress(row: any): PassengerProgress {
+    return {
+      pickupArrivedAt: row.pickup_arrived_at,
+      pickedUpAt: row.picked_up_at,
+      dropoffArrivedAt: row.dropoff_arrived_at,
+      droppedOffAt: row.dropped_off_at
+    };
+  }
 }
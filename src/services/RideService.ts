@@ -1,17 +1,64 @@
 import pool from '../config/database';
 import redisClient from '../config/redis';
-import { RideRequest, RideStatus, Location, LuggageSize } from '../types';
-import { RideMatchingEngine } from '../algorithms/matching';
+import { batchMatchingConfig, bookingConfig } from '../config/matching';
+import { RideRequest, RideStatus, Location, LuggageSize, BookingConfirmation, VehicleCapacity, MatchResult, FareQuote, QuotedFare, FareHistoryEntry, FareBreakdown, Tariff, Promotion, PromoApplication, Actor, CancellationCharge } from '../types';
+import { RideMatchingEngine, ActiveRide } from '../algorithms/matching';
+import { Waypoint } from '../algorithms/routing';
 import { PricingEngine } from '../algorithms/pricing';
+import { SurgeMap } from '../algorithms/surge';
+import { SurgeService } from './SurgeService';
+import { TariffService } from './TariffService';
+import { PromotionService } from './PromotionService';
+import { RideStateService } from './RideStateService';
+import { RideCompletionService } from './RideCompletionService';
+import { CancellationService, mapRowToCancelledBooking } from './CancellationService';
+import { checkEligible, calculatePromoDiscount, withPromoDiscount } from '../algorithms/promotions';
+import { costShareWeights, getCostSharingAreas, routeCoalitionCost } from '../algorithms/costSharing';
+import { assessCancellation, assessNoShow } from '../algorithms/cancellation';
+import { cancellationConfig } from '../config/cancellation';
+import { unstartedRideConfig } from '../config/rides';
+import { defaultTariff } from '../config/pricing';
+import { getTravelTimeModel } from '../algorithms/travelTime';
 import { v4 as uuidv4 } from 'uuid';
+import { Pool, PoolClient } from 'pg';
+
+/**
+ * A priced match as quoted to riders, stored so booking can only reference it
+ * Request versions detect riders whose request changed since the quote
+ */
+interface StoredQuote {
+  match: MatchResult;
+  requestVersions: Record<string, number>;
+}
+
+/**
+ * A booking's latest fare and the tariff it was priced under
+ */
+interface BookedFare {
+  breakdown: FareBreakdown;
+  tariff: Tariff;
+}
 
 export class RideService {
   private matchingEngine: RideMatchingEngine;
   private pricingEngine: PricingEngine;
+  private surgeService: SurgeService;
+  private tariffService: TariffService;
+  private promotionService: PromotionService;
+  private stateService: RideStateService;
+  private completionService: RideCompletionService;
+  private cancellationService: CancellationService;
+  private readonly DEFAULT_PICKUP_WINDOW_MINUTES = parseInt(process.env.DEFAULT_PICKUP_WINDOW_MINUTES || '20');
 
   constructor() {
     this.matchingEngine = new RideMatchingEngine();
     this.pricingEngine = new PricingEngine();
+    this.surgeService = new SurgeService();
+    this.tariffService = new TariffService();
+    this.promotionService = new PromotionService();
+    this.stateService = new RideStateService();
+    this.completionService = new RideCompletionService();
+    this.cancellationService = new CancellationService();
   }
 
   /**
@@ -25,17 +72,30 @@ export class RideService {
     passengers: number;
     luggage: LuggageSize[];
     maxDetourMinutes?: number;
+    earliestPickupAt?: Date;
+    latestPickupAt?: Date;
   }): Promise<RideRequest> {
     const client = await pool.connect();
     
     try {
       const requestId = uuidv4();
       
+      // Ready now unless told otherwise; window closes after the default length
+      const earliestPickupAt = data.earliestPickupAt || new Date();
+      const latestPickupAt = data.latestPickupAt ||
+        new Date(earliestPickupAt.getTime() + this.DEFAULT_PICKUP_WINDOW_MINUTES * 60000);
+      
+      if (latestPickupAt < earliestPickupAt) {
+        throw new Error('latestPickupAt must not be before earliestPickupAt');
+      }
+      
+      await client.query('BEGIN');
+      
       const result = await client.query(
         `INSERT INTO ride_requests 
         (id, user_id, pickup_lat, pickup_lng, pickup_address, dropoff_lat, dropoff_lng, dropoff_address, 
-         passengers, luggage, max_detour_minutes, status) 
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12) 
+         passengers, luggage, max_detour_minutes, status, earliest_pickup_at, latest_pickup_at) 
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14) 
         RETURNING *`,
         [
           requestId,
@@ -49,10 +109,16 @@ export class RideService {
           data.passengers,
           JSON.stringify(data.luggage),
           data.maxDetourMinutes || 15,
-          RideStatus.PENDING
+          RideStatus.PENDING,
+          earliestPickupAt,
+          latestPickupAt
         ]
       );
       
+      await this.stateService.recordCreated(client, 'REQUEST', requestId, RideStatus.PENDING, Actor.RIDER, 'Ride requested', null);
+      
+      await client.query('COMMIT');
+      
       const request = this.mapRowToRequest(result.rows[0]);
       
       // Cache in Redis for fast matching (reduced TTL for memory efficiency)
@@ -63,6 +129,9 @@ export class RideService {
       );
       
       return request;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
     } finally {
       client.release();
     }
@@ -71,11 +140,25 @@ export class RideService {
   /**
    * Find matches for a ride request
    * Implements distributed locking to prevent race conditions
+   * @param promoCode - Applied to the rider's quoted fare where eligible
+   * @param signal - Aborting stops the search between steps, before any
+   * quote is stored, and releases the lock at once
    */
-  async findMatches(requestId: string): Promise<any[]> {
+  async findMatches(requestId: string, promoCode?: string, signal?: AbortSignal): Promise<any[]> {
     const lockKey = `lock:matching:${requestId}`;
     const lockValue = uuidv4();
     
+    const releaseLock = async () => {
+      const currentValue = await redisClient.get(lockKey);
+      if (currentValue === lockValue) {
+        await redisClient.del(lockKey);
+      }
+    };
+    const onAbort = () => {
+      releaseLock().catch(error => console.error('[Matching] Error releasing lock:', error));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    
     try {
       // Acquire distributed lock
       const locked = await redisClient.set(lockKey, lockValue, {
@@ -96,34 +179,116 @@ export class RideService {
       // Get active requests from cache or database (optimized with spatial filtering)
       const activeRequests = await this.getActiveRequests(request.pickup);
       
+      // Capacities of cabs that could actually serve this pickup
+      const vehicles = await this.getNearbyVehicleCapacities(request.pickup);
+      signal?.throwIfAborted();
+      
       // Find matches
-      const matches = await this.matchingEngine.findMatches(request, activeRequests);
+      const matches = await this.matchingEngine.findMatches(request, activeRequests, vehicles);
+      
+      // Offer seats on rides that are already confirmed or under way
+      const activeRides = await this.getInsertableRides(request.pickup);
+      signal?.throwIfAborted();
+      const insertions = await this.matchingEngine.findInsertions(request, activeRides);
+      matches.push(...insertions);
+      matches.sort((a, b) => b.score - a.score);
+      matches.splice(5);
       
       // Calculate pricing for each match
-      const surgeFactor = await this.getCurrentSurgeFactor();
+      // Each rider pays the surge of their own pickup zone
+      const surgeMap = await this.surgeService.getSurgeMap();
+      const tariff = await this.tariffService.getActiveTariff();
       const currentHour = new Date().getHours();
       
+      // Promo codes are previewed on the quote and only redeemed at booking
+      const promotion = promoCode ? await this.promotionService.getPromotion(promoCode) : null;
+      if (promoCode && !promotion) {
+        throw new Error(`Promo code ${promoCode} not found`);
+      }
+      const userRedemptions = promotion
+        ? await this.promotionService.countUserRedemptions(promotion.code, request.userId)
+        : 0;
+      
+      const versions = new Map([request, ...activeRequests].map(r => [r.id, r.version]));
       for (const match of matches) {
-        const totalPassengersInRide = match.ride.passengers.reduce((sum, p) => sum + p.passengers, 0);
-        
-        for (const passenger of match.ride.passengers) {
-          // Calculate distance for this specific passenger
-          const passengerDistance = this.calculatePassengerDistance(passenger, match.ride.route);
-          
-          passenger.fare = this.pricingEngine.calculateFare({
-            baseDistance: passengerDistance,
-            actualDistance: passengerDistance,
-            passengers: passenger.passengers, // Number of passengers in THIS booking
-            surgeFactor,
-            timeOfDay: currentHour,
-            totalPassengersInRide // Total passengers in the ride (for discount calculation)
-          });
-        }
+        signal?.throwIfAborted();
+        const fares = this.priceRide(match.ride, surgeMap, tariff, currentHour);
+        const promo = promotion
+          ? this.applyPromotion(promotion, userRedemptions, match, fares, request.id)
+          : undefined;
+        await this.storeQuote(match, fares, currentHour, versions, promo);
       }
       
       return matches;
     } finally {
-      // Release lock
+      signal?.removeEventListener('abort', onAbort);
+      await releaseLock();
+    }
+  }
+
+  /**
+   * Run one batch matching window
+   * Groups every recent PENDING request at once and stores each rider's
+   * group for GET /matches to serve
+   * Only one instance runs a window at a time (distributed lock)
+   */
+  async runBatchMatching(): Promise<number> {
+    const lockKey = 'lock:batch-matching';
+    const lockValue = uuidv4();
+    
+    const locked = await redisClient.set(lockKey, lockValue, {
+      NX: true,
+      PX: batchMatchingConfig.windowMs
+    });
+    
+    if (!locked) {
+      return 0;
+    }
+    
+    try {
+      const result = await pool.query(
+        `SELECT * FROM ride_requests 
+         WHERE status = $1 
+         AND requested_at > NOW() - INTERVAL '10 minutes'
+         ORDER BY requested_at ASC
+         LIMIT $2`,
+        [RideStatus.PENDING, batchMatchingConfig.maxRequests]
+      );
+      
+      if (result.rows.length === 0) {
+        return 0;
+      }
+      
+      const requests = result.rows.map(row => this.mapRowToRequest(row));
+      const vehicles = await this.getAvailableVehicleCapacities();
+      const assignments = await this.matchingEngine.findBatchMatches(requests, vehicles);
+      
+      const surgeMap = await this.surgeService.getSurgeMap();
+      const tariff = await this.tariffService.getActiveTariff();
+      const currentHour = new Date().getHours();
+      
+      // Members of a group share one match object, so price and store each once
+      const versions = new Map(requests.map(r => [r.id, r.version]));
+      for (const match of new Set(assignments.values())) {
+        const fares = this.priceRide(match.ride, surgeMap, tariff, currentHour);
+        await this.storeQuote(match, fares, currentHour, versions);
+      }
+      
+      for (const [requestId, match] of assignments) {
+        await redisClient.setEx(
+          `batch:match:${requestId}`,
+          batchMatchingConfig.resultTtlSeconds,
+          JSON.stringify(match)
+        );
+      }
+      
+      // No cab can carry these parties, so they are cancelled as when no ride is found
+      for (const request of requests.filter(r => !assignments.has(r.id))) {
+        await this.markNoDriverAvailable(request.id);
+      }
+      
+      return assignments.size;
+    } finally {
       const currentValue = await redisClient.get(lockKey);
       if (currentValue === lockValue) {
         await redisClient.del(lockKey);
@@ -131,40 +296,185 @@ export class RideService {
     }
   }
 
+  /**
+   * Get the rider's group from the latest batch window
+   * Returns null until a window containing the request has run
+   */
+  async getBatchMatch(requestId: string): Promise<MatchResult | null> {
+    const cached = await redisClient.get(`batch:match:${requestId}`);
+    return cached ? JSON.parse(cached) : null;
+  }
+
+  /**
+   * Quote a priced match and store it for POST /book to reference
+   * Kept past expiry (expiredQuoteRetentionSeconds) so late bookings can be told why they failed
+   */
+  private async storeQuote(
+    match: MatchResult,
+    fares: QuotedFare[],
+    timeOfDay: number,
+    versions: Map<string, number>,
+    promo?: PromoApplication
+  ): Promise<void> {
+    const quotedAt = new Date();
+    match.quote = {
+      quoteId: uuidv4(),
+      timeOfDay,
+      fares,
+      quotedAt,
+      expiresAt: new Date(quotedAt.getTime() + bookingConfig.quoteTtlSeconds * 1000),
+      ...(promo && { promo })
+    };
+    
+    // Riders already on an insertable ride are re-checked by confirmInsertion
+    const requestVersions: Record<string, number> = {};
+    for (const passenger of match.ride.passengers) {
+      const version = versions.get(passenger.requestId);
+      if (version !== undefined) {
+        requestVersions[passenger.requestId] = version;
+      }
+    }
+    
+    const stored: StoredQuote = { match, requestVersions };
+    await redisClient.setEx(
+      `quote:${match.quote.quoteId}`,
+      bookingConfig.quoteTtlSeconds + bookingConfig.expiredQuoteRetentionSeconds,
+      JSON.stringify(stored)
+    );
+  }
+
+  /**
+   * Preview a promo code on the requesting rider's fare in a priced match
+   * Updates the fare in place when the code applies
+   */
+  private applyPromotion(
+    promotion: Promotion,
+    userRedemptions: number,
+    match: MatchResult,
+    fares: QuotedFare[],
+    requestId: string
+  ): PromoApplication {
+    const passenger = match.ride.passengers.find(p => p.requestId === requestId)!;
+    const reason = checkEligible(
+      promotion,
+      { pickup: passenger.pickup, dropoff: passenger.dropoff, pooled: match.ride.passengers.length > 1 },
+      userRedemptions
+    );
+    
+    if (reason) {
+      return { code: promotion.code, applied: false, reason };
+    }
+    
+    const quotedFare = fares.find(f => f.requestId === requestId)!;
+    const discount = calculatePromoDiscount(promotion, quotedFare.breakdown.finalFare);
+    quotedFare.breakdown = withPromoDiscount(quotedFare.breakdown, promotion.code, discount);
+    quotedFare.fare = quotedFare.breakdown.finalFare;
+    passenger.fare = quotedFare.fare;
+    
+    return { code: promotion.code, applied: true };
+  }
+
+  /**
+   * Tell the rider why an expired quote can no longer be booked
+   */
+  private async explainExpiredQuote(quote: FareQuote, requestId: string, pickup: Location): Promise<string> {
+    const quotedSurge = quote.fares.find(f => f.requestId === requestId)!.breakdown.surgeMultiplier;
+    const currentSurge = (await this.surgeService.getSurgeMap()).factorAt(pickup);
+    const surgeChange = currentSurge !== quotedSurge
+      ? ` Surge at your pickup has changed from ${quotedSurge.toFixed(2)}x to ${currentSurge.toFixed(2)}x since then.`
+      : '';
+    
+    return `Quote expired at ${new Date(quote.expiresAt).toISOString()}; ` +
+      `fares are only guaranteed for ${bookingConfig.quoteTtlSeconds} seconds.${surgeChange} ` +
+      'Please fetch matches again for a new quote.';
+  }
+
   /**
    * Confirm a ride booking
+   * Only a quoteId from GET /matches is accepted; the route, group and fares
+   * are the ones the server stored with that quote, never client data.
+   * Quoted fares are honoured until the quote expires
    * Uses database transactions and optimistic locking
+   * Dispatches the available cab nearest to the first pickup that can
+   * hold every passenger and piece of luggage in the group
    */
-  async confirmBooking(requestId: string, rideData: any): Promise<string> {
+  async confirmBooking(requestId: string, quoteId: string): Promise<BookingConfirmation> {
+    const cached = await redisClient.get(`quote:${quoteId}`);
+    if (!cached) {
+      throw new Error('Quote not found, please fetch matches again for a new quote');
+    }
+    
+    const stored: StoredQuote = JSON.parse(cached);
+    const quote = stored.match.quote!;
+    const rideData = stored.match.ride;
+    
+    const booker = rideData.passengers.find(p => p.requestId === requestId);
+    if (!booker) {
+      throw new Error('Quote was not offered to this request');
+    }
+    
+    if (Date.now() > new Date(quote.expiresAt).getTime()) {
+      throw new Error(await this.explainExpiredQuote(quote, requestId, booker.pickup));
+    }
+    
+    // Matches on an existing ride carry its id
+    if (rideData.id) {
+      const quotedFare = quote.fares.find(f => f.requestId === requestId)!;
+      const booking = await this.confirmInsertion(requestId, rideData.id, quotedFare);
+      await redisClient.del(`quote:${quoteId}`);
+      return booking;
+    }
+    
     const client = await pool.connect();
     
     try {
       await client.query('BEGIN');
       
-      // Check request version (optimistic locking)
+      // Lock every rider in the group (in id order to avoid deadlocks)
+      const groupIds = rideData.passengers.map(p => p.requestId);
       const requestCheck = await client.query(
-        'SELECT version, status FROM ride_requests WHERE id = $1 FOR UPDATE',
-        [requestId]
+        'SELECT id, user_id, version, status FROM ride_requests WHERE id = ANY($1) ORDER BY id FOR UPDATE',
+        [groupIds]
       );
       
-      if (requestCheck.rows.length === 0) {
+      const rows = new Map(requestCheck.rows.map(row => [row.id, row]));
+      
+      if (!rows.has(requestId)) {
         throw new Error('Request not found');
       }
       
-      if (requestCheck.rows[0].status !== RideStatus.PENDING) {
+      if (rows.get(requestId).status !== RideStatus.PENDING) {
         throw new Error('Request already processed');
       }
       
-      // Get an available cab
-      const cabResult = await client.query(
-        'SELECT id FROM cabs WHERE is_available = true LIMIT 1 FOR UPDATE'
-      );
+      // Optimistic locking: the group must be exactly as it was when quoted
+      for (const id of groupIds) {
+        const row = rows.get(id);
+        if (!row || row.status !== RideStatus.PENDING) {
+          throw new Error('Match is stale: another rider in the group is no longer available');
+        }
+        if (row.version !== stored.requestVersions[id]) {
+          throw new Error('Match is stale: a rider in the group has changed their request');
+        }
+      }
+      
+      // The cab drives to the first waypoint of the route
+      const firstPickup: Location = rideData.route[0];
       
-      if (cabResult.rows.length === 0) {
+      const requiredCapacity: VehicleCapacity = {
+        maxPassengers: rideData.passengers.reduce((sum, p) => sum + p.passengers, 0),
+        maxLuggage: rideData.passengers.reduce((sum, p) =>
+          sum + p.luggage.reduce((lsum: number, l: number) => lsum + l, 0), 0
+        )
+      };
+      
+      const cab = await this.findNearestAvailableCab(client, firstPickup, requiredCapacity);
+      
+      if (!cab) {
         throw new Error('No available cabs at the moment');
       }
       
-      const cabId = cabResult.rows[0].id;
+      const cabId = cab.id;
       
       // Mark cab as unavailable
       await client.query(
@@ -184,12 +494,13 @@ export class RideService {
           rideData.totalDistance,
           rideData.estimatedDuration,
           rideData.basePrice || 0,
-          rideData.surgeFactor || 1.0,
+          // Riders may be in different zones; record the highest surge charged
+          Math.max(...quote.fares.map(f => f.breakdown.surgeMultiplier)),
           RideStatus.CONFIRMED
         ]
       );
       
-      // Add passengers
+      // Add passengers, with the quoted fare breakdown of each
       for (const passenger of rideData.passengers) {
         await client.query(
           `INSERT INTO ride_passengers (ride_id, request_id, pickup_order, dropoff_order, fare, detour_minutes)
@@ -203,20 +514,175 @@ export class RideService {
             passenger.detourMinutes
           ]
         );
+      }
+      
+      await this.stateService.recordCreated(client, 'RIDE', rideId, RideStatus.CONFIRMED, Actor.RIDER, 'Booked', rideId);
+      await this.stateService.transitionRequests(client, groupIds, RideStatus.CONFIRMED, Actor.RIDER, 'Booked', rideId);
+      
+      await this.recordFares(client, rideId, quote.fares);
+      
+      // Fails the booking if the code ran out since it was quoted
+      for (const fare of quote.fares) {
+        if (fare.breakdown.promoCode) {
+          await this.promotionService.redeem(client, {
+            code: fare.breakdown.promoCode,
+            userId: rows.get(fare.requestId).user_id,
+            requestId: fare.requestId,
+            rideId,
+            discount: fare.breakdown.promoDiscount
+          });
+        }
+      }
+      
+      await client.query('COMMIT');
+      
+      // Clear cache; a quote can only be booked once
+      await redisClient.del(groupIds.map(id => `request:${id}`));
+      await redisClient.del(`quote:${quoteId}`);
+      
+      return {
+        rideId,
+        cabId,
+        pickupDistanceKm: cab.distanceKm,
+        pickupEtaMinutes: cab.etaMinutes
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Add a request to a ride that is already CONFIRMED or IN_PROGRESS
+   * The insertion is recomputed under lock so the route, stop orders and
+   * every rider's fare are updated together or not at all
+   * @param quotedFare - Fare quoted to the new rider, honoured over the recomputed one
+   */
+  async confirmInsertion(requestId: string, rideId: string, quotedFare?: QuotedFare): Promise<BookingConfirmation> {
+    const client = await pool.connect();
+    
+    try {
+      await client.query('BEGIN');
+      
+      const requestCheck = await client.query(
+        'SELECT * FROM ride_requests WHERE id = $1 FOR UPDATE',
+        [requestId]
+      );
+      
+      if (requestCheck.rows.length === 0) {
+        throw new Error('Request not found');
+      }
+      
+      if (requestCheck.rows[0].status !== RideStatus.PENDING) {
+        throw new Error('Request already processed');
+      }
+      
+      const request = this.mapRowToRequest(requestCheck.rows[0]);
+      
+      const rideCheck = await client.query(
+        'SELECT status FROM rides WHERE id = $1 FOR UPDATE',
+        [rideId]
+      );
+      
+      if (rideCheck.rows.length === 0) {
+        throw new Error('Ride not found');
+      }
+      
+      const rideStatus = rideCheck.rows[0].status;
+      if (rideStatus !== RideStatus.CONFIRMED && rideStatus !== RideStatus.IN_PROGRESS) {
+        throw new Error('Ride is no longer accepting passengers');
+      }
+      
+      const [activeRide] = await this.loadActiveRides(client, [rideId]);
+      const [match] = await this.matchingEngine.findInsertions(request, [activeRide]);
+      
+      if (!match) {
+        throw new Error('Ride can no longer accommodate this request');
+      }
+      
+      const surgeMap = await this.surgeService.getSurgeMap();
+      const tariff = await this.tariffService.getActiveTariff();
+      const bookedIds = new Set(activeRide.requests.map(r => r.id));
+      const booked = await this.loadBookedFares(client, rideId);
+      
+      // Riders keep the promo discount they redeemed when their fare is recomputed
+      const redeemed = await this.promotionService.getRedeemedDiscounts(client, [...bookedIds]);
+      
+      const fares = this.priceRide(match.ride, surgeMap, tariff, new Date().getHours(), booked).map(f => {
+        if (quotedFare && f.requestId === requestId) {
+          return quotedFare;
+        }
+        const promo = redeemed.get(f.requestId);
+        const breakdown = promo ? withPromoDiscount(f.breakdown, promo.code, promo.discount) : f.breakdown;
         
-        // Update request status
-        await client.query(
-          'UPDATE ride_requests SET status = $1, version = version + 1 WHERE id = $2',
-          [RideStatus.CONFIRMED, passenger.requestId]
-        );
+        // A new co-rider never raises a booked fare
+        const current = booked.get(f.requestId);
+        if (current && breakdown.finalFare >= current.breakdown.finalFare) {
+          return { ...f, fare: current.breakdown.finalFare, breakdown: current.breakdown };
+        }
+        return { ...f, fare: breakdown.finalFare, breakdown };
+      });
+      
+      for (const passenger of match.ride.passengers) {
+        passenger.fare = fares.find(f => f.requestId === passenger.requestId)!.fare;
       }
       
+      // Existing riders get new stop orders, fares and detours; riders already
+      // dropped off keep the detour they rode. The new rider is added
+      for (const passenger of match.ride.passengers) {
+        if (bookedIds.has(passenger.requestId)) {
+          await client.query(
+            `UPDATE ride_passengers SET pickup_order = $1, dropoff_order = $2, fare = $3,
+               detour_minutes = CASE WHEN dropped_off_at IS NULL THEN $4 ELSE detour_minutes END
+             WHERE ride_id = $5 AND request_id = $6`,
+            [passenger.pickupOrder, passenger.dropoffOrder, passenger.fare, passenger.detourMinutes, rideId, passenger.requestId]
+          );
+        } else {
+          await client.query(
+            `INSERT INTO ride_passengers (ride_id, request_id, pickup_order, dropoff_order, fare, detour_minutes)
+             VALUES ($1, $2, $3, $4, $5, $6)`,
+            [rideId, passenger.requestId, passenger.pickupOrder, passenger.dropoffOrder, passenger.fare, passenger.detourMinutes]
+          );
+        }
+      }
+      
+      await client.query(
+        `UPDATE rides SET route = $1, total_distance = $2, estimated_duration = $3, version = version + 1
+         WHERE id = $4`,
+        [JSON.stringify(match.ride.route), match.ride.totalDistance, match.ride.estimatedDuration, rideId]
+      );
+      
+      // The new rider and every rider whose fare dropped get a new history row
+      await this.recordFares(client, rideId, fares.filter(f => f.breakdown !== booked.get(f.requestId)?.breakdown));
+      
+      if (quotedFare?.breakdown.promoCode) {
+        await this.promotionService.redeem(client, {
+          code: quotedFare.breakdown.promoCode,
+          userId: request.userId,
+          requestId,
+          rideId,
+          discount: quotedFare.breakdown.promoDiscount
+        });
+      }
+      
+      // In progress once the driver records the pickup, even on a ride already under way
+      await this.stateService.transitionRequests(
+        client, [requestId], RideStatus.CONFIRMED, Actor.RIDER, 'Joined a shared ride', rideId
+      );
+      
       await client.query('COMMIT');
       
-      // Clear cache
       await redisClient.del(`request:${requestId}`);
       
-      return rideId;
+      const model = getTravelTimeModel();
+      return {
+        rideId,
+        cabId: activeRide.cabId,
+        pickupDistanceKm: model.distance(activeRide.start, request.pickup),
+        pickupEtaMinutes: model.travelTime(activeRide.start, request.pickup)
+      };
     } catch (error) {
       await client.query('ROLLBACK');
       throw error;
@@ -225,19 +691,240 @@ export class RideService {
     }
   }
 
+  /**
+   * Save the itemised fare of each booking to pricing_history
+   */
+  private async recordFares(client: PoolClient, rideId: string, fares: QuotedFare[]): Promise<void> {
+    for (const { requestId, breakdown } of fares) {
+      await client.query(
+        `INSERT INTO pricing_history
+         (ride_id, request_id, passengers, distance_km, base_fare, distance_fare, surge_multiplier, surge_charge,
+          time_multiplier, time_charge, tariff_version, tariff_rules_version, flat_fare_adjustment, cap_adjustment,
+          surcharges, pooling_discount_rate, pooling_discount, minimum_fare_adjustment, cost_sharing_strategy,
+          cost_share_adjustment, solo_fare, promo_code, promo_discount, final_fare)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21,
+          $22, $23, $24)`,
+        [
+          rideId,
+          requestId,
+          breakdown.passengers,
+          breakdown.distanceKm,
+          breakdown.baseFare,
+          breakdown.distanceFare,
+          breakdown.surgeMultiplier,
+          breakdown.surgeCharge,
+          breakdown.timeMultiplier,
+          breakdown.timeCharge,
+          breakdown.tariffVersion,
+          breakdown.tariffRulesVersion,
+          breakdown.flatFareAdjustment,
+          breakdown.capAdjustment,
+          JSON.stringify(breakdown.surcharges),
+          breakdown.poolingDiscountRate,
+          breakdown.poolingDiscount,
+          breakdown.minimumFareAdjustment,
+          breakdown.costSharingStrategy,
+          breakdown.costShareAdjustment,
+          breakdown.soloFare,
+          breakdown.promoCode,
+          breakdown.promoDiscount,
+          breakdown.finalFare
+        ]
+      );
+    }
+  }
+
+  /**
+   * Fare history of a ride, oldest first per booking
+   * The latest entry of each booking is the fare currently charged
+   * @returns null if the ride does not exist
+   */
+  async getFareBreakdown(rideId: string): Promise<FareHistoryEntry[] | null> {
+    const ride = await pool.query('SELECT id FROM rides WHERE id = $1', [rideId]);
+    if (ride.rows.length === 0) {
+      return null;
+    }
+    
+    const result = await pool.query(
+      `SELECT * FROM pricing_history WHERE ride_id = $1 ORDER BY request_id, calculated_at`,
+      [rideId]
+    );
+    
+    return result.rows.map(row => ({
+      requestId: row.request_id,
+      calculatedAt: row.calculated_at,
+      breakdown: this.mapRowToFareBreakdown(row)
+    }));
+  }
+
+  /**
+   * Latest fare of each booking on a ride, with the tariff it was priced under
+   */
+  private async loadBookedFares(client: PoolClient, rideId: string): Promise<Map<string, BookedFare>> {
+    const result = await client.query(
+      `SELECT DISTINCT ON (request_id) * FROM pricing_history WHERE ride_id = $1
+       ORDER BY request_id, calculated_at DESC`,
+      [rideId]
+    );
+    
+    const tariffs = new Map<string, Tariff>();
+    const booked = new Map<string, BookedFare>();
+    for (const row of result.rows) {
+      const breakdown = this.mapRowToFareBreakdown(row);
+      let tariff = tariffs.get(breakdown.tariffVersion);
+      if (!tariff) {
+        tariff = (await this.tariffService.getTariff(breakdown.tariffVersion)) ?? defaultTariff;
+        tariffs.set(breakdown.tariffVersion, tariff);
+      }
+      booked.set(row.request_id, { breakdown, tariff });
+    }
+    
+    return booked;
+  }
+
+  /**
+   * Find and lock the available cab closest to a pickup point
+   * Uses KNN ordering on the idx_cabs_location GiST index
+   * Cabs without a known location are only used when no located cab is free
+   */
+  private async findNearestAvailableCab(
+    client: PoolClient,
+    pickup: Location,
+    required: VehicleCapacity
+  ): Promise<{ id: string; distanceKm: number | null; etaMinutes: number | null } | null> {
+    const result = await client.query(
+      `SELECT id, current_lat, current_lng FROM cabs
+       WHERE is_available = true
+       AND max_passengers >= $3
+       AND max_luggage_capacity >= $4
+       ORDER BY ST_MakePoint(current_lng, current_lat) <-> ST_MakePoint($1, $2) NULLS LAST
+       LIMIT 1
+       FOR UPDATE`,
+      [pickup.longitude, pickup.latitude, required.maxPassengers, required.maxLuggage]
+    );
+    
+    if (result.rows.length === 0) {
+      return null;
+    }
+    
+    const row = result.rows[0];
+    if (row.current_lat === null || row.current_lng === null) {
+      return { id: row.id, distanceKm: null, etaMinutes: null };
+    }
+    
+    const model = getTravelTimeModel();
+    const cabLocation = { latitude: parseFloat(row.current_lat), longitude: parseFloat(row.current_lng) };
+    return {
+      id: row.id,
+      distanceKm: model.distance(cabLocation, pickup),
+      etaMinutes: model.travelTime(cabLocation, pickup)
+    };
+  }
+
   /**
    * Cancel a ride
    * Handles concurrent cancellations with optimistic locking
+   * Each booking gets a fee / refund record from the cancellation policy;
+   * a rider who cancels goes to CANCELLED, everyone else back to PENDING
+   * @param requestId - The cancelling rider's request, required when cancelledBy is RIDER
+   */
+  async cancelRide(
+    rideId: string,
+    cancelledBy: Actor,
+    requestId?: string
+  ): Promise<CancellationCharge[]> {
+    const client = await pool.connect();
+    
+    try {
+      await client.query('BEGIN');
+      
+      const charges = await this.cancelLockedRide(client, rideId, cancelledBy, requestId);
+      
+      await client.query('COMMIT');
+      
+      await redisClient.del(charges.map(c => `request:${c.requestId}`));
+      
+      return charges;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Cancel confirmed rides the driver never started
+   * A ride qualifies once every rider's pickup window closed graceMinutes ago
+   * with no waypoint progress in that time; the system cancels it, waiving
+   * the rider fees, frees the cab and sends its riders back to PENDING
+   * @returns The charge of each booking on the cancelled rides
+   */
+  async cancelUnstartedRides(): Promise<CancellationCharge[]> {
+    if (!unstartedRideConfig.enabled) {
+      return [];
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const staleRides = await client.query(`
+        SELECT r.id
+        FROM rides r
+        WHERE r.status = $1
+        AND COALESCE(
+          (SELECT MAX(rr.latest_pickup_at) FROM ride_passengers p
+           JOIN ride_requests rr ON rr.id = p.request_id
+           WHERE p.ride_id = r.id),
+          r.created_at
+        ) + $2 * INTERVAL '1 minute' < NOW()
+        AND NOT EXISTS (
+          SELECT 1 FROM ride_passengers p
+          WHERE p.ride_id = r.id
+          AND GREATEST(p.pickup_arrived_at, p.picked_up_at, p.dropoff_arrived_at, p.dropped_off_at)
+            > NOW() - $2 * INTERVAL '1 minute'
+        )
+        FOR UPDATE OF r
+      `, [RideStatus.CONFIRMED, unstartedRideConfig.graceMinutes]);
+
+      const charges: CancellationCharge[] = [];
+      for (const ride of staleRides.rows) {
+        charges.push(...await this.cancelLockedRide(client, ride.id, Actor.SYSTEM));
+      }
+
+      await client.query('COMMIT');
+
+      if (charges.length > 0) {
+        await redisClient.del(charges.map(c => `request:${c.requestId}`));
+      }
+
+      return charges;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Take one rider off a ride that has not started
+   * The remaining stops are re-optimised and the remaining riders repriced,
+   * with the smaller pooling discount; they keep any promo discount they
+   * redeemed. The leaving rider is charged under the cancellation policy,
+   * and the ride is cancelled only when its last rider leaves
+   * @returns The leaving rider's cancellation charge
    */
-  async cancelRide(rideId: string): Promise<void> {
+  async withdrawPassenger(rideId: string, requestId: string): Promise<CancellationCharge> {
     const client = await pool.connect();
     
     try {
       await client.query('BEGIN');
       
-      // Check ride version and get cab_id
       const rideCheck = await client.query(
-        'SELECT version, status, cab_id FROM rides WHERE id = $1 FOR UPDATE',
+        'SELECT status FROM rides WHERE id = $1 FOR UPDATE',
         [rideId]
       );
       
@@ -245,36 +932,143 @@ export class RideService {
         throw new Error('Ride not found');
       }
       
-      if (rideCheck.rows[0].status === RideStatus.CANCELLED) {
-        throw new Error('Ride already cancelled');
+      if (rideCheck.rows[0].status !== RideStatus.CONFIRMED) {
+        throw new Error('Passengers can only leave a ride before it starts');
+      }
+      
+      const passengers = await client.query(
+        'SELECT request_id, fare, created_at, pickup_arrived_at FROM ride_passengers WHERE ride_id = $1',
+        [rideId]
+      );
+      
+      const leaving = passengers.rows.find(p => p.request_id === requestId);
+      if (!leaving) {
+        throw new Error('Request is not a passenger on this ride');
       }
       
-      if (rideCheck.rows[0].status === RideStatus.COMPLETED) {
-        throw new Error('Cannot cancel completed ride');
+      if (passengers.rows.length === 1) {
+        const [charge] = await this.cancelLockedRide(client, rideId, Actor.RIDER, requestId);
+        await client.query('COMMIT');
+        await redisClient.del(`request:${requestId}`);
+        return charge;
       }
       
-      const cabId = rideCheck.rows[0].cab_id;
+      const [charge] = assessCancellation(
+        cancellationConfig,
+        Actor.RIDER,
+        [mapRowToCancelledBooking(leaving)],
+        requestId
+      );
+      await this.cancellationService.recordCharges(client, rideId, [charge]);
+      await this.promotionService.releaseRedemptions(client, rideId, [requestId]);
       
-      // Update ride status
       await client.query(
-        'UPDATE rides SET status = $1, version = version + 1 WHERE id = $2',
-        [RideStatus.CANCELLED, rideId]
+        'DELETE FROM ride_passengers WHERE ride_id = $1 AND request_id = $2',
+        [rideId, requestId]
       );
       
-      // Free up the cab
-      await client.query(
-        'UPDATE cabs SET is_available = true WHERE id = $1',
-        [cabId]
+      await this.replanRemainingRiders(client, rideId);
+      
+      await this.stateService.transitionRequests(
+        client, [requestId], RideStatus.CANCELLED, Actor.RIDER, 'Left the shared ride', rideId
+      );
+      
+      await client.query('COMMIT');
+      
+      await redisClient.del(`request:${requestId}`);
+      
+      return charge;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Mark a rider who did not come to the pickup as a no-show
+   * Allowed once the driver has waited the no-show time after arriving at
+   * the rider's pickup. The rider is charged the no-show fee and dropped
+   * from the route, and the other riders are re-planned and repriced as when
+   * a rider leaves. A ride left with nobody to serve is cancelled if it has
+   * not started, or completed if it has
+   * @returns The rider's no-show charge
+   */
+  async markNoShow(rideId: string, requestId: string): Promise<CancellationCharge> {
+    const client = await pool.connect();
+    
+    try {
+      await client.query('BEGIN');
+      
+      const rideCheck = await client.query(
+        'SELECT status, cab_id FROM rides WHERE id = $1 FOR UPDATE',
+        [rideId]
+      );
+      
+      if (rideCheck.rows.length === 0) {
+        throw new Error('Ride not found');
+      }
+      
+      const status = rideCheck.rows[0].status;
+      if (status !== RideStatus.CONFIRMED && status !== RideStatus.IN_PROGRESS) {
+        throw new Error('Can only mark no-shows on confirmed or in-progress rides');
+      }
+      
+      const passengers = await client.query(
+        `SELECT request_id, fare, created_at, pickup_arrived_at, picked_up_at, dropped_off_at
+         FROM ride_passengers WHERE ride_id = $1`,
+        [rideId]
+      );
+      
+      const missing = passengers.rows.find(p => p.request_id === requestId);
+      if (!missing) {
+        throw new Error('Request is not a passenger on this ride');
+      }
+      
+      if (missing.picked_up_at) {
+        throw new Error('Rider has already been picked up');
+      }
+      
+      const charge = assessNoShow(
+        cancellationConfig,
+        mapRowToCancelledBooking(missing),
+        missing.pickup_arrived_at ? new Date(missing.pickup_arrived_at) : null
       );
+      await this.cancellationService.recordCharges(client, rideId, [charge]);
+      await this.promotionService.releaseRedemptions(client, rideId, [requestId]);
       
-      // Update all associated requests
       await client.query(
-        `UPDATE ride_requests SET status = $1 
-         WHERE id IN (SELECT request_id FROM ride_passengers WHERE ride_id = $2)`,
-        [RideStatus.PENDING, rideId]
+        'DELETE FROM ride_passengers WHERE ride_id = $1 AND request_id = $2',
+        [rideId, requestId]
+      );
+      
+      await this.stateService.transitionRequests(
+        client, [requestId], RideStatus.CANCELLED, Actor.DRIVER, 'Did not show up', rideId
       );
       
+      const others = passengers.rows.filter(p => p.request_id !== requestId);
+      if (others.length === 0 && status === RideStatus.CONFIRMED) {
+        await this.stateService.transitionRide(
+          client, rideId, RideStatus.CANCELLED, Actor.DRIVER, 'Last rider did not show up'
+        );
+        await client.query(
+          'UPDATE cabs SET is_available = true WHERE id = $1',
+          [rideCheck.rows[0].cab_id]
+        );
+      } else if (others.every(p => p.dropped_off_at !== null)) {
+        await this.completionService.completeLockedRide(
+          client, rideId, Actor.DRIVER, 'Last rider did not show up'
+        );
+      } else {
+        await this.replanRemainingRiders(client, rideId);
+      }
+      
       await client.query('COMMIT');
+      
+      await redisClient.del(`request:${requestId}`);
+      
+      return charge;
     } catch (error) {
       await client.query('ROLLBACK');
       throw error;
@@ -282,6 +1076,144 @@ export class RideService {
       client.release();
     }
   }
+
+  /**
+   * Re-plan and reprice the riders left on a ride after one was taken off,
+   * inside the caller's transaction
+   * Stops already served stay put; the rest are re-optimised from the cab's
+   * position. Riders keep the charges they booked and any promo discount
+   * they redeemed; only the pooling discount and cost share are recomputed
+   */
+  private async replanRemainingRiders(client: PoolClient, rideId: string): Promise<void> {
+    const [activeRide] = await this.loadActiveRides(client, [rideId]);
+    const ride = this.matchingEngine.replanRide(activeRide);
+    
+    const surgeMap = await this.surgeService.getSurgeMap();
+    const tariff = await this.tariffService.getActiveTariff();
+    const booked = await this.loadBookedFares(client, rideId);
+    const redeemed = await this.promotionService.getRedeemedDiscounts(
+      client, activeRide.requests.map(r => r.id)
+    );
+    
+    const fares = this.priceRide(ride, surgeMap, tariff, new Date().getHours(), booked).map(f => {
+      const promo = redeemed.get(f.requestId);
+      if (!promo) {
+        return f;
+      }
+      const breakdown = withPromoDiscount(f.breakdown, promo.code, promo.discount);
+      return { ...f, fare: breakdown.finalFare, breakdown };
+    });
+    
+    for (const passenger of ride.passengers) {
+      await client.query(
+        `UPDATE ride_passengers SET pickup_order = $1, dropoff_order = $2, fare = $3
+         WHERE ride_id = $4 AND request_id = $5`,
+        [
+          passenger.pickupOrder,
+          passenger.dropoffOrder,
+          fares.find(f => f.requestId === passenger.requestId)!.fare,
+          rideId,
+          passenger.requestId
+        ]
+      );
+    }
+    
+    await client.query(
+      `UPDATE rides SET route = $1, total_distance = $2, estimated_duration = $3, version = version + 1
+       WHERE id = $4`,
+      [JSON.stringify(ride.route), ride.totalDistance, ride.estimatedDuration, rideId]
+    );
+    
+    // Every remaining rider's fare changed, so each gets a new history row
+    await this.recordFares(client, rideId, fares);
+  }
+
+  /**
+   * Cancel a ride inside the caller's transaction
+   * Records the charges, frees the cab and moves the requests on
+   */
+  private async cancelLockedRide(
+    client: PoolClient,
+    rideId: string,
+    cancelledBy: Actor,
+    requestId?: string
+  ): Promise<CancellationCharge[]> {
+    // Locks the ride; a ride that has started can no longer be cancelled
+    await this.stateService.transitionRide(
+      client, rideId, RideStatus.CANCELLED, cancelledBy, `Cancelled by the ${cancelledBy.toLowerCase()}`
+    );
+    
+    const rideCheck = await client.query('SELECT cab_id FROM rides WHERE id = $1', [rideId]);
+    const cabId = rideCheck.rows[0].cab_id;
+    
+    const passengers = await client.query(
+      'SELECT request_id, fare, created_at, pickup_arrived_at FROM ride_passengers WHERE ride_id = $1',
+      [rideId]
+    );
+    
+    if (cancelledBy === Actor.RIDER && !passengers.rows.some(p => p.request_id === requestId)) {
+      throw new Error('Only a rider on this ride can cancel it as RIDER');
+    }
+    
+    const charges = assessCancellation(
+      cancellationConfig,
+      cancelledBy,
+      passengers.rows.map(p => mapRowToCancelledBooking(p)),
+      requestId || null
+    );
+    
+    await this.cancellationService.recordCharges(client, rideId, charges);
+    
+    await this.promotionService.releaseRedemptions(client, rideId);
+    
+    // Free up the cab
+    await client.query(
+      'UPDATE cabs SET is_available = true WHERE id = $1',
+      [cabId]
+    );
+    
+    // Co-riders go back to PENDING to be matched again
+    const requeued = charges.map(c => c.requestId).filter(id => id !== requestId);
+    if (requeued.length > 0) {
+      await this.stateService.transitionRequests(
+        client, requeued, RideStatus.PENDING, cancelledBy, 'Ride cancelled, waiting for a new match', rideId
+      );
+    }
+    
+    if (cancelledBy === Actor.RIDER) {
+      await this.stateService.transitionRequests(
+        client, [requestId!], RideStatus.CANCELLED, Actor.RIDER, 'Cancelled by the rider', rideId
+      );
+    }
+    
+    return charges;
+  }
+
+  /**
+   * Cancellation fees and refunds recorded for a ride
+   * @returns null if the ride does not exist
+   */
+  async getCancellationCharges(rideId: string): Promise<CancellationCharge[] | null> {
+    const ride = await pool.query('SELECT id FROM rides WHERE id = $1', [rideId]);
+    if (ride.rows.length === 0) {
+      return null;
+    }
+    
+    const result = await pool.query(
+      'SELECT * FROM cancellation_charges WHERE ride_id = $1 ORDER BY created_at',
+      [rideId]
+    );
+    
+    return result.rows.map(row => ({
+      requestId: row.request_id,
+      cancelledBy: row.cancelled_by,
+      fare: parseFloat(row.fare),
+      fee: parseFloat(row.fee),
+      refund: parseFloat(row.refund),
+      reason: row.reason
+    }));
+  }
+
   /**
    * Mark request as no driver available
    * Updates status to CANCELLED when no matches found
@@ -290,13 +1222,27 @@ export class RideService {
     const client = await pool.connect();
 
     try {
-      await client.query(
-        'UPDATE ride_requests SET status = $1 WHERE id = $2 AND status = $3',
-        [RideStatus.CANCELLED, requestId, RideStatus.PENDING]
+      await client.query('BEGIN');
+
+      const requestCheck = await client.query(
+        'SELECT status FROM ride_requests WHERE id = $1 FOR UPDATE',
+        [requestId]
       );
 
+      // Requests matched in the meantime are left alone
+      if (requestCheck.rows[0]?.status === RideStatus.PENDING) {
+        await this.stateService.transitionRequests(
+          client, [requestId], RideStatus.CANCELLED, Actor.SYSTEM, 'No driver available', null
+        );
+      }
+
+      await client.query('COMMIT');
+
       // Clear cache
       await redisClient.del(`request:${requestId}`);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
     } finally {
       client.release();
     }
@@ -365,33 +1311,219 @@ export class RideService {
   }
 
   /**
-   * Get current surge factor from Redis cache
+   * Get CONFIRMED or IN_PROGRESS rides whose cab is near a location
    */
-  private async getCurrentSurgeFactor(): Promise<number> {
-    const cached = await redisClient.get('surge:current');
-    if (cached) {
-      return parseFloat(cached);
+  private async getInsertableRides(centerLocation: Location): Promise<ActiveRide[]> {
+    const radiusKm = 5; // Same radius used for request matching
+    const result = await pool.query(
+      `SELECT r.id FROM rides r
+       JOIN cabs c ON c.id = r.cab_id
+       WHERE r.status IN ($1, $2)
+       AND ST_DWithin(
+         ST_MakePoint(c.current_lng, c.current_lat)::geography,
+         ST_MakePoint($3, $4)::geography,
+         $5
+       )
+       ORDER BY r.created_at DESC
+       LIMIT 5`,
+      [RideStatus.CONFIRMED, RideStatus.IN_PROGRESS, centerLocation.longitude, centerLocation.latitude, radiusKm * 1000]
+    );
+    
+    return this.loadActiveRides(pool, result.rows.map(row => row.id));
+  }
+
+  /**
+   * Rebuild rides with their booked riders and stop sequence
+   * Stops are placed at the pickup/dropoff orders stored in ride_passengers,
+   * and the riders' recorded pickups and dropoffs mark the stops already served
+   */
+  private async loadActiveRides(db: Pool | PoolClient, rideIds: string[]): Promise<ActiveRide[]> {
+    if (rideIds.length === 0) {
+      return [];
     }
     
-    // Calculate surge factor
-    const activeCount = await pool.query(
-      'SELECT COUNT(*) FROM ride_requests WHERE status = $1',
-      [RideStatus.PENDING]
+    const rides = await db.query(
+      `SELECT r.id, r.cab_id, r.status, c.current_lat, c.current_lng, c.max_passengers, c.max_luggage_capacity
+       FROM rides r
+       JOIN cabs c ON c.id = r.cab_id
+       WHERE r.id = ANY($1)`,
+      [rideIds]
     );
     
-    const availableCabs = await pool.query(
-      'SELECT COUNT(*) FROM cabs WHERE is_available = true'
+    const passengers = await db.query(
+      `SELECT rp.ride_id, rp.pickup_order, rp.dropoff_order, rp.picked_up_at, rp.dropped_off_at, rr.*
+       FROM ride_passengers rp
+       JOIN ride_requests rr ON rr.id = rp.request_id
+       WHERE rp.ride_id = ANY($1)`,
+      [rideIds]
     );
     
-    const surge = this.pricingEngine.calculateSurgeFactor(
-      parseInt(activeCount.rows[0].count),
-      parseInt(availableCabs.rows[0].count)
+    return rides.rows.map(row => {
+      const rows = passengers.rows.filter(p => p.ride_id === row.id);
+      const requests = rows.map(p => this.mapRowToRequest(p));
+      
+      const stops: Waypoint[] = [];
+      rows.forEach((p, idx) => {
+        const r = requests[idx];
+        stops[p.pickup_order] = { type: 'pickup', location: r.pickup, requestId: r.id, passengers: r.passengers };
+        stops[p.dropoff_order] = { type: 'dropoff', location: r.dropoff, requestId: r.id, passengers: r.passengers };
+      });
+      const waypoints = stops.filter(Boolean);
+      
+      const start: Location = row.current_lat !== null && row.current_lng !== null
+        ? { latitude: parseFloat(row.current_lat), longitude: parseFloat(row.current_lng) }
+        : waypoints[0].location;
+      
+      return {
+        id: row.id,
+        cabId: row.cab_id,
+        status: row.status,
+        requests,
+        waypoints,
+        start,
+        vehicle: {
+          maxPassengers: row.max_passengers,
+          maxLuggage: row.max_luggage_capacity
+        },
+        pickedUp: new Set(rows.filter(p => p.picked_up_at).map(p => p.id)),
+        pickedUpAt: new Map(rows.filter(p => p.picked_up_at).map(p => [p.id, new Date(p.picked_up_at)])),
+        droppedOff: new Set(rows.filter(p => p.dropped_off_at).map(p => p.id))
+      };
+    });
+  }
+
+  /**
+   * Get the distinct capacities of available cabs near a location
+   */
+  private async getNearbyVehicleCapacities(centerLocation: Location): Promise<VehicleCapacity[]> {
+    const radiusKm = 5; // Same radius used for request matching
+    const result = await pool.query(
+      `SELECT DISTINCT max_passengers, max_luggage_capacity FROM cabs
+       WHERE is_available = true
+       AND ST_DWithin(
+         ST_MakePoint(current_lng, current_lat)::geography,
+         ST_MakePoint($1, $2)::geography,
+         $3
+       )`,
+      [centerLocation.longitude, centerLocation.latitude, radiusKm * 1000]
     );
     
-    // Cache for 1 minute
-    await redisClient.setEx('surge:current', 60, surge.toString());
+    return result.rows.map(row => ({
+      maxPassengers: row.max_passengers,
+      maxLuggage: row.max_luggage_capacity
+    }));
+  }
+
+  /**
+   * Get the distinct capacities of all available cabs
+   */
+  private async getAvailableVehicleCapacities(): Promise<VehicleCapacity[]> {
+    const result = await pool.query(
+      'SELECT DISTINCT max_passengers, max_luggage_capacity FROM cabs WHERE is_available = true'
+    );
     
-    return surge;
+    return result.rows.map(row => ({
+      maxPassengers: row.max_passengers,
+      maxLuggage: row.max_luggage_capacity
+    }));
+  }
+
+  /**
+   * Price every passenger of a candidate ride in place
+   * Surge comes from each passenger's pickup zone; geofenced tariff rules
+   * match each passenger's own pickup and dropoff
+   * A shared ride's total is then split with the cost-sharing strategy of
+   * its service area, with no booking paying more than its solo fare
+   * @param booked - Current fares of riders already on the ride
+   * @returns The fare and distance of each booking, for the quote
+   */
+  private priceRide(
+    ride: any,
+    surgeMap: SurgeMap,
+    tariff: Tariff,
+    currentHour: number,
+    booked: Map<string, BookedFare> = new Map()
+  ): QuotedFare[] {
+    const totalPassengersInRide = ride.passengers.reduce((sum: number, p: any) => sum + p.passengers, 0);
+    const model = getTravelTimeModel();
+    const fares: QuotedFare[] = [];
+    const soloFares: number[] = [];
+    
+    for (const passenger of ride.passengers) {
+      // Calculate distance for this specific passenger
+      const passengerDistance = this.calculatePassengerDistance(passenger, ride.route);
+      
+      // Booked riders keep their tariff, surge and time charges; only the
+      // pooling discount follows the ride
+      const bookedFare = booked.get(passenger.requestId);
+      if (bookedFare) {
+        const { breakdown: current, tariff: bookedTariff } = bookedFare;
+        const breakdown = this.pricingEngine.rediscountFare(current, totalPassengersInRide, bookedTariff);
+        soloFares.push(current.soloFare ?? this.pricingEngine.rediscountFare(current, current.passengers, bookedTariff).finalFare);
+        fares.push({ requestId: passenger.requestId, distanceKm: passengerDistance, fare: breakdown.finalFare, breakdown });
+        continue;
+      }
+      
+      const params = {
+        passengers: passenger.passengers, // Number of passengers in THIS booking
+        surgeFactor: surgeMap.factorAt(passenger.pickup),
+        timeOfDay: currentHour,
+        pickup: passenger.pickup,
+        dropoff: passenger.dropoff,
+        tariff
+      };
+      
+      const breakdown = this.pricingEngine.calculateFare({
+        ...params,
+        baseDistance: passengerDistance,
+        actualDistance: passengerDistance,
+        totalPassengersInRide // Total passengers in the ride (for discount calculation)
+      });
+      
+      const directDistance = model.distance(passenger.pickup, passenger.dropoff);
+      soloFares.push(this.pricingEngine.calculateFare({
+        ...params,
+        baseDistance: directDistance,
+        actualDistance: directDistance
+      }).finalFare);
+      
+      fares.push({ requestId: passenger.requestId, distanceKm: passengerDistance, fare: breakdown.finalFare, breakdown });
+    }
+    
+    if (fares.length > 1) {
+      const firstPickup = ride.passengers.reduce((first: any, p: any) => (p.pickupOrder < first.pickupOrder ? p : first));
+      const strategy = getCostSharingAreas().strategyAt(firstPickup.pickup);
+      
+      const weights = costShareWeights(
+        strategy,
+        ride.passengers.map((p: any, i: number) => ({
+          directDistance: model.distance(p.pickup, p.dropoff),
+          riddenDistance: fares[i].distanceKm,
+          seats: p.passengers
+        })),
+        routeCoalitionCost(ride.route, ride.passengers, (from, to) => model.distance(from, to))
+      );
+      
+      const total = fares.reduce((sum, f) => sum + f.breakdown.finalFare, 0);
+      const shares = this.pricingEngine.splitFare(total, weights, soloFares);
+      
+      fares.forEach((f, i) => {
+        f.breakdown = {
+          ...f.breakdown,
+          costSharingStrategy: strategy,
+          costShareAdjustment: Math.round((shares[i] - f.breakdown.finalFare) * 100) / 100,
+          soloFare: soloFares[i],
+          finalFare: shares[i]
+        };
+        f.fare = shares[i];
+      });
+    }
+    
+    ride.passengers.forEach((passenger: any, i: number) => {
+      passenger.fare = fares[i].fare;
+    });
+    
+    return fares;
   }
 
   /**
@@ -402,21 +1534,46 @@ export class RideService {
     const pickupIdx = passenger.pickupOrder;
     const dropoffIdx = passenger.dropoffOrder;
     
-    // Calculate distance from pickup to dropoff
+    // Sum the legs ridden, measured by the active travel-time model
+    const model = getTravelTimeModel();
     let distance = 0;
     for (let i = pickupIdx; i < dropoffIdx && i < route.length - 1; i++) {
-      const from = route[i];
-      const to = route[i + 1];
-      
-      // Simple distance calculation (Haversine would be more accurate)
-      const latDiff = to.latitude - from.latitude;
-      const lngDiff = to.longitude - from.longitude;
-      distance += Math.sqrt(latDiff * latDiff + lngDiff * lngDiff) * 111; // Rough km conversion
+      distance += model.distance(route[i], route[i + 1]);
     }
     
     return distance;
   }
 
+  /**
+   * Map a pricing_history row to its FareBreakdown
+   */
+  private mapRowToFareBreakdown(row: any): FareBreakdown {
+    return {
+      passengers: row.passengers,
+      distanceKm: parseFloat(row.distance_km),
+      baseFare: parseFloat(row.base_fare),
+      distanceFare: parseFloat(row.distance_fare),
+      surgeMultiplier: parseFloat(row.surge_multiplier),
+      surgeCharge: parseFloat(row.surge_charge),
+      timeMultiplier: parseFloat(row.time_multiplier),
+      timeCharge: parseFloat(row.time_charge),
+      tariffVersion: row.tariff_version,
+      tariffRulesVersion: row.tariff_rules_version,
+      flatFareAdjustment: parseFloat(row.flat_fare_adjustment),
+      capAdjustment: parseFloat(row.cap_adjustment),
+      surcharges: row.surcharges,
+      poolingDiscountRate: parseFloat(row.pooling_discount_rate),
+      poolingDiscount: parseFloat(row.pooling_discount),
+      minimumFareAdjustment: parseFloat(row.minimum_fare_adjustment),
+      costSharingStrategy: row.cost_sharing_strategy,
+      costShareAdjustment: parseFloat(row.cost_share_adjustment),
+      soloFare: row.solo_fare === null ? null : parseFloat(row.solo_fare),
+      promoCode: row.promo_code,
+      promoDiscount: parseFloat(row.promo_discount),
+      finalFare: parseFloat(row.final_fare)
+    };
+  }
+
   /**
    * Map database row to RideRequest object
    */
@@ -435,6 +1592,8 @@ export class RideService {
         address: row.dropoff_address
       },
       requestedAt: row.requested_at,
+      earliestPickupAt: row.earliest_pickup_at,
+      latestPickupAt: row.latest_pickup_at,
       passengers: row.passengers,
       luggage: row.luggage,
       maxDetourMinutes: row.max_detour_minutes,
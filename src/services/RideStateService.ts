@@ -0,0 +1,146 @@
+import pool from '../config/database';
+import { PoolClient } from 'pg';
+import { Actor, RideStatus, StatusEntity, StatusTransition } from '../types';
+import { assertTransition } from '../algorithms/rideState';
+
+/**
+ * Every status change of rides and requests goes through here, inside the
+ * caller's transaction: the state machine is checked against the locked row
+ * and the change is written to the status_transitions audit trail
+ */
+export class RideStateService {
+  /**
+   * Move a ride to a new status
+   * @returns The status it moved from
+   * @throws if the ride does not exist or the transition is not allowed
+   */
+  async transitionRide(
+    client: PoolClient,
+    rideId: string,
+    to: RideStatus,
+    actor: Actor,
+    reason: string
+  ): Promise<RideStatus> {
+    const ride = await client.query('SELECT status FROM rides WHERE id = $1 FOR UPDATE', [rideId]);
+
+    if (ride.rows.length === 0) {
+      throw new Error('Ride not found');
+    }
+
+    const from: RideStatus = ride.rows[0].status;
+    assertTransition('RIDE', from, to);
+
+    await client.query(
+      'UPDATE rides SET status = $1, version = version + 1 WHERE id = $2',
+      [to, rideId]
+    );
+
+    await this.record(client, 'RIDE', rideId, rideId, from, to, actor, reason);
+
+    return from;
+  }
+
+  /**
+   * Move requests to a new status, all or none
+   * @param rideId - Ride the change happened on, for its timeline; null if none
+   * @throws if a request does not exist or its transition is not allowed
+   */
+  async transitionRequests(
+    client: PoolClient,
+    requestIds: string[],
+    to: RideStatus,
+    actor: Actor,
+    reason: string,
+    rideId: string | null
+  ): Promise<void> {
+    // Locked in id order to avoid deadlocks
+    const requests = await client.query(
+      'SELECT id, status FROM ride_requests WHERE id = ANY($1) ORDER BY id FOR UPDATE',
+      [requestIds]
+    );
+
+    if (requests.rows.length !== new Set(requestIds).size) {
+      throw new Error('Request not found');
+    }
+
+    for (const row of requests.rows) {
+      assertTransition('REQUEST', row.status, to);
+    }
+
+    await client.query(
+      'UPDATE ride_requests SET status = $1, version = version + 1 WHERE id = ANY($2)',
+      [to, requestIds]
+    );
+
+    for (const row of requests.rows) {
+      await this.record(client, 'REQUEST', row.id, rideId, row.status, to, actor, reason);
+    }
+  }
+
+  /**
+   * Audit row for a ride or request that was just created
+   */
+  async recordCreated(
+    client: PoolClient,
+    entityType: StatusEntity,
+    entityId: string,
+    status: RideStatus,
+    actor: Actor,
+    reason: string,
+    rideId: string | null
+  ): Promise<void> {
+    await this.record(client, entityType, entityId, rideId, null, status, actor, reason);
+  }
+
+  /**
+   * Status history of a ride and of the requests booked on it, oldest first
+   * A request's changes on other rides it was on before are left out
+   * @returns null if the ride does not exist
+   */
+  async getTimeline(rideId: string): Promise<StatusTransition[] | null> {
+    const ride = await pool.query('SELECT id FROM rides WHERE id = $1', [rideId]);
+    if (ride.rows.length === 0) {
+      return null;
+    }
+
+    const result = await pool.query(
+      `SELECT * FROM status_transitions
+       WHERE ride_id = $1
+       OR (ride_id IS NULL AND entity_type = 'REQUEST'
+         AND entity_id IN (SELECT request_id FROM ride_passengers WHERE ride_id = $1))
+       ORDER BY created_at`,
+      [rideId]
+    );
+
+    return result.rows.map(row => this.mapRowToTransition(row));
+  }
+
+  private async record(
+    client: PoolClient,
+    entityType: StatusEntity,
+    entityId: string,
+    rideId: string | null,
+    from: RideStatus | null,
+    to: RideStatus,
+    actor: Actor,
+    reason: string
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO status_transitions (entity_type, entity_id, ride_id, from_status, to_status, actor, reason)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [entityType, entityId, rideId, from, to, actor, reason]
+    );
+  }
+
+  private mapRowToTransition(row: any): StatusTransition {
+    return {
+      entityType: row.entity_type,
+      entityId: row.entity_id,
+      fromStatus: row.from_status,
+      toStatus: row.to_status,
+      actor: row.actor,
+      reason: row.reason,
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
@@ -0,0 +1,58 @@
+import pool from '../config/database';
+import redisClient from '../config/redis';
+import { surgeConfig } from '../config/pricing';
+import { RideStatus, SurgeZone } from '../types';
+import { PricingEngine } from '../algorithms/pricing';
+import { SurgeMap, buildSurgeMap } from '../algorithms/surge';
+
+/**
+ * Zone-based surge from PENDING pickups and available cabs
+ * The map is rebuilt at most once per cacheSeconds across all instances
+ */
+export class SurgeService {
+  private pricingEngine: PricingEngine;
+
+  constructor() {
+    this.pricingEngine = new PricingEngine();
+  }
+
+  /**
+   * Current surge map, from Redis cache when fresh
+   */
+  async getSurgeMap(): Promise<SurgeMap> {
+    const cached = await redisClient.get('surge:map');
+    if (cached) {
+      return new SurgeMap(JSON.parse(cached), surgeConfig.cellSizeKm);
+    }
+    
+    const demand = await pool.query(
+      'SELECT pickup_lat, pickup_lng FROM ride_requests WHERE status = $1',
+      [RideStatus.PENDING]
+    );
+    
+    // Cabs that have not reported a location cannot be placed in a zone
+    const supply = await pool.query(
+      `SELECT current_lat, current_lng FROM cabs
+       WHERE is_available = true AND current_lat IS NOT NULL AND current_lng IS NOT NULL`
+    );
+    
+    const surgeMap = buildSurgeMap(
+      demand.rows.map(row => ({ latitude: parseFloat(row.pickup_lat), longitude: parseFloat(row.pickup_lng) })),
+      supply.rows.map(row => ({ latitude: parseFloat(row.current_lat), longitude: parseFloat(row.current_lng) })),
+      (d, s) => this.pricingEngine.calculateSurgeFactor(d, s),
+      surgeConfig
+    );
+    
+    await redisClient.setEx('surge:map', surgeConfig.cacheSeconds, JSON.stringify(surgeMap.zones));
+    
+    return surgeMap;
+  }
+
+  /**
+   * Zones that currently surge, highest first
+   */
+  async getSurgeZones(): Promise<SurgeZone[]> {
+    const surgeMap = await this.getSurgeMap();
+    return [...surgeMap.zones].sort((a, b) => b.surgeFactor - a.surgeFactor);
+  }
+}
@@ -0,0 +1,173 @@
+import pool from '../config/database';
+import redisClient from '../config/redis';
+import { defaultTariff } from '../config/pricing';
+import { Tariff } from '../types';
+
+const ACTIVE_TARIFF_KEY = 'tariff:active';
+const ACTIVE_TARIFF_CACHE_SECONDS = 60;
+
+/**
+ * Versioned tariffs stored in the tariffs table
+ * A version is editable until it takes effect; after that booked fares
+ * reference it, so prices change by adding a new version
+ */
+export class TariffService {
+  /**
+   * Tariff in effect now, from Redis cache when fresh
+   * Falls back to defaultTariff when no stored version is in effect
+   */
+  async getActiveTariff(): Promise<Tariff> {
+    const cached = await redisClient.get(ACTIVE_TARIFF_KEY);
+    if (cached) {
+      const tariff = JSON.parse(cached);
+      return { ...tariff, effectiveFrom: new Date(tariff.effectiveFrom) };
+    }
+    
+    const active = await pool.query(
+      'SELECT * FROM tariffs WHERE effective_from <= NOW() ORDER BY effective_from DESC LIMIT 1'
+    );
+    const tariff = active.rows.length > 0 ? this.mapRowToTariff(active.rows[0]) : defaultTariff;
+    
+    // Expire the cache when the next version takes effect
+    const next = await pool.query(
+      `SELECT EXTRACT(EPOCH FROM (MIN(effective_from) - NOW())) AS seconds
+       FROM tariffs WHERE effective_from > NOW()`
+    );
+    const secondsUntilNext = next.rows[0].seconds === null ? Infinity : Math.ceil(parseFloat(next.rows[0].seconds));
+    
+    await redisClient.setEx(
+      ACTIVE_TARIFF_KEY,
+      Math.max(1, Math.min(ACTIVE_TARIFF_CACHE_SECONDS, secondsUntilNext)),
+      JSON.stringify(tariff)
+    );
+    
+    return tariff;
+  }
+
+  /**
+   * All stored versions, latest effective first
+   */
+  async listTariffs(): Promise<Tariff[]> {
+    const result = await pool.query('SELECT * FROM tariffs ORDER BY effective_from DESC');
+    return result.rows.map(row => this.mapRowToTariff(row));
+  }
+
+  async getTariff(version: string): Promise<Tariff | null> {
+    const result = await pool.query('SELECT * FROM tariffs WHERE version = $1', [version]);
+    return result.rows.length > 0 ? this.mapRowToTariff(result.rows[0]) : null;
+  }
+
+  /**
+   * Add a version; it takes effect at effectiveFrom, which cannot be in the past
+   */
+  async createTariff(tariff: Tariff): Promise<Tariff> {
+    this.assertNotInPast(tariff.effectiveFrom);
+    
+    const result = await pool.query(
+      `INSERT INTO tariffs (version, effective_from, base_fare, rate_per_km, min_fare, time_multipliers, pooling_discounts)
+       VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+      [
+        tariff.version,
+        tariff.effectiveFrom,
+        tariff.baseFare,
+        tariff.ratePerKm,
+        tariff.minFare,
+        JSON.stringify(tariff.timeMultipliers),
+        JSON.stringify(tariff.poolingDiscounts)
+      ]
+    );
+    
+    await redisClient.del(ACTIVE_TARIFF_KEY);
+    return this.mapRowToTariff(result.rows[0]);
+  }
+
+  /**
+   * Change a version that has not taken effect yet
+   * @returns null if the version does not exist
+   */
+  async updateTariff(version: string, changes: Partial<Omit<Tariff, 'version'>>): Promise<Tariff | null> {
+    const existing = await this.getTariff(version);
+    if (!existing) {
+      return null;
+    }
+    
+    this.assertNotInEffect(existing);
+    const updated = { ...existing, ...changes };
+    this.assertNotInPast(updated.effectiveFrom);
+    
+    const result = await pool.query(
+      `UPDATE tariffs
+       SET effective_from = $1, base_fare = $2, rate_per_km = $3, min_fare = $4,
+           time_multipliers = $5, pooling_discounts = $6
+       WHERE version = $7 AND effective_from > NOW()
+       RETURNING *`,
+      [
+        updated.effectiveFrom,
+        updated.baseFare,
+        updated.ratePerKm,
+        updated.minFare,
+        JSON.stringify(updated.timeMultipliers),
+        JSON.stringify(updated.poolingDiscounts),
+        version
+      ]
+    );
+    
+    // Took effect between the read and the update
+    if (result.rows.length === 0) {
+      throw new Error(`Tariff ${version} is already in effect; create a new version instead`);
+    }
+    
+    await redisClient.del(ACTIVE_TARIFF_KEY);
+    return this.mapRowToTariff(result.rows[0]);
+  }
+
+  /**
+   * Delete a version that has not taken effect yet
+   * @returns false if the version does not exist
+   */
+  async deleteTariff(version: string): Promise<boolean> {
+    const existing = await this.getTariff(version);
+    if (!existing) {
+      return false;
+    }
+    
+    this.assertNotInEffect(existing);
+    
+    const result = await pool.query(
+      'DELETE FROM tariffs WHERE version = $1 AND effective_from > NOW() RETURNING id',
+      [version]
+    );
+    
+    if (result.rows.length === 0) {
+      throw new Error(`Tariff ${version} is already in effect; create a new version instead`);
+    }
+    
+    await redisClient.del(ACTIVE_TARIFF_KEY);
+    return true;
+  }
+
+  private assertNotInEffect(tariff: Tariff): void {
+    if (tariff.effectiveFrom.getTime() <= Date.now()) {
+      throw new Error(`Tariff ${tariff.version} is already in effect; create a new version instead`);
+    }
+  }
+
+  private assertNotInPast(effectiveFrom: Date): void {
+    // Small allowance for clock skew when "now" is requested
+    if (effectiveFrom.getTime() < Date.now() - 60 * 1000) {
+      throw new Error('effectiveFrom cannot be in the past');
+    }
+  }
+
+  private mapRowToTariff(row: any): Tariff {
+    return {
+      version: row.version,
+      effectiveFrom: new Date(row.effective_from),
+      baseFare: parseFloat(row.base_fare),
+      ratePerKm: parseFloat(row.rate_per_km),
+      minFare: parseFloat(row.min_fare),
+      timeMultipliers: row.time_multipliers,
+      poolingDiscounts: row.pooling_discounts
+    };
+  }
+}
@@ -0,0 +1,182 @@
+import Queue from 'bull';
+import redisClient from '../../config/redis';
+import { matchingQueueConfig } from '../../config/matching';
+import { MatchingJobStatus } from '../../types';
+import { MatchingQueueService } from '../MatchingQueueService';
+import { RideService } from '../RideService';
+
+jest.mock('bull', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation((name: string) => ({
+    name,
+    add: jest.fn().mockResolvedValue({}),
+    getJob: jest.fn().mockResolvedValue(null),
+    on: jest.fn(),
+    process: jest.fn().mockResolvedValue(undefined),
+    close: jest.fn().mockResolvedValue(undefined)
+  }))
+}));
+
+// Job records kept in memory in place of Redis
+jest.mock('../../config/redis', () => {
+  const store = new Map<string, string>();
+  return {
+    __esModule: true,
+    redisOptions: {},
+    default: {
+      store,
+      get: jest.fn(async (key: string) => store.get(key) ?? null),
+      setEx: jest.fn(async (key: string, _ttl: number, value: string) => {
+        store.set(key, value);
+      }),
+      publish: jest.fn().mockResolvedValue(0)
+    }
+  };
+});
+
+jest.mock('../RideService', () => ({
+  RideService: jest.fn().mockImplementation(() => ({
+    findMatches: jest.fn(),
+    markNoDriverAvailable: jest.fn().mockResolvedValue(undefined)
+  }))
+}));
+
+describe('MatchingQueueService', () => {
+  let service: MatchingQueueService;
+  let queue: any;
+  let deadLetterQueue: any;
+  let rideService: any;
+
+  const store = (redisClient as any).store as Map<string, string>;
+  const storedJob = (requestId: string) => JSON.parse(store.get(`matching:${requestId}`)!);
+
+  // Handlers startWorkers registers with Bull
+  const workers = () => ({
+    process: queue.process.mock.calls[0][1],
+    failed: queue.on.mock.calls.find((call: any[]) => call[0] === 'failed')[1]
+  });
+
+  // The failed handler does not return its promise
+  const settle = () => new Promise(resolve => setImmediate(resolve));
+
+  const bullJob = (attemptsMade: number) => ({
+    data: { requestId: 'req-1', promoCode: 'SAVE10' },
+    attemptsMade,
+    opts: { attempts: 3 },
+    progress: jest.fn().mockResolvedValue(undefined)
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    store.clear();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    service = new MatchingQueueService();
+    const queues = (Queue as unknown as jest.Mock).mock.results.map(r => r.value);
+    queue = queues.find(q => q.name === 'matching');
+    deadLetterQueue = queues.find(q => q.name === 'matching-dead-letter');
+    rideService = (RideService as unknown as jest.Mock).mock.results[0].value;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  describe('enqueue', () => {
+    it('should add one job per request with retries and exponential backoff', async () => {
+      const job = await service.enqueue('req-1', 'SAVE10');
+
+      expect(job).toMatchObject({ requestId: 'req-1', status: MatchingJobStatus.QUEUED, promoCode: 'SAVE10' });
+      expect(queue.add).toHaveBeenCalledWith({ requestId: 'req-1', promoCode: 'SAVE10' }, {
+        jobId: 'req-1',
+        attempts: matchingQueueConfig.attempts,
+        backoff: { type: 'exponential', delay: matchingQueueConfig.backoffMs },
+        removeOnComplete: true,
+        removeOnFail: true
+      });
+      expect(storedJob('req-1').status).toBe(MatchingJobStatus.QUEUED);
+    });
+
+    it('should keep the existing job of a request already queued', async () => {
+      const first = await service.enqueue('req-1');
+      queue.getJob.mockResolvedValueOnce({ id: 'req-1' });
+
+      const second = await service.enqueue('req-1');
+
+      expect(queue.add).toHaveBeenCalledTimes(1);
+      expect(second).toEqual(first);
+    });
+
+    it('should fail the job of a request that cannot be queued, so it can be queued again', async () => {
+      queue.add.mockRejectedValueOnce(new Error('Redis down'));
+
+      const job = await service.enqueue('req-1');
+
+      expect(job).toMatchObject({ status: MatchingJobStatus.FAILED, error: 'Redis down' });
+      expect(storedJob('req-1').status).toBe(MatchingJobStatus.FAILED);
+
+      expect((await service.requeue('req-1')).status).toBe(MatchingJobStatus.QUEUED);
+      expect(queue.add).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('failed attempts', () => {
+    beforeEach(async () => {
+      await service.enqueue('req-1', 'SAVE10');
+      service.startWorkers();
+    });
+
+    it('should queue the job again while attempts are left', async () => {
+      workers().failed(bullJob(1), new Error('Database unavailable'));
+      await settle();
+
+      expect(storedJob('req-1')).toMatchObject({ status: MatchingJobStatus.QUEUED, attempts: 1 });
+      expect(deadLetterQueue.add).not.toHaveBeenCalled();
+    });
+
+    it('should move the job to the dead-letter queue after the last attempt', async () => {
+      workers().failed(bullJob(3), new Error('Database unavailable'));
+      await settle();
+
+      expect(storedJob('req-1')).toMatchObject({ status: MatchingJobStatus.FAILED, error: 'Database unavailable' });
+      expect(deadLetterQueue.add).toHaveBeenCalledWith(
+        expect.objectContaining({ requestId: 'req-1', promoCode: 'SAVE10', attempts: 3, error: 'Database unavailable' }),
+        { jobId: 'req-1' }
+      );
+    });
+  });
+
+  describe('process', () => {
+    beforeEach(async () => {
+      await service.enqueue('req-1', 'SAVE10');
+      service.startWorkers();
+    });
+
+    it('should store the matches of a finished attempt', async () => {
+      rideService.findMatches.mockResolvedValueOnce([{ score: 80 }]);
+
+      await expect(workers().process(bullJob(0))).resolves.toBe(1);
+
+      expect(rideService.findMatches).toHaveBeenCalledWith('req-1', 'SAVE10', expect.any(AbortSignal));
+      expect(storedJob('req-1')).toMatchObject({ status: MatchingJobStatus.COMPLETED, matches: [{ score: 80 }] });
+    });
+
+    it('should abort the search of an attempt that times out', async () => {
+      jest.useFakeTimers();
+      let signal: AbortSignal | undefined;
+      rideService.findMatches.mockImplementationOnce((_id: string, _promo: string, s: AbortSignal) => {
+        signal = s;
+        return new Promise(() => {});
+      });
+
+      const attempt = workers().process(bullJob(0));
+      const failed = expect(attempt).rejects.toThrow(`Matching timed out after ${matchingQueueConfig.timeoutMs}ms`);
+      await jest.advanceTimersByTimeAsync(matchingQueueConfig.timeoutMs);
+
+      await failed;
+      expect(signal!.aborted).toBe(true);
+    });
+  });
+});
@@ -25,6 +25,8 @@ export interface RideRequest {
   pickup: Location;
   dropoff: Location;
   requestedAt: Date;
+  earliestPickupAt: Date; // Rider is ready from this time
+  latestPickupAt: Date; // Rider must be picked up by this time
   passengers: number;
   luggage: LuggageSize[];
   maxDetourMinutes: number;
@@ -32,15 +34,29 @@ export interface RideRequest {
   version: number;
 }
 
+export interface VehicleCapacity {
+  maxPassengers: number;
+  maxLuggage: number; // Sum of LuggageSize units
+}
+
+export interface ScheduledStop {
+  type: 'pickup' | 'dropoff';
+  requestId: string;
+  location: Location;
+  scheduledAt?: Date; // Planned service time, after any wait for the pickup window
+}
+
 export interface Ride {
   id: string;
   cabId: string;
   passengers: PassengerInfo[];
   route: Location[];
+  schedule?: ScheduledStop[];
   totalDistance: number;
   estimatedDuration: number;
   basePrice: number;
   surgeFactor: number;
+  vehicle?: VehicleCapacity; // Smallest vehicle class that can carry the group
   status: RideStatus;
   createdAt: Date;
   version: number;
@@ -59,13 +75,256 @@ export interface PassengerInfo {
   detourMinutes: number;
 }
 
+export type ScoreFactorName = 'efficiency' | 'detour' | 'savings' | 'pickupWait' | 'coRiders';
+
+export interface ScoreFactor {
+  factor: ScoreFactorName;
+  value: number; // Normalised 0-1, higher is better
+  weight: number; // Configured weight
+  points: number; // Contribution to the 0-100 score
+  detail: string; // Why the factor scored as it did, for display
+}
+
+/**
+ * Itemised fare for one booking; amounts are in currency units rounded to
+ * cents and sum to finalFare
+ */
+export interface FareBreakdown {
+  passengers: number;
+  distanceKm: number;
+  baseFare: number;
+  distanceFare: number;
+  surgeMultiplier: number;
+  surgeCharge: number; // Added by surge
+  timeMultiplier: number;
+  timeCharge: number; // Added by the peak / late-night multiplier
+  tariffVersion: string; // Tariff the base, distance, minimum, time and discount rates came from
+  tariffRulesVersion: string | null; // Geofenced rule set applied, null if none in effect
+  flatFareAdjustment: number; // Flat fare minus the metered fare it replaced
+  capAdjustment: number; // Deducted by a fare cap (0 or negative)
+  surcharges: { name: string; amount: number }[];
+  poolingDiscountRate: number; // 0-1
+  poolingDiscount: number; // Deducted, as a positive amount
+  minimumFareAdjustment: number; // Added to reach the minimum fare
+  costSharingStrategy: CostSharingStrategy | null; // How the shared ride's total was split, null if not shared
+  costShareAdjustment: number; // This booking's share minus its independently priced fare
+  soloFare: number | null; // What the booking would pay riding alone; a shared fare never exceeds it
+  promoCode: string | null;
+  promoDiscount: number; // Deducted by the promo code, as a positive amount
+  finalFare: number;
+}
+
+export interface FareHistoryEntry {
+  requestId: string;
+  calculatedAt: Date;
+  breakdown: FareBreakdown;
+}
+
+export interface QuotedFare {
+  requestId: string;
+  distanceKm: number; // Distance this booking rides
+  fare: number;
+  breakdown: FareBreakdown;
+}
+
+export interface FareQuote {
+  quoteId: string; // Booking reference for POST /book
+  timeOfDay: number; // Hour the time multiplier was taken from
+  fares: QuotedFare[]; // One per booking in the ride
+  quotedAt: Date;
+  expiresAt: Date; // Fares are honoured at booking until then
+  promo?: PromoApplication; // Set when the rider quoted with a promo code
+}
+
+export interface PromoApplication {
+  code: string;
+  applied: boolean;
+  reason?: string; // Why the code does not apply to this match
+}
+
 export interface MatchResult {
+  quote?: FareQuote; // Set once the server stores the priced match
   score: number;
+  scoreBreakdown: ScoreFactor[]; // Points sum to score
   ride: Ride;
   savings: number;
   detourTime: number;
 }
 
+export enum MatchingJobStatus {
+  QUEUED = 'QUEUED', // Waiting for a worker, or for its next retry
+  ACTIVE = 'ACTIVE',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED' // Every attempt failed; the job is in the dead-letter queue
+}
+
+/**
+ * Progress and outcome of a request's matching job
+ */
+export interface MatchingJob {
+  requestId: string;
+  status: MatchingJobStatus;
+  progress: number; // 0-100
+  attempts: number; // Attempts started so far
+  matches?: MatchResult[]; // Once COMPLETED; empty if no ride was found
+  error?: string; // Last failed attempt
+  promoCode?: string; // Passed when the request was created, kept for requeueing
+  updatedAt: Date;
+}
+
+/**
+ * Matching job that failed every attempt
+ */
+export interface MatchingDeadLetter {
+  requestId: string;
+  promoCode?: string;
+  error: string;
+  attempts: number;
+  failedAt: Date;
+}
+
+export interface BookingConfirmation {
+  rideId: string;
+  cabId: string;
+  pickupDistanceKm: number | null; // null when the cab has no known location
+  pickupEtaMinutes: number | null;
+}
+
+export interface ZoneBounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+export interface SurgeZone {
+  zoneId: string;
+  bounds: ZoneBounds;
+  demand: number; // PENDING pickups in the zone
+  supply: number; // Available cabs in the zone
+  surgeFactor: number; // From demand and supply in the zone and its neighbours
+}
+
+/**
+ * Time-of-day multiplier from startHour (inclusive) to endHour (exclusive)
+ * A window with startHour > endHour wraps past midnight
+ */
+export interface TimeMultiplierWindow {
+  startHour: number;
+  endHour: number;
+  multiplier: number;
+}
+
+/**
+ * Versioned tariff; the latest one with effectiveFrom <= quote time applies
+ */
+export interface Tariff {
+  version: string;
+  effectiveFrom: Date;
+  baseFare: number; // Per passenger
+  ratePerKm: number; // Per passenger
+  minFare: number; // Per booking
+  timeMultipliers: TimeMultiplierWindow[]; // First matching window wins; 1.0 outside all
+  poolingDiscounts: number[]; // Rate by total riders: [0] is 1 rider; the last covers larger rides
+}
+
+/**
+ * Who caused a status change or cancellation
+ */
+export enum Actor {
+  RIDER = 'RIDER',
+  DRIVER = 'DRIVER',
+  SYSTEM = 'SYSTEM'
+}
+
+export type StatusEntity = 'RIDE' | 'REQUEST';
+
+/**
+ * One status change of a ride or request, from the audit trail
+ */
+export interface StatusTransition {
+  entityType: StatusEntity;
+  entityId: string;
+  fromStatus: RideStatus | null; // null when the ride or request was created
+  toStatus: RideStatus;
+  actor: Actor;
+  reason: string;
+  createdAt: Date;
+}
+
+/**
+ * What one booking is charged when its ride is cancelled
+ * The quoted fare is split into a fee kept and a refund (fee + refund = fare)
+ */
+export interface CancellationCharge {
+  requestId: string;
+  cancelledBy: Actor;
+  fare: number;
+  fee: number;
+  refund: number;
+  reason: string;
+}
+
+export enum WaypointEvent {
+  ARRIVED = 'ARRIVED', // Cab reached the stop
+  DONE = 'DONE' // Rider got in (pickup) or out (dropoff)
+}
+
+/**
+ * Driver-reported progress at one stop of a ride
+ */
+export interface WaypointProgress {
+  requestId: string;
+  type: 'pickup' | 'dropoff';
+  location: Location;
+  arrivedAt: Date | null;
+  doneAt: Date | null;
+}
+
+/**
+ * Quoted versus final fare of one booking, settled when its ride completes
+ * Distances and durations are for the whole ride
+ */
+export interface FareSettlement {
+  requestId: string;
+  quotedFare: number;
+  finalFare: number;
+  estimatedDistanceKm: number;
+  actualDistanceKm: number | null; // Along the cab's recorded locations, null if too few were recorded
+  estimatedDurationMinutes: number;
+  actualDurationMinutes: number | null; // Start to completion, null if the ride was never started
+  capped: boolean; // The adjustment was limited by the tolerance
+}
+
+/**
+ * How the total fare of a shared ride is split between its bookings
+ */
+export enum CostSharingStrategy {
+  DIRECT_DISTANCE = 'DIRECT_DISTANCE', // Proportional to each booking's direct pickup-dropoff distance
+  DISTANCE_RIDDEN = 'DISTANCE_RIDDEN', // Proportional to the distance each booking rides, detours included
+  SHAPLEY = 'SHAPLEY' // Average marginal route cost each booking adds
+}
+
+export enum DiscountType {
+  PERCENTAGE = 'PERCENTAGE',
+  FIXED = 'FIXED'
+}
+
+export interface Promotion {
+  code: string;
+  description: string | null;
+  discountType: DiscountType;
+  amount: number; // Percent (0-100) or currency amount off the booking's fare
+  maxDiscount: number | null; // Cap on the discount per booking
+  perUserLimit: number | null; // Redemptions per user, unlimited if null
+  globalLimit: number | null; // Redemptions across all users, unlimited if null
+  redemptionCount: number;
+  validFrom: Date;
+  validTo: Date | null; // Exclusive; open-ended if null
+  pooledOnly: boolean; // Only rides shared with another booking
+  area: Location[] | null; // Polygon the trip must start or end in, anywhere if null
+}
+
 export interface PricingParams {
   baseDistance: number;
   actualDistance: number;
@@ -73,4 +332,8 @@ export interface PricingParams {
   surgeFactor: number;
   timeOfDay: number;
   totalPassengersInRide?: number; // Total passengers in the shared ride (for discount)
+  pickup?: Location; // With dropoff, enables geofenced tariff rules
+  dropoff?: Location;
+  quotedAt?: Date; // Selects the tariff rule set in effect (default now)
+  tariff?: Tariff; // Active tariff (default: built-in defaultTariff)
 }
@@ -1,44 +0,0 @@
-/**
- * Semaphore for limiting concurrent operations
- * Allows processing in batches of N concurrent operations
- */
-export class Semaphore {
-  private permits: number;
-  private queue: Array<() => void> = [];
-
-  constructor(permits: number) {
-    this.permits = permits;
-  }
-
-  async acquire(): Promise<void> {
-    if (this.permits > 0) {
-      this.permits--;
-      return Promise.resolve();
-    }
-
-    return new Promise<void>((resolve) => {
-      this.queue.push(resolve);
-    });
-  }
-
-  release(): void {
-    this.permits++;
-    
-    if (this.queue.length > 0) {
-      this.permits--;
-      const resolve = this.queue.shift();
-      if (resolve) {
-        resolve();
-      }
-    }
-  }
-
-  async execute<T>(fn: () => Promise<T>): Promise<T> {
-    await this.acquire();
-    try {
-      return await fn();
-    } finally {
-      this.release();
-    }
-  }
-}
@@ -67,7 +67,7 @@ async function confirmRide() {
     
     const bookingData = {
       requestId: requestId,
-      rideData: selectedMatch.ride
+      quoteId: selectedMatch.quote.quoteId
     };
 
     const bookResponse = await fetch(`${BASE_URL}/api/rides/book`, {
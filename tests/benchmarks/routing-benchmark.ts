@@ -0,0 +1,56 @@
+/**
+ * Route Optimizer Benchmark
+ * Compares the bitmask DP optimizer with exhaustive permutation search
+ *
+ * Usage: npm run benchmark:routing
+ */
+import { performance } from 'perf_hooks';
+import { optimizeRouteDynamic, optimizeRouteExhaustive } from '../../src/algorithms/routing';
+import { RideRequest, RideStatus, LuggageSize } from '../../src/types';
+
+const RUNS = 5;
+const EXHAUSTIVE_MAX_REQUESTS = 4; // 5 requests = 3.6M permutations
+
+function createRequests(count: number): RideRequest[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `req-${i}`,
+    userId: `user-${i}`,
+    pickup: { latitude: 40.64 + Math.random() * 0.05, longitude: -73.78 + Math.random() * 0.05 },
+    dropoff: { latitude: 40.70 + Math.random() * 0.1, longitude: -74.0 + Math.random() * 0.1 },
+    requestedAt: new Date(),
+    earliestPickupAt: new Date(),
+    latestPickupAt: new Date(Date.now() + 60 * 60000),
+    passengers: 1,
+    luggage: [LuggageSize.SMALL],
+    maxDetourMinutes: 15,
+    status: RideStatus.PENDING,
+    version: 1
+  }));
+}
+
+function time(fn: () => { totalDistance: number }): { ms: number; distance: number } {
+  let distance = 0;
+  const start = performance.now();
+  for (let i = 0; i < RUNS; i++) {
+    distance = fn().totalDistance;
+  }
+  return { ms: (performance.now() - start) / RUNS, distance };
+}
+
+console.log('Requests | DP (ms)  | Exhaustive (ms) | Same result');
+console.log('---------|----------|-----------------|------------');
+
+for (let count = 2; count <= 7; count++) {
+  const requests = createRequests(count);
+  const dp = time(() => optimizeRouteDynamic(requests));
+
+  let exhaustiveCol = 'skipped'.padEnd(15);
+  let sameCol = '-';
+  if (count <= EXHAUSTIVE_MAX_REQUESTS) {
+    const exhaustive = time(() => optimizeRouteExhaustive(requests));
+    exhaustiveCol = exhaustive.ms.toFixed(2).padStart(15);
+    sameCol = Math.abs(dp.distance - exhaustive.distance) < 1e-9 ? 'yes' : 'NO';
+  }
+
+  console.log(`${String(count).padStart(8)} | ${dp.ms.toFixed(2).padStart(8)} | ${exhaustiveCol} | ${sameCol}`);
+}
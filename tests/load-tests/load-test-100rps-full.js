@@ -128,16 +128,25 @@ function makeRequest(method, path, body = null) {
   });
 }
 
-// Wait for match (no retry needed, synchronous processing)
+// Wait for match, polling while the matching job is queued or running
 async function getMatch(requestId) {
   try {
-    const result = await makeRequest('GET', `/api/rides/matches/${requestId}`);
-    
-    if (result.status === 200 && result.data.success) {
-      return { success: true, data: result.data.data };
+    for (let attempt = 0; attempt < 20; attempt++) {
+      const result = await makeRequest('GET', `/api/rides/matches/${requestId}`);
+      
+      if (result.status === 202) {
+        await new Promise(resolve => setTimeout(resolve, result.data.retryAfterMs || 500));
+        continue;
+      }
+      
+      if (result.status === 200 && result.data.success) {
+        return { success: true, data: result.data.data };
+      }
+      
+      return { success: false, error: result.data.error || 'Unknown error' };
     }
     
-    return { success: false, error: result.data.error || 'Unknown error' };
+    return { success: false, error: 'Matching still pending' };
   } catch (error) {
     return { success: false, error: error.message };
   }
@@ -187,7 +196,7 @@ async function executeCompleteFlow(userId) {
     const match = matches[0];
     const confirmResult = await makeRequest('POST', '/api/rides/book', {
       requestId: requestId,
-      rideData: match.ride
+      quoteId: match.quote.quoteId
     });
     
     if (!confirmResult.data.success) {
@@ -299,7 +308,7 @@ async function runLoadTest(userIds, totalFlows) {
         const match = matchResult.data[0];
         const confirmResult = await makeRequest('POST', '/api/rides/book', {
           requestId: requestId,
-          rideData: match.ride
+          quoteId: match.quote.quoteId
         });
         
         if (confirmResult.data.success) {